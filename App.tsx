@@ -1,9 +1,69 @@
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { ExamSettings, GeneratedExam } from './types';
-import { analyzeImagesAndGenerateQuestions } from './services/geminiService';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { BankQuestion, ExamSettings, ExamSource, GeneratedExam, Question, SavedExam, SourcePage } from './types';
+import { GenerationProgress as GenerationProgressState, generateExamFromSource, regenerateQuestion, translateQuestion } from './services/examGenerator';
+import { AuthError, ProviderConfig, createProvider, isAbortError, loadProviderConfig, saveProviderConfig } from './services/providers';
 import Spinner from './components/Spinner';
 import ExamPaper from './components/ExamPaper';
+import AnswerKey from './components/AnswerKey';
+import ExamLibrary from './components/ExamLibrary';
+import ExamEditor from './components/ExamEditor';
+import ExportMenu from './components/ExportMenu';
+import ProviderSettings from './components/ProviderSettings';
+import BloomMixEditor from './components/BloomMixEditor';
+import BloomDistribution from './components/BloomDistribution';
+import BlueprintEditor from './components/BlueprintEditor';
+import QuestionTypeSettings from './components/QuestionTypeSettings';
+import QuestionBank from './components/QuestionBank';
+import BatchMode from './components/BatchMode';
+import DuplicateWarnings from './components/DuplicateWarnings';
+import PagePreprocessor from './components/PagePreprocessor';
+import SourceReview from './components/SourceReview';
+import GenerationProgress from './components/GenerationProgress';
+import RosterEditor from './components/RosterEditor';
+import OmrSheet from './components/OmrSheet';
+import GradingPanel from './components/GradingPanel';
+import TextSourceInput from './components/TextSourceInput';
+import LanguageSelect from './components/LanguageSelect';
+import TemplateManager from './components/TemplateManager';
+import PaperLayoutEditor from './components/PaperLayoutEditor';
+import QualityChecklist from './components/QualityChecklist';
+import OnlineTest from './components/OnlineTest';
+import { applyBlueprintCounts, createBlueprintUnit, validateBlueprint } from './services/blueprint';
+import { DEFAULT_BLOOM_MIX, DIFFICULTIES, DIFFICULTY_LABELS, validateBloomMix } from './services/bloom';
+import { saveNewExam, updateSavedExam } from './services/examLibrary';
+import { loadSourcePages, prepareSourcePages } from './services/pagePreparation';
+import { findUngroundedQuestions, hasSourceMaterial } from './services/grounding';
+import { MAX_SOURCE_TEXT_CHARS } from './services/documentText';
+import { addPickedQuestions, updateQuestion } from './services/examEditing';
+import { validateMarksAllocation } from './services/marks';
+import {
+  addExamToBank,
+  addQuestionToBank,
+  deleteBankQuestion,
+  findDuplicateQuestions,
+  listBankQuestions,
+  markBankQuestionsUsed,
+} from './services/questionBank';
+import { MAX_VARIANTS, createPaperVariants, createRandomSeed, getSetCodes } from './services/variants';
+import { assignStudentPapers, validateRoster } from './services/roster';
+import { DEFAULT_PAPER_LAYOUT } from './services/templates';
+import { QualityFix, applyQualityFix, mergeQualityFixes, runQualityChecks, writeFixQuestion } from './services/qualityChecks';
+
+// Which document the next window.print() call should include
+type PrintTarget = 'exam' | 'answerKey' | 'classPapers';
+
+// What the paper is written from
+type InputMode = 'pages' | 'topic' | 'text' | 'document';
+
+const INPUT_MODE_LABELS: Record<InputMode, string> = {
+  pages: 'Images or PDF',
+  topic: 'Topic only',
+  text: 'Paste text',
+  document: 'Upload document',
+};
+
+const INPUT_MODES = Object.keys(INPUT_MODE_LABELS) as InputMode[];
 
 const initialSettings: ExamSettings = {
   topic: 'Biology - Cell Structure',
@@ -11,26 +71,98 @@ const initialSettings: ExamSettings = {
   board: 'CBSE',
   studentName: '',
   language: 'English',
+  secondLanguage: '',
   totalMarks: 50,
   duration: 60,
   mcqCount: 5,
+  trueFalseCount: 0,
+  fillBlankCount: 0,
+  matchCount: 0,
+  assertionReasonCount: 0,
   shortCount: 3,
   longCount: 2,
+  caseStudyCount: 0,
+  mcqMarks: 1,
+  trueFalseMarks: 1,
+  fillBlankMarks: 1,
+  matchMarks: 4,
+  assertionReasonMarks: 1,
+  shortMarks: 5,
+  longMarks: 15,
+  caseStudyMarks: 4,
+  variantCount: 1,
+  variantSeed: createRandomSeed(),
+  difficulty: 'medium',
+  bloomMix: DEFAULT_BLOOM_MIX,
+  blueprintEnabled: false,
+  blueprint: [],
+  roster: [],
+  omrSheet: false,
+  layout: DEFAULT_PAPER_LAYOUT,
 };
 
 const App: React.FC = () => {
   const [settings, setSettings] = useState<ExamSettings>(initialSettings);
+  const [inputMode, setInputMode] = useState<InputMode>('pages');
+  const [sourcePages, setSourcePages] = useState<SourcePage[]>([]);
+  const [sourceText, setSourceText] = useState<string>('');
+  const [loadingPages, setLoadingPages] = useState<boolean>(false);
+  // The prepared pages last sent for generation; diagram crops index into these
   const [uploadedImages, setUploadedImages] = useState<File[]>([]);
   const [loading, setLoading] = useState<boolean>(false);
+  const [progress, setProgress] = useState<GenerationProgressState | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [generatedExam, setGeneratedExam] = useState<GeneratedExam | null>(null);
   const [showApiKeyPrompt, setShowApiKeyPrompt] = useState<boolean>(false);
+  const [providerConfig, setProviderConfig] = useState<ProviderConfig>(loadProviderConfig);
+  const provider = useMemo(() => createProvider(providerConfig), [providerConfig]);
+  const [printRequest, setPrintRequest] = useState<PrintTarget | null>(null);
+  const [selectedSetIndex, setSelectedSetIndex] = useState<number>(0);
+  const [currentExamId, setCurrentExamId] = useState<string | null>(null);
+  const [libraryVersion, setLibraryVersion] = useState<number>(0);
+  const [editing, setEditing] = useState<boolean>(false);
+  const [takingOnline, setTakingOnline] = useState<boolean>(false);
+  const [bankEntries, setBankEntries] = useState<BankQuestion[]>([]);
+  const [qualityFixProgress, setQualityFixProgress] = useState<{ done: number; total: number } | null>(null);
+  const latestExamRef = useRef<GeneratedExam | null>(null);
+  latestExamRef.current = generatedExam;
+
+  // Sets are derived from the seed rather than stored, so the same seed always rebuilds the same sets
+  const variants = useMemo(
+    () => (generatedExam ? createPaperVariants(generatedExam, settings.variantCount, settings.variantSeed) : []),
+    [generatedExam, settings.variantCount, settings.variantSeed],
+  );
+  const activeVariant = variants[Math.min(selectedSetIndex, variants.length - 1)];
+  const showSetCodes = variants.length > 1;
+  const studentPapers = useMemo(() => assignStudentPapers(settings.roster, variants), [settings.roster, variants]);
+  const duplicates = useMemo(
+    () => (generatedExam ? findDuplicateQuestions(generatedExam, bankEntries, settings.className, currentExamId) : new Map()),
+    [generatedExam, bankEntries, settings.className, currentExamId],
+  );
+
+  const ungrounded = useMemo(() => (generatedExam ? findUngroundedQuestions(generatedExam) : new Map()), [generatedExam]);
+  const qualityChecks = useMemo(() => (generatedExam ? runQualityChecks(generatedExam, settings) : []), [generatedExam, settings]);
+
+  const refreshBank = useCallback(async () => {
+    try {
+      setBankEntries(await listBankQuestions());
+    } catch (bankError) {
+      console.error('Failed to load the question bank:', bankError);
+    }
+  }, []);
 
-  // Ref to hold the dynamically generated HTML string
-  const examHtmlRef = useRef<string>('');
+  useEffect(() => {
+    refreshBank();
+  }, [refreshBank]);
 
   useEffect(() => {
     const checkApiKey = async () => {
+      // AI Studio key selection only applies to the Gemini provider
+      if (providerConfig.providerId !== 'gemini') {
+        setShowApiKeyPrompt(false);
+        return;
+      }
       // Check if API key has been selected, particularly for Veo but good practice for all Gemini APIs
       if (window.aistudio && typeof window.aistudio.hasSelectedApiKey === 'function') {
         const hasKey = await window.aistudio.hasSelectedApiKey();
@@ -41,28 +173,54 @@ const App: React.FC = () => {
         }
       }
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-    checkApiKey(); // Only check once on mount
-  }, []); // Empty dependency array means this effect runs once after the initial render
+    checkApiKey(); // Re-check whenever the provider changes
+  }, [providerConfig.providerId]);
+
+  const handleProviderConfigChange = useCallback((config: ProviderConfig) => {
+    setProviderConfig(config);
+    saveProviderConfig(config);
+  }, []);
+
+  // Every settings change goes through here so blueprint-derived counts stay in sync
+  const updateSettings = useCallback((changes: Partial<ExamSettings>) => {
+    setSettings((prevSettings) => applyBlueprintCounts({ ...prevSettings, ...changes }));
+  }, []);
 
   const handleSettingChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
     const { name, value, type } = e.target;
-    setSettings((prevSettings) => ({
-      ...prevSettings,
-      [name]: type === 'number' ? parseInt(value, 10) : value,
-    }));
+    if (type === 'checkbox') {
+      updateSettings({ [name]: (e.target as HTMLInputElement).checked });
+      return;
+    }
+    // An emptied number field reads as 0 rather than NaN, which would spread into counts and marks
+    updateSettings({ [name]: type === 'number' ? parseInt(value, 10) || 0 : value });
+  };
+
+  const addSourceFiles = async (files: File[]) => {
+    setError(null);
+    setLoadingPages(true);
+    try {
+      const pages = await loadSourcePages(files);
+      setSourcePages((current) => [...current, ...pages]);
+    } catch (err: any) {
+      console.error('Failed to read uploaded files:', err);
+      setError('Could not read one of the uploaded files. PDFs must not be password protected.');
+    } finally {
+      setLoadingPages(false);
+    }
   };
 
   const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files) {
-      setUploadedImages(Array.from(e.target.files));
+      addSourceFiles(Array.from(e.target.files));
+      e.target.value = ''; // Allow the same file to be added again
     }
   };
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     if (e.dataTransfer.files) {
-      setUploadedImages(Array.from(e.dataTransfer.files));
+      addSourceFiles(Array.from(e.dataTransfer.files));
     }
   };
 
@@ -71,38 +229,232 @@ const App: React.FC = () => {
   };
 
   const clearImages = useCallback(() => {
-    setUploadedImages([]);
+    setSourcePages([]);
     const fileInput = document.getElementById('image-upload') as HTMLInputElement;
     if (fileInput) {
       fileInput.value = ''; // Clear the file input
     }
   }, []);
 
+  // Why the chosen input cannot be generated from yet, or null when it can
+  const validateInput = (): string | null => {
+    switch (inputMode) {
+      case 'pages':
+        return sourcePages.some((page) => page.included) ? null : 'Please upload at least one image and include it.';
+      case 'topic':
+        return settings.topic.trim() ? null : 'Please enter the topic the paper should cover.';
+      case 'text':
+      case 'document':
+        if (!sourceText.trim()) {
+          return inputMode === 'text' ? 'Please paste the text to set questions from.' : 'Please upload a .txt or .docx document.';
+        }
+        return sourceText.length > MAX_SOURCE_TEXT_CHARS ? `The source text is longer than ${MAX_SOURCE_TEXT_CHARS.toLocaleString()} characters.` : null;
+    }
+  };
+
   const generateExam = useCallback(async () => {
     setError(null);
     setLoading(true);
     setGeneratedExam(null); // Clear previous exam
+    setSelectedSetIndex(0);
+    setCurrentExamId(null);
+    setEditing(false);
 
-    if (uploadedImages.length === 0) {
-      setError('Please upload at least one image.');
+    const inputError = validateInput();
+    if (inputError) {
+      setError(inputError);
       setLoading(false);
       return;
     }
 
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setProgress({ stage: inputMode === 'pages' ? 'analysis' : 'questions', attempt: 1 });
     try {
-      const examContent = await analyzeImagesAndGenerateQuestions(uploadedImages, settings);
-      examHtmlRef.current = examContent; // Store the raw content
-      setGeneratedExam({ htmlContent: examContent });
+      const images = inputMode === 'pages' ? await prepareSourcePages(sourcePages) : [];
+      setUploadedImages(images);
+      const source: ExamSource =
+        inputMode === 'pages' ? { kind: 'images', images } : inputMode === 'topic' ? { kind: 'topic' } : { kind: 'text', text: sourceText };
+      const exam = await generateExamFromSource(source, settings, provider, {
+        signal: abortController.signal,
+        onProgress: setProgress,
+      });
+      setGeneratedExam(exam);
+      try {
+        const saved = await saveNewExam(settings, exam, images);
+        setCurrentExamId(saved.id);
+        setLibraryVersion((version) => version + 1);
+        await addExamToBank(exam, settings, saved.id);
+        await refreshBank();
+      } catch (saveError) {
+        // The paper is still usable; it just won't survive a reload
+        console.error('Failed to save exam to the library:', saveError);
+      }
     } catch (err: any) {
+      if (isAbortError(err)) {
+        return; // Cancelled by the user
+      }
       console.error('Failed to generate exam:', err);
-      if (err.message.includes("API key might be invalid")) {
+      if (err instanceof AuthError && providerConfig.providerId === 'gemini') {
         setShowApiKeyPrompt(true); // Show prompt if API key issue
       }
       setError(err.message || 'An unexpected error occurred during exam generation.');
     } finally {
       setLoading(false);
+      setProgress(null);
+      abortControllerRef.current = null;
     }
-  }, [uploadedImages, settings]);
+  }, [inputMode, sourcePages, sourceText, settings, provider, providerConfig.providerId, refreshBank]);
+
+  const cancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  const openSavedExam = useCallback((saved: SavedExam) => {
+    // Older saves may predate newer settings fields and question types, so fill gaps from the defaults
+    setSettings({
+      ...initialSettings,
+      ...saved.settings,
+      bloomMix: { ...DEFAULT_BLOOM_MIX, ...saved.settings.bloomMix },
+      layout: { ...DEFAULT_PAPER_LAYOUT, ...saved.settings.layout },
+      blueprint: (saved.settings.blueprint || []).map((unit) => ({ ...unit, counts: { ...createBlueprintUnit().counts, ...unit.counts } })),
+    });
+    setGeneratedExam(saved.exam);
+    setUploadedImages([]); // The pages of the saved paper are not kept, only thumbnails
+    setSelectedSetIndex(0);
+    setCurrentExamId(saved.id);
+    setEditing(false);
+    setError(null);
+  }, []);
+
+  // Applies an edit and writes it through to the library copy of the exam
+  const handleExamEdited = useCallback((exam: GeneratedExam) => {
+    setGeneratedExam(exam);
+    if (currentExamId) {
+      updateSavedExam(currentExamId, { exam })
+        .then(() => setLibraryVersion((version) => version + 1))
+        .catch((saveError) => console.error('Failed to save exam edits:', saveError));
+    }
+  }, [currentExamId]);
+
+  const handleRegenerateQuestion = useCallback(async (sectionId: string, question: Question) => {
+    if (!generatedExam) {
+      return;
+    }
+    setError(null);
+    try {
+      const replacement = await regenerateQuestion(question, generatedExam, settings, provider);
+      // Apply to the latest exam so edits made while the request was in flight are kept
+      if (latestExamRef.current) {
+        handleExamEdited(updateQuestion(latestExamRef.current, sectionId, replacement));
+      }
+      addQuestionToBank(replacement, settings, currentExamId)
+        .then(refreshBank)
+        .catch((bankError) => console.error('Failed to add the question to the bank:', bankError));
+    } catch (err: any) {
+      console.error('Failed to regenerate question:', err);
+      if (err instanceof AuthError && providerConfig.providerId === 'gemini') {
+        setShowApiKeyPrompt(true);
+      }
+      setError(err.message || 'Failed to regenerate the question.');
+    }
+  }, [generatedExam, settings, provider, providerConfig.providerId, handleExamEdited, currentExamId, refreshBank]);
+
+  const handleTranslateQuestion = useCallback(async (sectionId: string, question: Question) => {
+    setError(null);
+    try {
+      const { translation } = await translateQuestion(question, settings, provider);
+      // Only the translation changes, so edits made while the request was in flight are kept
+      const latest = latestExamRef.current?.sections.find((section) => section.id === sectionId)?.questions.find((other) => other.id === question.id);
+      if (latestExamRef.current && latest) {
+        handleExamEdited(updateQuestion(latestExamRef.current, sectionId, { ...latest, translation }));
+      }
+    } catch (err: any) {
+      console.error('Failed to translate question:', err);
+      if (err instanceof AuthError && providerConfig.providerId === 'gemini') {
+        setShowApiKeyPrompt(true);
+      }
+      setError(err.message || 'Failed to translate the question.');
+    }
+  }, [settings, provider, providerConfig.providerId, handleExamEdited]);
+
+  // Works through the fixes one at a time, so each new question is written knowing the ones before it
+  const handleQualityFixes = useCallback(async (fixes: QualityFix[]) => {
+    const merged = mergeQualityFixes(fixes);
+    setError(null);
+    setQualityFixProgress({ done: 0, total: merged.length });
+    try {
+      for (const [index, fix] of merged.entries()) {
+        if (!latestExamRef.current) {
+          break;
+        }
+        const written = await writeFixQuestion(latestExamRef.current, fix, settings, provider);
+        // Apply to the latest exam so edits made while the request was in flight are kept
+        const fixed = applyQualityFix(latestExamRef.current, fix, written);
+        latestExamRef.current = fixed;
+        handleExamEdited(fixed);
+        // A translation leaves the question itself unchanged, so the bank gains nothing new
+        if (written && fix.kind !== 'translate') {
+          await addQuestionToBank(written, settings, currentExamId).catch((bankError) =>
+            console.error('Failed to add the question to the bank:', bankError),
+          );
+        }
+        setQualityFixProgress({ done: index + 1, total: merged.length });
+      }
+    } catch (err: any) {
+      console.error('Failed to fix the paper:', err);
+      if (err instanceof AuthError && providerConfig.providerId === 'gemini') {
+        setShowApiKeyPrompt(true);
+      }
+      setError(err.message || 'Failed to fix the paper.');
+    } finally {
+      setQualityFixProgress(null);
+      refreshBank();
+    }
+  }, [settings, provider, providerConfig.providerId, handleExamEdited, currentExamId, refreshBank]);
+
+  // Copies bank questions onto the current paper, starting a new saved paper when there is none
+  const handleAddBankQuestions = useCallback(async (entries: BankQuestion[]) => {
+    const baseExam = latestExamRef.current ?? { sections: [] };
+    const exam = addPickedQuestions(baseExam, entries.map((entry) => entry.question), settings);
+    setError(null);
+    setGeneratedExam(exam);
+    try {
+      let examId = currentExamId;
+      if (examId) {
+        await updateSavedExam(examId, { exam });
+      } else {
+        const saved = await saveNewExam(settings, exam, []);
+        examId = saved.id;
+        setCurrentExamId(examId);
+      }
+      setLibraryVersion((version) => version + 1);
+      await markBankQuestionsUsed(entries, examId);
+      await refreshBank();
+    } catch (saveError) {
+      console.error('Failed to save questions picked from the bank:', saveError);
+    }
+  }, [settings, currentExamId, refreshBank]);
+
+  const handleDeleteBankQuestion = useCallback(async (entry: BankQuestion) => {
+    try {
+      await deleteBankQuestion(entry.id);
+      await refreshBank();
+    } catch (bankError) {
+      console.error('Failed to delete the bank question:', bankError);
+      setError('Could not delete the question from the bank.');
+    }
+  }, [refreshBank]);
+
+  // Batch runs save each paper themselves; refresh the library and bank once they finish
+  const handleBatchExamsSaved = useCallback(() => {
+    setLibraryVersion((version) => version + 1);
+    refreshBank();
+  }, [refreshBank]);
+
+  const handleSavedExamDeleted = useCallback((id: string) => {
+    setCurrentExamId((current) => (current === id ? null : current));
+  }, []);
 
   const handleOpenSelectKey = useCallback(async () => {
     if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
@@ -115,12 +467,30 @@ const App: React.FC = () => {
     }
   }, []);
 
-  const printExam = () => {
-    if (generatedExam) {
+  // Print once React has applied the print target, so only the chosen document is visible
+  useEffect(() => {
+    if (printRequest) {
       window.print();
+      setPrintRequest(null);
+    }
+  }, [printRequest]);
+
+  const printDocument = (target: PrintTarget) => {
+    if (generatedExam) {
+      setEditing(false);
+      setPrintRequest(target);
     }
   };
 
+  const marksWarning = validateMarksAllocation(settings);
+  const bloomWarnings = validateBloomMix(settings);
+  const blueprintWarnings = validateBlueprint(settings);
+  const setCodes = getSetCodes(settings.variantCount);
+  const rosterWarnings = validateRoster(settings.roster, setCodes);
+
+  // Browser print shortcuts fall back to the student copy so they never leak the answer key
+  const printTarget: PrintTarget = printRequest ?? 'exam';
+
   return (
     <div className="min-h-screen bg-gray-100 flex flex-col items-center py-8 px-4 sm:px-6 lg:px-8">
       <h1 className="text-4xl font-extrabold text-gray-900 mb-8 no-print">SmartExam AI</h1>
@@ -141,8 +511,30 @@ const App: React.FC = () => {
         </div>
       )}
 
+      <ExamLibrary
+        activeExamId={currentExamId}
+        refreshToken={libraryVersion}
+        onOpen={openSavedExam}
+        onDeleted={handleSavedExamDeleted}
+      />
+
+      <QuestionBank
+        entries={bankEntries}
+        defaultClassName={settings.className}
+        onAddToPaper={handleAddBankQuestions}
+        onDelete={handleDeleteBankQuestion}
+      />
+
+      <BatchMode
+        baseSettings={settings}
+        provider={provider}
+        onExamsSaved={handleBatchExamsSaved}
+      />
+
       <div className="no-print bg-white shadow-lg rounded-lg p-6 sm:p-8 w-full max-w-4xl mb-8">
         <h2 className="text-2xl font-bold text-gray-800 mb-6">Exam Settings</h2>
+        <ProviderSettings config={providerConfig} onChange={handleProviderConfigChange} />
+        <TemplateManager settings={settings} onApply={(next) => updateSettings(next)} />
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 mb-6">
           <div className="flex flex-col">
             <label htmlFor="topic" className="text-sm font-medium text-gray-700 mb-1">Topic</label>
@@ -191,12 +583,22 @@ const App: React.FC = () => {
           </div>
           <div className="flex flex-col">
             <label htmlFor="language" className="text-sm font-medium text-gray-700 mb-1">Language</label>
-            <input
-              type="text"
+            <LanguageSelect
               id="language"
               name="language"
               value={settings.language}
-              onChange={handleSettingChange}
+              onChange={(language) => updateSettings({ language })}
+              className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+            />
+          </div>
+          <div className="flex flex-col">
+            <label htmlFor="secondLanguage" className="text-sm font-medium text-gray-700 mb-1">Second Language</label>
+            <LanguageSelect
+              id="secondLanguage"
+              name="secondLanguage"
+              value={settings.secondLanguage}
+              onChange={(secondLanguage) => updateSettings({ secondLanguage })}
+              noneLabel="None (one language)"
               className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
             />
           </div>
@@ -225,85 +627,169 @@ const App: React.FC = () => {
             />
           </div>
           <div className="flex flex-col">
-            <label htmlFor="mcqCount" className="text-sm font-medium text-gray-700 mb-1">MCQ Count</label>
-            <input
-              type="number"
-              id="mcqCount"
-              name="mcqCount"
-              value={settings.mcqCount}
+            <label htmlFor="difficulty" className="text-sm font-medium text-gray-700 mb-1">Difficulty</label>
+            <select
+              id="difficulty"
+              name="difficulty"
+              value={settings.difficulty}
               onChange={handleSettingChange}
-              min="0"
               className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
-            />
+            >
+              {DIFFICULTIES.map((difficulty) => (
+                <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+              ))}
+            </select>
           </div>
           <div className="flex flex-col">
-            <label htmlFor="shortCount" className="text-sm font-medium text-gray-700 mb-1">Short Q Count</label>
+            <label htmlFor="variantCount" className="text-sm font-medium text-gray-700 mb-1">Number of Sets</label>
             <input
               type="number"
-              id="shortCount"
-              name="shortCount"
-              value={settings.shortCount}
+              id="variantCount"
+              name="variantCount"
+              value={settings.variantCount}
               onChange={handleSettingChange}
-              min="0"
+              min="1"
+              max={MAX_VARIANTS}
               className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
             />
           </div>
           <div className="flex flex-col">
-            <label htmlFor="longCount" className="text-sm font-medium text-gray-700 mb-1">Long Q Count</label>
+            <label htmlFor="variantSeed" className="text-sm font-medium text-gray-700 mb-1">Shuffle Seed</label>
             <input
-              type="number"
-              id="longCount"
-              name="longCount"
-              value={settings.longCount}
+              type="text"
+              id="variantSeed"
+              name="variantSeed"
+              value={settings.variantSeed}
               onChange={handleSettingChange}
-              min="0"
               className="mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
             />
           </div>
         </div>
 
-        <div
-          onDrop={handleDrop}
-          onDragOver={handleDragOver}
-          className="mt-6 border-2 border-dashed border-gray-300 rounded-md p-6 text-center text-gray-500 hover:border-blue-400 transition duration-200 cursor-pointer"
-        >
-          <p className="mb-2">Drag & drop images here, or click to upload</p>
+        <QuestionTypeSettings settings={settings} onChange={handleSettingChange} />
+
+        <label className="flex items-center gap-2 mb-3 text-sm font-medium text-gray-700">
           <input
-            id="image-upload"
-            type="file"
-            accept="image/*"
-            multiple
-            onChange={handleImageUpload}
-            className="hidden"
+            type="checkbox"
+            name="blueprintEnabled"
+            checked={settings.blueprintEnabled}
+            onChange={handleSettingChange}
           />
-          <label htmlFor="image-upload" className="inline-block bg-blue-500 text-white font-semibold py-2 px-4 rounded-md cursor-pointer hover:bg-blue-600 transition duration-200">
-            Select Images
-          </label>
-          {uploadedImages.length > 0 && (
-            <div className="mt-4">
-              <p className="text-gray-700 text-sm">{uploadedImages.length} image(s) selected.</p>
-              <button
-                onClick={clearImages}
-                className="mt-2 text-red-500 text-sm hover:text-red-700 underline"
-              >
-                Clear Images
-              </button>
-              <div className="mt-4 grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
-                {uploadedImages.map((file, index) => (
-                  <div key={index} className="relative w-full aspect-video overflow-hidden rounded-md border border-gray-200">
-                    <img
-                      src={URL.createObjectURL(file)}
-                      alt={`Uploaded image ${index + 1}`}
-                      className="object-cover w-full h-full"
-                      onLoad={() => URL.revokeObjectURL(file.name)} // Clean up object URL
-                    />
-                  </div>
-                ))}
-              </div>
-            </div>
-          )}
+          Use a chapter blueprint (question counts come from the units below)
+        </label>
+        {settings.blueprintEnabled && (
+          <BlueprintEditor settings={settings} onChange={(blueprint) => updateSettings({ blueprint })} />
+        )}
+        {blueprintWarnings.map((warning) => (
+          <div key={warning} className="mb-2 p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded-md text-sm" role="alert">
+            {warning}
+          </div>
+        ))}
+
+        <BloomMixEditor
+          settings={settings}
+          onChange={(bloomMix) => updateSettings({ bloomMix })}
+        />
+
+        {bloomWarnings.map((warning) => (
+          <div key={warning} className="mb-2 p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded-md text-sm" role="alert">
+            {warning}
+          </div>
+        ))}
+
+        <RosterEditor
+          roster={settings.roster}
+          setCodes={setCodes}
+          onChange={(roster) => updateSettings({ roster })}
+        />
+        {rosterWarnings.map((warning) => (
+          <div key={warning} className="mb-2 p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded-md text-sm" role="alert">
+            {warning}
+          </div>
+        ))}
+
+        <PaperLayoutEditor layout={settings.layout} onChange={(layout) => updateSettings({ layout })} />
+
+        <label className="flex items-center gap-2 mb-6 text-sm font-medium text-gray-700">
+          <input
+            type="checkbox"
+            name="omrSheet"
+            checked={settings.omrSheet}
+            onChange={handleSettingChange}
+          />
+          Print a bubble (OMR) answer sheet for the multiple-choice questions
+        </label>
+
+        {marksWarning && (
+          <div className="p-3 bg-yellow-100 border border-yellow-400 text-yellow-800 rounded-md text-sm" role="alert">
+            {marksWarning}
+          </div>
+        )}
+
+        <div className="mt-6 flex flex-wrap items-center gap-2" role="tablist" aria-label="Generate from">
+          <span className="text-sm font-medium text-gray-700">Generate from:</span>
+          {INPUT_MODES.map((mode) => (
+            <button
+              key={mode}
+              role="tab"
+              aria-selected={inputMode === mode}
+              onClick={() => setInputMode(mode)}
+              className={`px-3 py-1 rounded-md text-sm font-semibold transition duration-200 ${
+                inputMode === mode ? 'bg-blue-600 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+              }`}
+            >
+              {INPUT_MODE_LABELS[mode]}
+            </button>
+          ))}
         </div>
 
+        {inputMode === 'topic' && (
+          <p className="mt-4 text-sm text-gray-600">
+            Questions are written from the topic, class and board above, without any source pages. Check the answer key carefully before using the paper.
+          </p>
+        )}
+
+        {(inputMode === 'text' || inputMode === 'document') && (
+          <TextSourceInput text={sourceText} onChange={setSourceText} allowUpload={inputMode === 'document'} />
+        )}
+
+        {inputMode === 'pages' && (
+          <div
+            onDrop={handleDrop}
+            onDragOver={handleDragOver}
+            className="mt-6 border-2 border-dashed border-gray-300 rounded-md p-6 text-center text-gray-500 hover:border-blue-400 transition duration-200 cursor-pointer"
+          >
+            <p className="mb-2">Drag & drop images or PDF chapters here, or click to upload</p>
+            <input
+              id="image-upload"
+              type="file"
+              accept="image/*,application/pdf"
+              multiple
+              onChange={handleImageUpload}
+              className="hidden"
+            />
+            <label htmlFor="image-upload" className="inline-block bg-blue-500 text-white font-semibold py-2 px-4 rounded-md cursor-pointer hover:bg-blue-600 transition duration-200">
+              Select Images or PDF
+            </label>
+            {loadingPages && (
+              <div className="mt-4 flex justify-center items-center gap-2 text-sm text-gray-600">
+                <Spinner /> Reading pages...
+              </div>
+            )}
+            {sourcePages.length > 0 && (
+              <div className="mt-4">
+                <button
+                  onClick={clearImages}
+                  className="text-red-500 text-sm hover:text-red-700 underline"
+                >
+                  Clear Images
+                </button>
+                <PagePreprocessor pages={sourcePages} onChange={setSourcePages} />
+              </div>
+            )}
+          </div>
+        )}
+
         {error && (
           <div className="mt-6 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md">
             {error}
@@ -313,7 +799,7 @@ const App: React.FC = () => {
         <div className="mt-8 flex justify-center space-x-4 sticky bottom-0 bg-white py-4 -mx-6 sm:-mx-8 px-6 sm:px-8 shadow-inner no-print">
           <button
             onClick={generateExam}
-            disabled={loading || uploadedImages.length === 0}
+            disabled={loading || loadingPages || validateInput() !== null}
             className="flex items-center px-6 py-3 bg-green-600 text-white font-semibold rounded-md shadow-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
           >
             {loading ? <Spinner /> : 'Generate Exam Paper'}
@@ -321,19 +807,180 @@ const App: React.FC = () => {
 
           {generatedExam && (
             <button
-              onClick={printExam}
+              onClick={() => setEditing((value) => !value)}
+              className="px-6 py-3 bg-gray-700 text-white font-semibold rounded-md shadow-md hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2 transition duration-200"
+            >
+              {editing ? 'Done Editing' : 'Edit Paper'}
+            </button>
+          )}
+
+          {generatedExam && (
+            <button
+              onClick={() => printDocument('exam')}
               className="px-6 py-3 bg-blue-600 text-white font-semibold rounded-md shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:ring-offset-2 transition duration-200"
             >
               Print Exam
             </button>
           )}
+
+          {generatedExam && (
+            <button
+              onClick={() => printDocument('answerKey')}
+              className="px-6 py-3 bg-purple-600 text-white font-semibold rounded-md shadow-md hover:bg-purple-700 focus:outline-none focus:ring-2 focus:ring-purple-500 focus:ring-offset-2 transition duration-200"
+            >
+              Print Answer Key
+            </button>
+          )}
+
+          {generatedExam && currentExamId && (
+            <button
+              onClick={() => {
+                setEditing(false);
+                setTakingOnline(true);
+              }}
+              className="px-6 py-3 bg-orange-600 text-white font-semibold rounded-md shadow-md hover:bg-orange-700 focus:outline-none focus:ring-2 focus:ring-orange-500 focus:ring-offset-2 transition duration-200"
+            >
+              Take Online
+            </button>
+          )}
+
+          {generatedExam && settings.roster.length > 0 && (
+            <button
+              onClick={() => printDocument('classPapers')}
+              className="px-6 py-3 bg-teal-600 text-white font-semibold rounded-md shadow-md hover:bg-teal-700 focus:outline-none focus:ring-2 focus:ring-teal-500 focus:ring-offset-2 transition duration-200"
+            >
+              Print Class Papers ({settings.roster.length})
+            </button>
+          )}
         </div>
       </div>
 
-      {generatedExam && (
-        <div className="w-full max-w-4xl mt-8">
-          <ExamPaper htmlContent={generatedExam.htmlContent} settings={settings} />
-        </div>
+      {loading && progress && (
+        <>
+          <GenerationProgress
+            progress={progress}
+            settings={settings}
+            pageCount={inputMode === 'pages' ? sourcePages.filter((page) => page.included).length : 0}
+            onCancel={cancelGeneration}
+          />
+          {progress.partialExam && progress.partialExam.sections.length > 0 && (
+            <div className="no-print w-full max-w-4xl opacity-90">
+              <ExamPaper exam={progress.partialExam} settings={settings} />
+            </div>
+          )}
+        </>
+      )}
+
+      {generatedExam && activeVariant && (
+        <>
+          {showSetCodes && (
+            <div className="no-print w-full max-w-4xl flex flex-wrap items-center gap-2">
+              <span className="text-sm font-medium text-gray-700">Set:</span>
+              {variants.map((variant, index) => (
+                <button
+                  key={variant.setCode}
+                  onClick={() => setSelectedSetIndex(index)}
+                  className={`px-3 py-1 rounded-md text-sm font-semibold transition duration-200 ${
+                    variant === activeVariant ? 'bg-blue-600 text-white' : 'bg-white text-gray-700 hover:bg-gray-200'
+                  }`}
+                >
+                  {variant.setCode}
+                </button>
+              ))}
+            </div>
+          )}
+          {!editing && (
+            <ExportMenu
+              exam={activeVariant.exam}
+              settings={settings}
+              setCode={showSetCodes ? activeVariant.setCode : undefined}
+            />
+          )}
+          <QualityChecklist
+            exam={generatedExam}
+            checks={qualityChecks}
+            naming={settings.layout.sectionNaming}
+            fixProgress={qualityFixProgress}
+            onFix={handleQualityFixes}
+          />
+          <BloomDistribution exam={generatedExam} settings={settings} />
+          <DuplicateWarnings exam={generatedExam} duplicates={duplicates} />
+          {hasSourceMaterial(generatedExam) && (
+            <SourceReview exam={generatedExam} sourceImages={uploadedImages} flagged={ungrounded} />
+          )}
+          {currentExamId && !editing && (
+            <GradingPanel
+              key={currentExamId}
+              examId={currentExamId}
+              exam={generatedExam}
+              variants={variants}
+              settings={settings}
+              provider={provider}
+            />
+          )}
+          {editing && (
+            <div className="w-full max-w-4xl mt-8">
+              <ExamEditor
+                exam={generatedExam}
+                settings={settings}
+                onChange={handleExamEdited}
+                onRegenerateQuestion={handleRegenerateQuestion}
+                onTranslateQuestion={handleTranslateQuestion}
+                sourceImages={uploadedImages}
+              />
+            </div>
+          )}
+          <div className={`w-full max-w-4xl mt-8 ${printTarget === 'exam' ? '' : 'no-print'} ${editing ? 'hidden' : ''}`}>
+            <ExamPaper
+              exam={activeVariant.exam}
+              settings={settings}
+              setCode={showSetCodes ? activeVariant.setCode : undefined}
+            />
+            {settings.omrSheet && (
+              <div className="mt-8">
+                <OmrSheet
+                  exam={activeVariant.exam}
+                  settings={settings}
+                  setCode={showSetCodes ? activeVariant.setCode : undefined}
+                />
+              </div>
+            )}
+          </div>
+          <div className={`w-full max-w-4xl mt-8 ${printTarget === 'answerKey' ? '' : 'no-print'} ${editing ? 'hidden' : ''}`}>
+            <AnswerKey
+              exam={activeVariant.exam}
+              settings={settings}
+              setCode={showSetCodes ? activeVariant.setCode : undefined}
+              originalExam={showSetCodes ? generatedExam : undefined}
+            />
+          </div>
+          {takingOnline && currentExamId && (
+            <OnlineTest key={currentExamId} examId={currentExamId} variants={variants} settings={settings} onClose={() => setTakingOnline(false)} />
+          )}
+          {/* One paper (and answer sheet) per student, only rendered while printing */}
+          {printRequest === 'classPapers' && (
+            <div className="hidden print:block">
+              {studentPapers.map(({ student, variant }) => (
+                <React.Fragment key={student.id}>
+                  <ExamPaper
+                    exam={variant.exam}
+                    settings={settings}
+                    setCode={showSetCodes ? variant.setCode : undefined}
+                    student={student}
+                  />
+                  {settings.omrSheet && (
+                    <OmrSheet
+                      exam={variant.exam}
+                      settings={settings}
+                      setCode={showSetCodes ? variant.setCode : undefined}
+                      student={student}
+                    />
+                  )}
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+        </>
       )}
     </div>
   );
@@ -0,0 +1,9 @@
+// API key picker injected by Google AI Studio when the app runs there
+interface AIStudio {
+  hasSelectedApiKey(): Promise<boolean>;
+  openSelectKey(): Promise<void>;
+}
+
+interface Window {
+  aistudio?: AIStudio;
+}
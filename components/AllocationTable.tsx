@@ -0,0 +1,57 @@
+import React from 'react';
+import { ExamSettings, GeneratedExam } from '../types';
+import { buildAllocationRows } from '../services/blueprint';
+import { QUESTION_TYPES, SECTION_TITLES } from '../services/questionTypes';
+
+interface AllocationTableProps {
+  exam: GeneratedExam;
+  settings: ExamSettings;
+}
+
+// Blueprint coverage proof: questions and marks drawn from each chapter against its weightage
+const AllocationTable: React.FC<AllocationTableProps> = ({ exam, settings }) => {
+  const rows = buildAllocationRows(exam.sections, settings);
+  const totalMarks = rows.reduce((sum, row) => sum + row.marks, 0);
+
+  return (
+    <div className="mt-8">
+      <h2 className="text-xl font-bold mb-4">Blueprint Allocation</h2>
+      <table className="w-full text-sm border border-gray-300">
+        <thead>
+          <tr className="bg-gray-50">
+            <th className="border border-gray-300 px-2 py-1 text-left">Chapter / Unit</th>
+            {QUESTION_TYPES.map((type) => (
+              <th key={type} className="border border-gray-300 px-2 py-1">{SECTION_TITLES[type]}</th>
+            ))}
+            <th className="border border-gray-300 px-2 py-1">Marks</th>
+            <th className="border border-gray-300 px-2 py-1">Weightage</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.chapter}>
+              <td className="border border-gray-300 px-2 py-1">{row.chapter}</td>
+              {QUESTION_TYPES.map((type) => (
+                <td key={type} className="border border-gray-300 px-2 py-1 text-center">{row.counts[type]}</td>
+              ))}
+              <td className="border border-gray-300 px-2 py-1 text-center">{row.marks}</td>
+              <td className="border border-gray-300 px-2 py-1 text-center">{row.weightage ?? '—'}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold">
+            <td className="border border-gray-300 px-2 py-1">Total</td>
+            {QUESTION_TYPES.map((type) => (
+              <td key={type} className="border border-gray-300 px-2 py-1 text-center">
+                {rows.reduce((sum, row) => sum + row.counts[type], 0)}
+              </td>
+            ))}
+            <td className="border border-gray-300 px-2 py-1 text-center">{totalMarks}</td>
+            <td className="border border-gray-300 px-2 py-1 text-center">{settings.totalMarks}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default AllocationTable;
@@ -0,0 +1,135 @@
+import React from 'react';
+import { ExamSettings, GeneratedExam, Question } from '../types';
+import { formatCorrectAnswer, getLetterLabel } from '../services/questionFormats';
+import { getOriginalQuestionNumber } from '../services/variants';
+import { formatQuestionTags } from '../services/bloom';
+import { formatMarks, formatSectionMarks, getSectionLabel } from '../services/marks';
+import { Language, getLanguage, getScriptProps } from '../services/languages';
+import AllocationTable from './AllocationTable';
+import DetailRow from './DetailRow';
+import PaperBranding from './PaperBranding';
+import RichText from './RichText';
+
+interface AnswerKeyProps {
+  exam: GeneratedExam;
+  settings: ExamSettings;
+  setCode?: string;
+  originalExam?: GeneratedExam; // When given, each answer also shows its question number in the unshuffled paper
+}
+
+const OriginalNumber: React.FC<{ number: number | null }> = ({ number }) =>
+  number === null ? null : <span className="ms-2 text-xs text-gray-500">(Master Q{number})</span>;
+
+const QuestionTags: React.FC<{ question: Question }> = ({ question }) => {
+  const tags = formatQuestionTags(question);
+  return tags ? <span className="ms-2 text-xs text-gray-500">[{tags}]</span> : null;
+};
+
+const AnswerItem: React.FC<{ question: Question; originalNumber: number | null; labels: Language }> = ({ question, originalNumber, labels }) => {
+  const correctAnswer = formatCorrectAnswer(question, labels);
+  if (correctAnswer) {
+    return (
+      <li>
+        <div>
+          <strong><RichText text={correctAnswer} /></strong>
+          <OriginalNumber number={originalNumber} />
+          <QuestionTags question={question} />
+        </div>
+        {question.modelAnswer && (
+          <div className="text-sm text-gray-700">
+            <RichText text={question.modelAnswer} />
+          </div>
+        )}
+      </li>
+    );
+  }
+
+  // Blank lines can be left behind by the editor
+  const markingScheme = (question.markingScheme || []).filter((point) => point.trim());
+  return (
+    <li>
+      <div className="font-semibold">
+        <RichText text={question.text} />
+        <OriginalNumber number={originalNumber} />
+        <QuestionTags question={question} />
+      </div>
+      {question.subQuestions && (
+        <ol className="mt-1 space-y-1">
+          {question.subQuestions.map((sub, index) => (
+            <li key={index}>
+              <strong>{getLetterLabel(index, labels)} ({formatMarks(sub.marks)}):</strong> <RichText text={sub.modelAnswer} />
+            </li>
+          ))}
+        </ol>
+      )}
+      {question.modelAnswer && (
+        <div className="mt-1">
+          <strong>Model Answer:</strong> <RichText text={question.modelAnswer} />
+        </div>
+      )}
+      {markingScheme.length > 0 && (
+        <div className="mt-1">
+          <strong>Marking Scheme ({formatMarks(question.marks)}):</strong>
+          <ul className="list-disc ps-6">
+            {markingScheme.map((point, index) => (
+              <li key={index}>
+                <RichText text={point} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </li>
+  );
+};
+
+const AnswerKey: React.FC<AnswerKeyProps> = ({ exam, settings, setCode, originalExam }) => {
+  // Answers stay in the paper's first language, so a bilingual key is printed in that language alone
+  const language = getLanguage(settings.language);
+  return (
+    <div className="exam-paper-container bg-white shadow-lg p-8 md:p-12 print:p-0" {...getScriptProps(language)}>
+      {/* Header */}
+      <div className="border-b-2 border-gray-300 pb-4 mb-6 text-center">
+        <PaperBranding layout={settings.layout} />
+        <h1 className="text-2xl font-extrabold text-gray-800 mb-2">Answer Key &amp; Marking Scheme</h1>
+        {settings.layout.title && <p className="font-semibold text-gray-700 mb-2">{settings.layout.title}</p>}
+        <DetailRow label="Topic" value={settings.topic} />
+        <DetailRow label="Class" value={settings.className} />
+        <DetailRow label="Board" value={settings.board} />
+        {setCode && <DetailRow label="Set" value={setCode} />}
+        <DetailRow label="Total Marks" value={settings.totalMarks} />
+      </div>
+
+      {/* Answers, numbered to match the student paper */}
+      <div className="text-gray-900 leading-relaxed">
+        {exam.sections.map((section, index) => (
+          <section key={section.id}>
+            <h2 className="text-xl font-bold mt-6 mb-4 flex justify-between gap-4">
+              <span>{getSectionLabel(index, settings.layout.sectionNaming)} – {section.title}</span>
+              <span className="whitespace-nowrap">{formatSectionMarks(section)}</span>
+            </h2>
+            <ol className="ps-6 mt-2 mb-4 space-y-4" style={{ listStyleType: language.listStyle }}>
+              {section.questions.map((question) => (
+                <AnswerItem
+                  key={question.id}
+                  question={question}
+                  labels={language}
+                  originalNumber={originalExam ? getOriginalQuestionNumber(originalExam, question.id) : null}
+                />
+              ))}
+            </ol>
+          </section>
+        ))}
+      </div>
+
+      {settings.blueprintEnabled && <AllocationTable exam={exam} settings={settings} />}
+
+      {/* Footer */}
+      <div className="border-t-2 border-gray-300 pt-4 mt-8 text-center text-gray-600 text-xs">
+        For teacher use only.{settings.layout.footerText && ` ${settings.layout.footerText}`}
+      </div>
+    </div>
+  );
+};
+
+export default AnswerKey;
@@ -0,0 +1,376 @@
+import React, { useRef, useState } from 'react';
+import { ExamSettings } from '../types';
+import {
+  BatchRow,
+  BatchRowState,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_CONCURRENCY,
+  buildBatchZip,
+  createBatchCsvTemplate,
+  createBatchRow,
+  parseBatchCsv,
+  runBatch,
+} from '../services/batch';
+import { DIFFICULTIES, DIFFICULTY_LABELS } from '../services/bloom';
+import { EXPORT_FORMAT_LABELS, ExportFormat, downloadBlob, getFormatUnavailableReason } from '../services/export';
+import { QUESTION_TYPES, SECTION_TITLES, getMarksPerQuestion, getRequestedCount } from '../services/questionTypes';
+import { getAllocatedMarks } from '../services/marks';
+import { LlmProvider } from '../services/providers';
+import QuestionTypeSettings from './QuestionTypeSettings';
+import LanguageSelect from './LanguageSelect';
+
+interface BatchModeProps {
+  baseSettings: ExamSettings; // New rows start from the main form
+  provider: LlmProvider;
+  onExamsSaved: () => void;
+}
+
+const FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+
+const STATUS_LABELS: Record<BatchRowState['status'], string> = {
+  pending: 'Waiting',
+  running: 'Running',
+  done: 'Done',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_CLASSES: Record<BatchRowState['status'], string> = {
+  pending: 'text-gray-500',
+  running: 'text-blue-700 animate-pulse',
+  done: 'text-green-700',
+  failed: 'text-red-600',
+  cancelled: 'text-gray-500',
+};
+
+const TEXT_FIELDS: { key: 'topic' | 'className' | 'board'; label: string }[] = [
+  { key: 'topic', label: 'Topic' },
+  { key: 'className', label: 'Class' },
+  { key: 'board', label: 'Board' },
+];
+
+const cellInputClassName =
+  'w-full min-w-[6rem] border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+const smallButtonClassName =
+  'px-3 py-1 bg-gray-100 text-gray-800 text-sm rounded-md hover:bg-gray-200 transition duration-200 disabled:opacity-50';
+
+function describeCounts(settings: ExamSettings): string {
+  const parts = QUESTION_TYPES.filter((type) => getRequestedCount(settings, type) > 0).map(
+    (type) => `${getRequestedCount(settings, type)} × ${getMarksPerQuestion(settings, type)} ${SECTION_TITLES[type]}`,
+  );
+  return parts.length > 0 ? parts.join(', ') : 'No questions';
+}
+
+// Generates papers for several classes or subjects in one go, each row with its own settings and pages
+const BatchMode: React.FC<BatchModeProps> = ({ baseSettings, provider, onExamsSaved }) => {
+  const [rows, setRows] = useState<BatchRow[]>([]);
+  const [states, setStates] = useState<Record<string, BatchRowState>>({});
+  const [expandedRowId, setExpandedRowId] = useState<string | null>(null);
+  const [concurrency, setConcurrency] = useState<number>(DEFAULT_BATCH_CONCURRENCY);
+  const [format, setFormat] = useState<ExportFormat>('pdf');
+  const [running, setRunning] = useState<boolean>(false);
+  const [zipping, setZipping] = useState<boolean>(false);
+  const [messages, setMessages] = useState<string[]>([]);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  const updateRow = (id: string, changes: Partial<BatchRow>) => {
+    setRows((current) => current.map((row) => (row.id === id ? { ...row, ...changes } : row)));
+  };
+
+  const updateRowSettings = (row: BatchRow, changes: Partial<ExamSettings>) => {
+    updateRow(row.id, { settings: { ...row.settings, ...changes } });
+  };
+
+  const handleRowSettingChange = (row: BatchRow) => (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    updateRowSettings(row, { [name]: parseInt(value, 10) || 0 });
+  };
+
+  const handleCsvImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow the same file to be imported again
+    if (!file) {
+      return;
+    }
+    const { rows: imported, errors } = parseBatchCsv(await file.text(), baseSettings);
+    setRows((current) => [...current, ...imported]);
+    setMessages([`Imported ${imported.length} row${imported.length === 1 ? '' : 's'}.`, ...errors]);
+  };
+
+  const downloadTemplate = () => {
+    downloadBlob(new Blob([createBatchCsvTemplate(baseSettings)], { type: 'text/csv' }), 'batch-template.csv');
+  };
+
+  const runAll = async () => {
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setRunning(true);
+    setMessages([]);
+    setStates(Object.fromEntries(rows.map((row) => [row.id, { status: 'pending' } as BatchRowState])));
+    try {
+      await runBatch(rows, provider, {
+        concurrency,
+        signal: abortController.signal,
+        onUpdate: (rowId, state) => setStates((current) => ({ ...current, [rowId]: state })),
+      });
+    } finally {
+      setRunning(false);
+      abortControllerRef.current = null;
+      onExamsSaved();
+    }
+  };
+
+  const downloadZip = async () => {
+    setZipping(true);
+    try {
+      downloadBlob(await buildBatchZip(rows, states, format), 'exam-papers.zip');
+    } catch (err: any) {
+      console.error('Failed to build the batch zip:', err);
+      setMessages([err.message || 'Failed to build the zip file.']);
+    } finally {
+      setZipping(false);
+    }
+  };
+
+  const rowStates = rows.map((row) => states[row.id]);
+  const finishedCount = rowStates.filter((state) => state && state.status !== 'pending' && state.status !== 'running').length;
+  const doneCount = rowStates.filter((state) => state?.status === 'done').length;
+  // One paper the format cannot write stops the whole zip, so say so before it is built
+  const formatUnavailable = rows
+    .filter((row) => states[row.id]?.exam)
+    .map((row) => getFormatUnavailableReason(format, row.settings))
+    .find((reason) => reason !== null) ?? null;
+
+  return (
+    <details className="no-print bg-white shadow-lg rounded-lg p-6 sm:p-8 w-full max-w-4xl mb-8">
+      <summary className="cursor-pointer text-2xl font-bold text-gray-800">
+        Batch Mode <span className="text-base font-normal text-gray-500">({rows.length} papers)</span>
+      </summary>
+
+      <div className="flex flex-wrap items-center gap-2 mt-4 mb-4">
+        <button onClick={() => setRows((current) => [...current, createBatchRow(baseSettings)])} disabled={running} className={smallButtonClassName}>
+          Add row
+        </button>
+        <label className={`${smallButtonClassName} cursor-pointer`}>
+          Import CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleCsvImport} disabled={running} className="hidden" />
+        </label>
+        <button onClick={downloadTemplate} className={smallButtonClassName}>
+          Download CSV template
+        </button>
+      </div>
+
+      {messages.length > 0 && (
+        <ul className="mb-4 text-sm text-gray-700 list-disc list-inside">
+          {messages.map((message, index) => (
+            <li key={index}>{message}</li>
+          ))}
+        </ul>
+      )}
+
+      {rows.length === 0 ? (
+        <p className="text-sm text-gray-500">Add rows one by one, or import a CSV with one paper per line. New rows start from the settings above; rows without pages are written from their topic.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="pr-2 py-1 font-medium">#</th>
+                {TEXT_FIELDS.map(({ key, label }) => (
+                  <th key={key} className="px-1 py-1 font-medium">{label}</th>
+                ))}
+                <th className="px-1 py-1 font-medium">Language</th>
+                <th className="px-1 py-1 font-medium">Second Language</th>
+                <th className="px-1 py-1 font-medium">Difficulty</th>
+                <th className="px-1 py-1 font-medium">Pages</th>
+                <th className="px-1 py-1 font-medium">Status</th>
+                <th className="px-1 py-1" />
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => {
+                const state = states[row.id];
+                return (
+                  <React.Fragment key={row.id}>
+                    <tr className="border-t border-gray-200 align-top">
+                      <td className="pr-2 py-2">{index + 1}</td>
+                      {TEXT_FIELDS.map(({ key }) => (
+                        <td key={key} className="px-1 py-2">
+                          <input
+                            type="text"
+                            value={row.settings[key]}
+                            onChange={(e) => updateRowSettings(row, { [key]: e.target.value })}
+                            disabled={running}
+                            className={cellInputClassName}
+                          />
+                        </td>
+                      ))}
+                      <td className="px-1 py-2">
+                        <LanguageSelect
+                          value={row.settings.language}
+                          onChange={(language) => updateRowSettings(row, { language })}
+                          disabled={running}
+                          className={cellInputClassName}
+                        />
+                      </td>
+                      <td className="px-1 py-2">
+                        <LanguageSelect
+                          value={row.settings.secondLanguage}
+                          onChange={(secondLanguage) => updateRowSettings(row, { secondLanguage })}
+                          noneLabel="None"
+                          disabled={running}
+                          className={cellInputClassName}
+                        />
+                      </td>
+                      <td className="px-1 py-2">
+                        <select
+                          value={row.settings.difficulty}
+                          onChange={(e) => updateRowSettings(row, { difficulty: e.target.value as ExamSettings['difficulty'] })}
+                          disabled={running}
+                          className={cellInputClassName}
+                        >
+                          {DIFFICULTIES.map((level) => (
+                            <option key={level} value={level}>{DIFFICULTY_LABELS[level]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td className="px-1 py-2 whitespace-nowrap">
+                        <label className="text-blue-600 underline cursor-pointer">
+                          {row.images.length > 0 ? `${row.images.length} file(s)` : 'Topic only – add files'}
+                          <input
+                            type="file"
+                            accept="image/*,application/pdf"
+                            multiple
+                            disabled={running}
+                            onChange={(e) => {
+                              const files = Array.from(e.target.files || []);
+                              if (files.length > 0) {
+                                updateRow(row.id, { images: [...row.images, ...files] });
+                              }
+                              e.target.value = '';
+                            }}
+                            className="hidden"
+                          />
+                        </label>
+                        {row.images.length > 0 && !running && (
+                          <button onClick={() => updateRow(row.id, { images: [] })} className="ml-2 text-xs text-red-500 hover:text-red-700 underline">
+                            Clear
+                          </button>
+                        )}
+                      </td>
+                      <td className={`px-1 py-2 ${state ? STATUS_CLASSES[state.status] : 'text-gray-400'}`}>
+                        {state ? STATUS_LABELS[state.status] : '—'}
+                        {state?.status === 'running' && state.stage && (
+                          <span className="block text-xs">{state.stage === 'analysis' ? 'Reading pages' : 'Writing questions'}</span>
+                        )}
+                        {state?.error && <span className="block text-xs">{state.error}</span>}
+                      </td>
+                      <td className="px-1 py-2 whitespace-nowrap">
+                        <button
+                          onClick={() => setExpandedRowId(expandedRowId === row.id ? null : row.id)}
+                          className="text-sm text-blue-600 hover:text-blue-800 underline mr-2"
+                        >
+                          {expandedRowId === row.id ? 'Hide' : 'Questions'}
+                        </button>
+                        <button
+                          onClick={() => setRows((current) => current.filter((other) => other.id !== row.id))}
+                          disabled={running}
+                          className="text-sm text-red-500 hover:text-red-700 underline disabled:opacity-50"
+                        >
+                          Remove
+                        </button>
+                      </td>
+                    </tr>
+                    <tr>
+                      <td />
+                      <td colSpan={9} className="px-1 pb-2 text-xs text-gray-500">
+                        {describeCounts(row.settings)} · {getAllocatedMarks(row.settings)} of {row.settings.totalMarks} marks
+                      </td>
+                    </tr>
+                    {expandedRowId === row.id && (
+                      <tr>
+                        <td />
+                        <td colSpan={9} className="px-1 pb-4">
+                          <QuestionTypeSettings settings={row.settings} onChange={handleRowSettingChange(row)} />
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {rows.length > 0 && (
+        <div className="flex flex-wrap items-center gap-3 mt-4">
+          <label className="text-sm text-gray-700">
+            Papers at a time{' '}
+            <select
+              value={concurrency}
+              onChange={(e) => setConcurrency(parseInt(e.target.value, 10))}
+              disabled={running}
+              className="border border-gray-300 rounded-md py-1 px-2"
+            >
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, index) => index + 1).map((value) => (
+                <option key={value} value={value}>{value}</option>
+              ))}
+            </select>
+          </label>
+          {running ? (
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              className="px-4 py-2 bg-red-600 text-white font-semibold rounded-md hover:bg-red-700 transition duration-200"
+            >
+              Cancel batch
+            </button>
+          ) : (
+            <button
+              onClick={runAll}
+              className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition duration-200"
+            >
+              Generate {rows.length} paper{rows.length === 1 ? '' : 's'}
+            </button>
+          )}
+          {(running || finishedCount > 0) && (
+            <span className="text-sm text-gray-600">
+              {finishedCount} of {rows.length} finished, {doneCount} succeeded
+            </span>
+          )}
+        </div>
+      )}
+
+      {running && rows.length > 0 && (
+        <div className="w-full bg-gray-200 rounded-full h-2 mt-3">
+          <div className="bg-green-600 h-2 rounded-full transition-all" style={{ width: `${(finishedCount / rows.length) * 100}%` }} />
+        </div>
+      )}
+
+      {doneCount > 0 && !running && (
+        <div className="flex flex-wrap items-center gap-2 mt-4">
+          <select
+            value={format}
+            onChange={(e) => setFormat(e.target.value as ExportFormat)}
+            className="border border-gray-300 rounded-md py-1 px-2 text-sm"
+          >
+            {FORMATS.map((option) => (
+              <option key={option} value={option}>{EXPORT_FORMAT_LABELS[option]}</option>
+            ))}
+          </select>
+          <button
+            onClick={downloadZip}
+            disabled={zipping || formatUnavailable !== null}
+            className="px-4 py-2 bg-blue-600 text-white font-semibold rounded-md hover:bg-blue-700 transition duration-200 disabled:opacity-50"
+          >
+            {zipping ? 'Building zip…' : `Download ${doneCount} paper${doneCount === 1 ? '' : 's'} and answer keys (.zip)`}
+          </button>
+          {formatUnavailable && <p className="w-full text-xs text-gray-500">{formatUnavailable}</p>}
+        </div>
+      )}
+    </details>
+  );
+};
+
+export default BatchMode;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { ExamSettings, GeneratedExam } from '../types';
+import {
+  BLOOM_LABELS,
+  BLOOM_LEVELS,
+  DIFFICULTIES,
+  DIFFICULTY_LABELS,
+  getAchievedBloomCounts,
+  getBloomTargets,
+} from '../services/bloom';
+
+interface BloomDistributionProps {
+  exam: GeneratedExam;
+  settings: ExamSettings;
+}
+
+// Shows the Bloom's levels the paper actually achieved next to the requested targets
+const BloomDistribution: React.FC<BloomDistributionProps> = ({ exam, settings }) => {
+  const allQuestions = exam.sections.flatMap((section) => section.questions);
+
+  return (
+    <div className="no-print w-full max-w-4xl bg-white shadow rounded-lg p-4 mt-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">
+        Cognitive Level Distribution (achieved / target)
+      </h3>
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-600">
+              <th className="pr-2 py-1 font-medium">Section</th>
+              {BLOOM_LEVELS.map((level) => (
+                <th key={level} className="px-2 py-1 font-medium">{BLOOM_LABELS[level]}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {exam.sections.map((section) => {
+              const achieved = getAchievedBloomCounts(section);
+              const targets = getBloomTargets(settings.bloomMix[section.type], section.questions.length);
+              return (
+                <tr key={section.id}>
+                  <td className="pr-2 py-1 whitespace-nowrap">{section.title}</td>
+                  {BLOOM_LEVELS.map((level) => (
+                    <td
+                      key={level}
+                      className={`px-2 py-1 ${achieved[level] === targets[level] ? '' : 'text-orange-600 font-semibold'}`}
+                    >
+                      {achieved[level]} / {targets[level]}
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+      <p className="mt-2 text-sm text-gray-600">
+        Difficulty ({DIFFICULTY_LABELS[settings.difficulty]} requested):{' '}
+        {DIFFICULTIES.map(
+          (difficulty) => `${DIFFICULTY_LABELS[difficulty]} ${allQuestions.filter((question) => question.difficulty === difficulty).length}`,
+        ).join(' · ')}
+      </p>
+    </div>
+  );
+};
+
+export default BloomDistribution;
@@ -0,0 +1,68 @@
+import React from 'react';
+import { BloomLevel, ExamSettings, QuestionType } from '../types';
+import { BLOOM_LABELS, BLOOM_LEVELS, getBloomMixTotal } from '../services/bloom';
+import { QUESTION_TYPES, SECTION_TITLES, getRequestedCount } from '../services/questionTypes';
+
+interface BloomMixEditorProps {
+  settings: ExamSettings;
+  onChange: (bloomMix: ExamSettings['bloomMix']) => void;
+}
+
+// Percentage grid of Bloom's levels for each section that has questions
+const BloomMixEditor: React.FC<BloomMixEditorProps> = ({ settings, onChange }) => {
+  const handleChange = (type: QuestionType, level: BloomLevel, value: string) => {
+    onChange({
+      ...settings.bloomMix,
+      [type]: { ...settings.bloomMix[type], [level]: Math.max(0, parseInt(value, 10) || 0) },
+    });
+  };
+
+  const activeTypes = QUESTION_TYPES.filter((type) => getRequestedCount(settings, type) > 0);
+  if (activeTypes.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-6 overflow-x-auto">
+      <h3 className="text-sm font-medium text-gray-700 mb-2">Bloom's Taxonomy Mix (% of questions per section)</h3>
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600">
+            <th className="pr-2 py-1 font-medium">Section</th>
+            {BLOOM_LEVELS.map((level) => (
+              <th key={level} className="px-1 py-1 font-medium">{BLOOM_LABELS[level]}</th>
+            ))}
+            <th className="px-1 py-1 font-medium">Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {activeTypes.map((type) => {
+            const total = getBloomMixTotal(settings.bloomMix[type]);
+            return (
+              <tr key={type}>
+                <td className="pr-2 py-1 whitespace-nowrap">{SECTION_TITLES[type]}</td>
+                {BLOOM_LEVELS.map((level) => (
+                  <td key={level} className="px-1 py-1">
+                    <input
+                      type="number"
+                      min="0"
+                      max="100"
+                      step="5"
+                      value={settings.bloomMix[type][level]}
+                      onChange={(e) => handleChange(type, level, e.target.value)}
+                      aria-label={`${SECTION_TITLES[type]} ${BLOOM_LABELS[level]} %`}
+                      className="w-16 border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                    />
+                  </td>
+                ))}
+                <td className={`px-1 py-1 font-semibold ${total === 100 ? 'text-green-700' : 'text-red-600'}`}>{total}%</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default BloomMixEditor;
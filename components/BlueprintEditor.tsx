@@ -0,0 +1,110 @@
+import React from 'react';
+import { BlueprintUnit, ExamSettings, QuestionType } from '../types';
+import { createBlueprintUnit, getUnitMarks } from '../services/blueprint';
+import { QUESTION_TYPES } from '../services/questionTypes';
+
+interface BlueprintEditorProps {
+  settings: ExamSettings;
+  onChange: (blueprint: BlueprintUnit[]) => void;
+}
+
+const COLUMN_LABELS: Record<QuestionType, string> = {
+  mcq: 'MCQs',
+  trueFalse: 'T/F',
+  fillBlank: 'Blanks',
+  match: 'Match',
+  assertionReason: 'A–R',
+  short: 'Short',
+  long: 'Long',
+  caseStudy: 'Case',
+};
+
+const cellInputClassName =
+  'w-full border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+// Table of chapters with their marks weightage and how many questions of each type they contribute
+const BlueprintEditor: React.FC<BlueprintEditorProps> = ({ settings, onChange }) => {
+  const updateUnit = (id: string, changes: Partial<BlueprintUnit>) => {
+    onChange(settings.blueprint.map((unit) => (unit.id === id ? { ...unit, ...changes } : unit)));
+  };
+
+  const updateCount = (unit: BlueprintUnit, type: QuestionType, value: string) => {
+    updateUnit(unit.id, { counts: { ...unit.counts, [type]: Math.max(0, parseInt(value, 10) || 0) } });
+  };
+
+  return (
+    <div className="mb-6 overflow-x-auto">
+      <table className="min-w-full text-sm">
+        <thead>
+          <tr className="text-left text-gray-600">
+            <th className="pr-2 py-1 font-medium">Chapter / Unit</th>
+            <th className="px-1 py-1 font-medium">Weightage</th>
+            {QUESTION_TYPES.map((type) => (
+              <th key={type} className="px-1 py-1 font-medium">{COLUMN_LABELS[type]}</th>
+            ))}
+            <th className="px-1 py-1 font-medium">Marks</th>
+            <th />
+          </tr>
+        </thead>
+        <tbody>
+          {settings.blueprint.map((unit) => {
+            const marks = getUnitMarks(unit, settings);
+            return (
+              <tr key={unit.id}>
+                <td className="pr-2 py-1">
+                  <input
+                    type="text"
+                    value={unit.chapter}
+                    onChange={(e) => updateUnit(unit.id, { chapter: e.target.value })}
+                    placeholder="e.g. Cell Structure"
+                    className={cellInputClassName}
+                  />
+                </td>
+                <td className="px-1 py-1 w-24">
+                  <input
+                    type="number"
+                    min="0"
+                    value={unit.weightage}
+                    onChange={(e) => updateUnit(unit.id, { weightage: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                    className={cellInputClassName}
+                  />
+                </td>
+                {QUESTION_TYPES.map((type) => (
+                  <td key={type} className="px-1 py-1 w-20">
+                    <input
+                      type="number"
+                      min="0"
+                      value={unit.counts[type]}
+                      onChange={(e) => updateCount(unit, type, e.target.value)}
+                      aria-label={`${unit.chapter || 'Unit'} ${COLUMN_LABELS[type]}`}
+                      className={cellInputClassName}
+                    />
+                  </td>
+                ))}
+                <td className={`px-1 py-1 font-semibold ${marks === unit.weightage ? 'text-green-700' : 'text-red-600'}`}>
+                  {marks}
+                </td>
+                <td className="px-1 py-1">
+                  <button
+                    onClick={() => onChange(settings.blueprint.filter((other) => other.id !== unit.id))}
+                    className="text-red-500 hover:text-red-700 underline"
+                  >
+                    Remove
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <button
+        onClick={() => onChange([...settings.blueprint, createBlueprintUnit()])}
+        className="mt-2 px-4 py-2 bg-gray-100 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-200 transition duration-200"
+      >
+        + Add Unit
+      </button>
+    </div>
+  );
+};
+
+export default BlueprintEditor;
@@ -0,0 +1,11 @@
+import React from 'react';
+
+// Renders a "Label: value" line in a paper header
+const DetailRow: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
+  <div className="flex justify-between items-center text-sm mb-1">
+    <span className="font-semibold">{label}:</span>
+    <span>{value}</span>
+  </div>
+);
+
+export default DetailRow;
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { CropRegion, DiagramCrop } from '../types';
+import { cropImage } from '../services/imageUtils';
+import Spinner from './Spinner';
+
+interface DiagramPickerProps {
+  diagram?: DiagramCrop;
+  sourceImages: File[]; // pages currently uploaded; empty after reopening a saved exam
+  onChange: (diagram: DiagramCrop | undefined) => void;
+}
+
+const REGION_FIELDS: { key: keyof CropRegion; label: string }[] = [
+  { key: 'x', label: 'Left %' },
+  { key: 'y', label: 'Top %' },
+  { key: 'width', label: 'Width %' },
+  { key: 'height', label: 'Height %' },
+];
+
+const DEFAULT_REGION: CropRegion = { x: 0, y: 0, width: 1, height: 0.5 };
+
+const cellInputClassName =
+  'w-20 border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+// Attaches a region of an uploaded page to a question as its diagram
+const DiagramPicker: React.FC<DiagramPickerProps> = ({ diagram, sourceImages, onChange }) => {
+  const [imageIndex, setImageIndex] = useState<number>(diagram?.imageIndex ?? 0);
+  const [region, setRegion] = useState<CropRegion>(diagram?.region ?? DEFAULT_REGION);
+  const [cropping, setCropping] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRegion = (key: keyof CropRegion, value: string) => {
+    const fraction = Math.min(100, Math.max(0, parseFloat(value) || 0)) / 100;
+    setRegion((current) => ({ ...current, [key]: fraction }));
+  };
+
+  const attach = async () => {
+    const image = sourceImages[imageIndex];
+    if (!image) {
+      return;
+    }
+    // Keep the region on the page whatever was typed
+    const clamped: CropRegion = {
+      x: region.x,
+      y: region.y,
+      width: Math.max(0.01, Math.min(region.width, 1 - region.x)),
+      height: Math.max(0.01, Math.min(region.height, 1 - region.y)),
+    };
+    setCropping(true);
+    setError(null);
+    try {
+      onChange({ imageIndex, region: clamped, ...(await cropImage(image, clamped)) });
+    } catch (err: any) {
+      console.error('Failed to crop diagram:', err);
+      setError('Could not crop that page.');
+    } finally {
+      setCropping(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      {diagram?.dataUrl && (
+        <div className="flex items-start gap-3">
+          <img src={diagram.dataUrl} alt="Attached diagram" className="max-h-40 border border-gray-200" />
+          <button onClick={() => onChange(undefined)} className="text-sm text-red-500 hover:text-red-700 underline">
+            Remove diagram
+          </button>
+        </div>
+      )}
+      {sourceImages.length > 0 ? (
+        <div className="flex flex-wrap items-end gap-2 text-xs text-gray-600">
+          <label className="flex flex-col">
+            Page
+            <select
+              value={imageIndex}
+              onChange={(e) => setImageIndex(parseInt(e.target.value, 10))}
+              className={cellInputClassName}
+            >
+              {sourceImages.map((file, index) => (
+                <option key={index} value={index}>{index + 1}: {file.name}</option>
+              ))}
+            </select>
+          </label>
+          {REGION_FIELDS.map(({ key, label }) => (
+            <label key={key} className="flex flex-col">
+              {label}
+              <input
+                type="number"
+                min="0"
+                max="100"
+                value={Math.round(region[key] * 100)}
+                onChange={(e) => updateRegion(key, e.target.value)}
+                className={cellInputClassName}
+              />
+            </label>
+          ))}
+          <button
+            onClick={attach}
+            disabled={cropping}
+            className="px-3 py-1 bg-gray-100 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-200 disabled:opacity-50"
+          >
+            {cropping ? <Spinner /> : diagram?.dataUrl ? 'Replace diagram' : 'Attach diagram'}
+          </button>
+        </div>
+      ) : (
+        !diagram?.dataUrl && <p className="text-xs text-gray-500">Upload the textbook pages to attach a diagram from them.</p>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default DiagramPicker;
@@ -0,0 +1,45 @@
+import React from 'react';
+import { GeneratedExam } from '../types';
+import { DuplicateMatch } from '../services/questionBank';
+import { getSectionLabel } from '../services/marks';
+
+interface DuplicateWarningsProps {
+  exam: GeneratedExam;
+  duplicates: Map<string, DuplicateMatch>;
+}
+
+// Lists questions that repeat, or nearly repeat, one already used for this class in another paper
+const DuplicateWarnings: React.FC<DuplicateWarningsProps> = ({ exam, duplicates }) => {
+  if (duplicates.size === 0) {
+    return null;
+  }
+
+  return (
+    <div className="no-print w-full max-w-4xl bg-orange-50 border border-orange-300 rounded-lg p-4 mt-4">
+      <h3 className="text-sm font-semibold text-orange-800 mb-2">
+        {duplicates.size} question{duplicates.size === 1 ? '' : 's'} already used for this class
+      </h3>
+      <ul className="space-y-2 text-sm text-orange-900">
+        {exam.sections.flatMap((section, sectionIndex) =>
+          section.questions.map((question, index) => {
+            const match = duplicates.get(question.id);
+            if (!match) {
+              return null;
+            }
+            return (
+              <li key={question.id}>
+                <strong>
+                  {getSectionLabel(sectionIndex)}, Q{index + 1}
+                </strong>{' '}
+                {match.similarity === 1 ? 'repeats' : `is ${Math.round(match.similarity * 100)}% similar to`}: “{match.entry.question.text}”
+                <span className="text-xs text-orange-700"> ({match.entry.topic}, {new Date(match.entry.createdAt).toLocaleDateString()})</span>
+              </li>
+            );
+          }),
+        )}
+      </ul>
+    </div>
+  );
+};
+
+export default DuplicateWarnings;
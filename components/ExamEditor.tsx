@@ -0,0 +1,545 @@
+import React, { useState } from 'react';
+import { BloomLevel, Difficulty, ExamSection, ExamSettings, GeneratedExam, MatchPair, Question, QuestionTranslation, QuestionType, SubQuestion } from '../types';
+import { BLOOM_LABELS, BLOOM_LEVELS, DIFFICULTIES, DIFFICULTY_LABELS } from '../services/bloom';
+import { OPTION_LABELS, TRUE_FALSE_ANSWERS } from '../services/examSchema';
+import {
+  addQuestion,
+  createBlankQuestion,
+  deleteQuestion,
+  moveQuestion,
+  removeQuestionPart,
+  updateQuestion,
+} from '../services/examEditing';
+import { formatSectionMarks, getSectionLabel } from '../services/marks';
+import { getLetterLabel, getMatchLeftLabel } from '../services/questionFormats';
+import { QUESTION_TYPE_LABELS, getMarksPerQuestion } from '../services/questionTypes';
+import { Language, getSecondLanguage } from '../services/languages';
+import DiagramPicker from './DiagramPicker';
+import Spinner from './Spinner';
+
+interface ExamEditorProps {
+  exam: GeneratedExam;
+  settings: ExamSettings;
+  onChange: (exam: GeneratedExam) => void;
+  onRegenerateQuestion: (sectionId: string, question: Question) => Promise<void>;
+  onTranslateQuestion: (sectionId: string, question: Question) => Promise<void>;
+  sourceImages: File[]; // uploaded pages that diagrams can be cropped from
+}
+
+const inputClassName =
+  'block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const TEXT_PLACEHOLDERS: Partial<Record<QuestionType, string>> = {
+  trueFalse: 'Statement',
+  fillBlank: 'Sentence with _____ for each blank',
+  match: 'Instruction, e.g. Match Column A with Column B',
+  assertionReason: 'Assertion (A)',
+  caseStudy: 'Case study passage',
+};
+
+interface QuestionEditorProps {
+  question: Question;
+  number: number;
+  isFirst: boolean;
+  isLast: boolean;
+  regenerating: boolean;
+  translating: boolean;
+  secondLanguage: Language | null; // Bilingual papers only
+  chapters: string[]; // Blueprint chapters, empty when blueprint mode is off
+  sourceImages: File[];
+  onChange: (question: Question) => void;
+  onMove: (offset: -1 | 1) => void;
+  onDelete: () => void;
+  onRegenerate: () => void;
+  onTranslate: () => void;
+}
+
+const MatchPairsEditor: React.FC<{ pairs: MatchPair[]; onChange: (pairs: MatchPair[]) => void; onRemove: (index: number) => void }> = ({
+  pairs,
+  onChange,
+  onRemove,
+}) => {
+  const updatePair = (index: number, changes: Partial<MatchPair>) => {
+    onChange(pairs.map((pair, other) => (other === index ? { ...pair, ...changes } : pair)));
+  };
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-gray-600">Enter each pair in its correct match; Column B is reordered on the paper.</p>
+      {pairs.map((pair, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-8 font-semibold">{getMatchLeftLabel(index)}</span>
+          <input
+            type="text"
+            value={pair.left}
+            onChange={(e) => updatePair(index, { left: e.target.value })}
+            placeholder="Column A"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={pair.right}
+            onChange={(e) => updatePair(index, { right: e.target.value })}
+            placeholder="Matching Column B item"
+            className={inputClassName}
+          />
+          <button onClick={() => onRemove(index)} className="text-sm text-red-500 hover:text-red-700 underline">
+            Remove
+          </button>
+        </div>
+      ))}
+      <button onClick={() => onChange([...pairs, { left: '', right: '' }])} className="text-sm text-blue-600 hover:text-blue-800 underline">
+        + Add pair
+      </button>
+    </div>
+  );
+};
+
+const SubQuestionsEditor: React.FC<{
+  subQuestions: SubQuestion[];
+  onChange: (subQuestions: SubQuestion[]) => void;
+  onRemove: (index: number) => void;
+}> = ({ subQuestions, onChange, onRemove }) => {
+  const updateSubQuestion = (index: number, changes: Partial<SubQuestion>) => {
+    onChange(subQuestions.map((sub, other) => (other === index ? { ...sub, ...changes } : sub)));
+  };
+
+  return (
+    <div className="space-y-3">
+      {subQuestions.map((sub, index) => (
+        <div key={index} className="pl-4 border-l-2 border-gray-200 space-y-2">
+          <div className="flex items-center gap-2">
+            <span className="w-8 font-semibold">{getLetterLabel(index)}</span>
+            <input
+              type="text"
+              value={sub.text}
+              onChange={(e) => updateSubQuestion(index, { text: e.target.value })}
+              placeholder="Sub-question"
+              className={inputClassName}
+            />
+            <input
+              type="number"
+              min="0"
+              value={sub.marks}
+              onChange={(e) => updateSubQuestion(index, { marks: parseInt(e.target.value, 10) || 0 })}
+              title="Marks"
+              className={`${inputClassName} w-20`}
+            />
+            <button onClick={() => onRemove(index)} className="text-sm text-red-500 hover:text-red-700 underline">
+              Remove
+            </button>
+          </div>
+          <textarea
+            value={sub.modelAnswer}
+            onChange={(e) => updateSubQuestion(index, { modelAnswer: e.target.value })}
+            rows={2}
+            placeholder="Model answer"
+            className={inputClassName}
+          />
+        </div>
+      ))}
+      <button
+        onClick={() => onChange([...subQuestions, { text: '', marks: 1, modelAnswer: '' }])}
+        className="text-sm text-blue-600 hover:text-blue-800 underline"
+      >
+        + Add sub-question
+      </button>
+    </div>
+  );
+};
+
+// The second-language version printed beneath the question, one field for each part of the original.
+// Edits to the original leave it as it was, so it sits alongside to be corrected or translated again.
+const TranslationEditor: React.FC<{
+  question: Question;
+  language: Language;
+  translating: boolean;
+  onChange: (translation: QuestionTranslation) => void;
+  onTranslate: () => void;
+}> = ({ question, language, translating, onChange, onTranslate }) => {
+  const translation = question.translation || { text: '' };
+  const update = (changes: Partial<QuestionTranslation>) => onChange({ ...translation, ...changes });
+  // Lists follow the original, so a part added since the last translation gets an empty field
+  const options = question.type === 'mcq' ? (question.options || []).map((_, index) => translation.options?.[index] || '') : [];
+  const pairs = (question.matchPairs || []).map((_, index) => translation.matchPairs?.[index] || { left: '', right: '' });
+  const subQuestions = (question.subQuestions || []).map((_, index) => translation.subQuestions?.[index] || '');
+
+  return (
+    <div className="border-t border-gray-200 pt-3 space-y-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-semibold text-gray-700">{language.name} translation</span>
+        <button
+          onClick={onTranslate}
+          disabled={translating || !question.text.trim()}
+          className="text-sm text-blue-600 hover:text-blue-800 underline disabled:opacity-40"
+        >
+          {translating ? <Spinner /> : question.translation ? 'Translate again' : 'Translate'}
+        </button>
+      </div>
+      <textarea
+        value={translation.text}
+        onChange={(e) => update({ text: e.target.value })}
+        rows={2}
+        placeholder={`Question text in ${language.name}`}
+        className={inputClassName}
+      />
+      {question.type === 'assertionReason' && (
+        <textarea
+          value={translation.reason || ''}
+          onChange={(e) => update({ reason: e.target.value })}
+          rows={2}
+          placeholder={`Reason (R) in ${language.name}`}
+          className={inputClassName}
+        />
+      )}
+      {options.map((option, index) => (
+        <div key={OPTION_LABELS[index]} className="flex items-center gap-2">
+          <span className="w-5 font-semibold">{OPTION_LABELS[index]})</span>
+          <input
+            type="text"
+            value={option}
+            onChange={(e) => update({ options: options.map((other, otherIndex) => (otherIndex === index ? e.target.value : other)) })}
+            className={inputClassName}
+          />
+        </div>
+      ))}
+      {pairs.map((pair, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-8 font-semibold">{getMatchLeftLabel(index)}</span>
+          <input
+            type="text"
+            value={pair.left}
+            onChange={(e) => update({ matchPairs: pairs.map((other, otherIndex) => (otherIndex === index ? { ...other, left: e.target.value } : other)) })}
+            placeholder="Column A"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={pair.right}
+            onChange={(e) => update({ matchPairs: pairs.map((other, otherIndex) => (otherIndex === index ? { ...other, right: e.target.value } : other)) })}
+            placeholder="Column B"
+            className={inputClassName}
+          />
+        </div>
+      ))}
+      {subQuestions.map((sub, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <span className="w-8 font-semibold">{getLetterLabel(index)}</span>
+          <input
+            type="text"
+            value={sub}
+            onChange={(e) => update({ subQuestions: subQuestions.map((other, otherIndex) => (otherIndex === index ? e.target.value : other)) })}
+            placeholder="Sub-question"
+            className={inputClassName}
+          />
+        </div>
+      ))}
+    </div>
+  );
+};
+
+const QuestionEditor: React.FC<QuestionEditorProps> = ({
+  question,
+  number,
+  isFirst,
+  isLast,
+  regenerating,
+  translating,
+  secondLanguage,
+  chapters,
+  sourceImages,
+  onChange,
+  onMove,
+  onDelete,
+  onRegenerate,
+  onTranslate,
+}) => {
+  const updateOption = (index: number, value: string) => {
+    const options = [...(question.options || [])];
+    options[index] = value;
+    onChange({ ...question, options });
+  };
+  const isWritten = question.type === 'short' || question.type === 'long';
+  // Assertion–reason choices are the fixed board wording, so only the answer can change
+  const optionsEditable = question.type === 'mcq';
+
+  return (
+    <li className="border border-gray-200 rounded-md p-4 space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <span className="font-semibold text-gray-800">Q{number}</span>
+        <div className="flex flex-wrap gap-3 text-sm">
+          <button onClick={() => onMove(-1)} disabled={isFirst} className="text-gray-600 hover:text-gray-800 underline disabled:opacity-40">
+            Move up
+          </button>
+          <button onClick={() => onMove(1)} disabled={isLast} className="text-gray-600 hover:text-gray-800 underline disabled:opacity-40">
+            Move down
+          </button>
+          <button
+            onClick={onRegenerate}
+            disabled={regenerating}
+            className="text-blue-600 hover:text-blue-800 underline disabled:opacity-40"
+          >
+            {regenerating ? <Spinner /> : 'Regenerate'}
+          </button>
+          <button onClick={onDelete} className="text-red-500 hover:text-red-700 underline">
+            Delete
+          </button>
+        </div>
+      </div>
+
+      <div className="flex gap-3">
+        <textarea
+          value={question.text}
+          onChange={(e) => onChange({ ...question, text: e.target.value })}
+          rows={2}
+          placeholder={TEXT_PLACEHOLDERS[question.type] || 'Question text'}
+          className={`${inputClassName} flex-1`}
+        />
+        <label className="flex flex-col text-xs text-gray-600 w-20">
+          Marks
+          <input
+            type="number"
+            min="0"
+            value={question.marks}
+            onChange={(e) => onChange({ ...question, marks: parseInt(e.target.value, 10) || 0 })}
+            className={inputClassName}
+          />
+        </label>
+      </div>
+
+      <div className="flex flex-wrap gap-3">
+        <label className="flex flex-col text-xs text-gray-600">
+          Bloom's level
+          <select
+            value={question.bloomLevel || ''}
+            onChange={(e) => onChange({ ...question, bloomLevel: (e.target.value || undefined) as BloomLevel | undefined })}
+            className={inputClassName}
+          >
+            <option value="">Untagged</option>
+            {BLOOM_LEVELS.map((level) => (
+              <option key={level} value={level}>{BLOOM_LABELS[level]}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col text-xs text-gray-600">
+          Difficulty
+          <select
+            value={question.difficulty || ''}
+            onChange={(e) => onChange({ ...question, difficulty: (e.target.value || undefined) as Difficulty | undefined })}
+            className={inputClassName}
+          >
+            <option value="">Untagged</option>
+            {DIFFICULTIES.map((difficulty) => (
+              <option key={difficulty} value={difficulty}>{DIFFICULTY_LABELS[difficulty]}</option>
+            ))}
+          </select>
+        </label>
+        {chapters.length > 0 && (
+          <label className="flex flex-col text-xs text-gray-600">
+            Chapter
+            <select
+              value={question.chapter || ''}
+              onChange={(e) => onChange({ ...question, chapter: e.target.value || undefined })}
+              className={inputClassName}
+            >
+              <option value="">Not in blueprint</option>
+              {chapters.map((chapter) => (
+                <option key={chapter} value={chapter}>{chapter}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+
+      {question.type === 'assertionReason' && (
+        <textarea
+          value={question.reason || ''}
+          onChange={(e) => onChange({ ...question, reason: e.target.value })}
+          rows={2}
+          placeholder="Reason (R)"
+          className={inputClassName}
+        />
+      )}
+
+      {question.type === 'trueFalse' && (
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          Correct answer
+          <select
+            value={question.correctAnswer || TRUE_FALSE_ANSWERS[0]}
+            onChange={(e) => onChange({ ...question, correctAnswer: e.target.value })}
+            className={`${inputClassName} w-32`}
+          >
+            {TRUE_FALSE_ANSWERS.map((answer) => (
+              <option key={answer} value={answer}>{answer}</option>
+            ))}
+          </select>
+        </label>
+      )}
+
+      {question.type === 'fillBlank' && (
+        <input
+          type="text"
+          value={question.correctAnswer || ''}
+          onChange={(e) => onChange({ ...question, correctAnswer: e.target.value })}
+          placeholder="Missing word(s), separated by semicolons"
+          className={inputClassName}
+        />
+      )}
+
+      {question.type === 'match' && (
+        <MatchPairsEditor
+          pairs={question.matchPairs || []}
+          onChange={(matchPairs) => onChange({ ...question, matchPairs })}
+          onRemove={(index) => onChange(removeQuestionPart(question, 'matchPairs', index))}
+        />
+      )}
+
+      {(question.type === 'caseStudy' || isWritten) && (
+        <SubQuestionsEditor
+          subQuestions={question.subQuestions || []}
+          // Written questions without parts drop the field rather than keep an empty list
+          onChange={(subQuestions) =>
+            onChange({ ...question, subQuestions: subQuestions.length > 0 || question.type === 'caseStudy' ? subQuestions : undefined })
+          }
+          onRemove={(index) => {
+            const updated = removeQuestionPart(question, 'subQuestions', index);
+            onChange(updated.subQuestions?.length || question.type === 'caseStudy' ? updated : { ...updated, subQuestions: undefined });
+          }}
+        />
+      )}
+
+      <DiagramPicker
+        diagram={question.diagram}
+        sourceImages={sourceImages}
+        onChange={(diagram) => onChange({ ...question, diagram })}
+      />
+
+      {question.options && (
+        <div className="space-y-2">
+          {question.options.map((option, index) => (
+            <div key={OPTION_LABELS[index]} className="flex items-center gap-2">
+              <input
+                type="radio"
+                name={`correct-${question.id}`}
+                checked={question.correctAnswer === OPTION_LABELS[index]}
+                onChange={() => onChange({ ...question, correctAnswer: OPTION_LABELS[index] })}
+                title="Mark as correct answer"
+              />
+              <span className="w-5 font-semibold">{OPTION_LABELS[index]})</span>
+              {optionsEditable ? (
+                <input
+                  type="text"
+                  value={option}
+                  onChange={(e) => updateOption(index, e.target.value)}
+                  className={inputClassName}
+                />
+              ) : (
+                <span className="text-sm text-gray-700">{option}</span>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+
+      {question.type !== 'caseStudy' && (
+        <textarea
+          value={question.modelAnswer || ''}
+          onChange={(e) => onChange({ ...question, modelAnswer: e.target.value })}
+          rows={2}
+          placeholder={isWritten ? 'Model answer' : 'Explanation (optional)'}
+          className={inputClassName}
+        />
+      )}
+      {isWritten && (
+        <textarea
+          value={(question.markingScheme || []).join('\n')}
+          onChange={(e) => onChange({ ...question, markingScheme: e.target.value.split('\n') })}
+          rows={3}
+          placeholder="Marking scheme, one point per line"
+          className={inputClassName}
+        />
+      )}
+
+      {secondLanguage && (
+        <TranslationEditor
+          question={question}
+          language={secondLanguage}
+          translating={translating}
+          onChange={(translation) => onChange({ ...question, translation })}
+          onTranslate={onTranslate}
+        />
+      )}
+    </li>
+  );
+};
+
+const ExamEditor: React.FC<ExamEditorProps> = ({ exam, settings, onChange, onRegenerateQuestion, onTranslateQuestion, sourceImages }) => {
+  const [regeneratingIds, setRegeneratingIds] = useState<string[]>([]);
+  const [translatingIds, setTranslatingIds] = useState<string[]>([]);
+  const secondLanguage = getSecondLanguage(settings);
+  const chapters = settings.blueprintEnabled
+    ? settings.blueprint.map((unit) => unit.chapter.trim()).filter(Boolean)
+    : [];
+
+  const handleRegenerate = async (section: ExamSection, question: Question) => {
+    setRegeneratingIds((ids) => [...ids, question.id]);
+    try {
+      await onRegenerateQuestion(section.id, question);
+    } finally {
+      setRegeneratingIds((ids) => ids.filter((id) => id !== question.id));
+    }
+  };
+
+  const handleTranslate = async (section: ExamSection, question: Question) => {
+    setTranslatingIds((ids) => [...ids, question.id]);
+    try {
+      await onTranslateQuestion(section.id, question);
+    } finally {
+      setTranslatingIds((ids) => ids.filter((id) => id !== question.id));
+    }
+  };
+
+  return (
+    <div className="no-print bg-white shadow-lg p-8 md:p-12 space-y-8">
+      {exam.sections.map((section, sectionIndex) => (
+        <section key={section.id}>
+          <h2 className="text-xl font-bold mb-4 flex justify-between gap-4">
+            <span>{getSectionLabel(sectionIndex, settings.layout.sectionNaming)} – {section.title}</span>
+            <span className="whitespace-nowrap">{formatSectionMarks(section)}</span>
+          </h2>
+          <ol className="space-y-4">
+            {section.questions.map((question, index) => (
+              <QuestionEditor
+                key={question.id}
+                question={question}
+                number={index + 1}
+                isFirst={index === 0}
+                isLast={index === section.questions.length - 1}
+                regenerating={regeneratingIds.includes(question.id)}
+                translating={translatingIds.includes(question.id)}
+                secondLanguage={secondLanguage}
+                chapters={chapters}
+                sourceImages={sourceImages}
+                onChange={(updated) => onChange(updateQuestion(exam, section.id, updated))}
+                onMove={(offset) => onChange(moveQuestion(exam, section.id, question.id, offset))}
+                onDelete={() => onChange(deleteQuestion(exam, section.id, question.id))}
+                onRegenerate={() => handleRegenerate(section, question)}
+                onTranslate={() => handleTranslate(section, question)}
+              />
+            ))}
+          </ol>
+          <button
+            onClick={() =>
+              onChange(addQuestion(exam, section.id, createBlankQuestion(exam, section.type, getMarksPerQuestion(settings, section.type), settings.difficulty)))
+            }
+            className="mt-4 px-4 py-2 bg-gray-100 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-200 transition duration-200"
+          >
+            + Add {QUESTION_TYPE_LABELS[section.type]}
+          </button>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default ExamEditor;
@@ -0,0 +1,155 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { SavedExam } from '../types';
+import {
+  deleteSavedExam,
+  duplicateSavedExam,
+  listSavedExams,
+  renameSavedExam,
+  searchSavedExams,
+} from '../services/examLibrary';
+
+interface ExamLibraryProps {
+  activeExamId: string | null;
+  refreshToken: number; // Bump to reload the list after the app saves an exam
+  onOpen: (saved: SavedExam) => void;
+  onDeleted: (id: string) => void;
+}
+
+const formatTimestamp = (timestamp: number): string => new Date(timestamp).toLocaleString();
+
+const ExamLibrary: React.FC<ExamLibraryProps> = ({ activeExamId, refreshToken, onOpen, onDeleted }) => {
+  const [exams, setExams] = useState<SavedExam[]>([]);
+  const [query, setQuery] = useState<string>('');
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const loadExams = useCallback(async () => {
+    try {
+      setExams(await listSavedExams());
+      setError(null);
+    } catch (err: any) {
+      console.error('Failed to load the exam library:', err);
+      setError('Could not load saved exams. Your browser may be blocking local storage.');
+    }
+  }, []);
+
+  useEffect(() => {
+    loadExams();
+  }, [loadExams, refreshToken]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+      await loadExams();
+    } catch (err: any) {
+      console.error('Exam library action failed:', err);
+      setError(err.message || 'The library action failed.');
+    }
+  };
+
+  const startRename = (saved: SavedExam) => {
+    setRenamingId(saved.id);
+    setRenameValue(saved.title);
+  };
+
+  const commitRename = (id: string) => {
+    setRenamingId(null);
+    runAction(() => renameSavedExam(id, renameValue));
+  };
+
+  const handleDelete = (saved: SavedExam) => {
+    if (window.confirm(`Delete "${saved.title}" from the library?`)) {
+      runAction(async () => {
+        await deleteSavedExam(saved.id);
+        onDeleted(saved.id);
+      });
+    }
+  };
+
+  const visibleExams = searchSavedExams(exams, query);
+
+  return (
+    <div className="no-print bg-white shadow-lg rounded-lg p-6 sm:p-8 w-full max-w-4xl mb-8">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-bold text-gray-800">Exam Library</h2>
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search by title, topic, class or board"
+          className="block w-full sm:w-72 border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+      </div>
+
+      {error && <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md">{error}</div>}
+
+      {visibleExams.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {exams.length === 0 ? 'Generated exams are saved here automatically.' : 'No saved exams match your search.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+          {visibleExams.map((saved) => (
+            <li
+              key={saved.id}
+              className={`py-3 flex flex-col md:flex-row md:items-center gap-3 ${saved.id === activeExamId ? 'bg-blue-50' : ''}`}
+            >
+              <div className="flex gap-1 shrink-0">
+                {saved.thumbnails.slice(0, 3).map((thumbnail, index) => (
+                  <img
+                    key={index}
+                    src={thumbnail}
+                    alt={`Source page ${index + 1}`}
+                    className="w-12 h-12 object-cover rounded border border-gray-200"
+                  />
+                ))}
+              </div>
+              <div className="flex-1 min-w-0">
+                {renamingId === saved.id ? (
+                  <input
+                    type="text"
+                    value={renameValue}
+                    autoFocus
+                    onChange={(e) => setRenameValue(e.target.value)}
+                    onBlur={() => commitRename(saved.id)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') commitRename(saved.id);
+                      if (e.key === 'Escape') setRenamingId(null);
+                    }}
+                    className="block w-full border border-gray-300 rounded-md py-1 px-2 sm:text-sm"
+                  />
+                ) : (
+                  <p className="font-semibold text-gray-800 truncate">{saved.title}</p>
+                )}
+                <p className="text-xs text-gray-500">
+                  {saved.settings.className} · {saved.settings.board} · Created {formatTimestamp(saved.createdAt)}
+                  {saved.updatedAt !== saved.createdAt && ` · Updated ${formatTimestamp(saved.updatedAt)}`}
+                </p>
+              </div>
+              <div className="flex flex-wrap gap-3 text-sm">
+                <button onClick={() => onOpen(saved)} className="text-blue-600 hover:text-blue-800 underline">
+                  Open
+                </button>
+                <button onClick={() => startRename(saved)} className="text-gray-600 hover:text-gray-800 underline">
+                  Rename
+                </button>
+                <button
+                  onClick={() => runAction(() => duplicateSavedExam(saved.id))}
+                  className="text-gray-600 hover:text-gray-800 underline"
+                >
+                  Duplicate
+                </button>
+                <button onClick={() => handleDelete(saved)} className="text-red-500 hover:text-red-700 underline">
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ExamLibrary;
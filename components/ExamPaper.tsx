@@ -1,100 +1,202 @@
-
-import React from 'react';
-import { ExamSettings } from '../types';
+import React, { useEffect } from 'react';
+import { ExamSettings, GeneratedExam, Question, QuestionTranslation, RosterStudent } from '../types';
+import { formatMarks, formatSectionMarks, getSectionLabel } from '../services/marks';
+import { getLetterLabel, getMatchColumnB, getMatchLeftLabel, getTranslatedColumnB } from '../services/questionFormats';
+import { Language, getLanguage, getOptionLabel, getScriptProps, getSecondLanguage, loadLanguageFonts } from '../services/languages';
+import { getGeneralInstructions } from '../services/templates';
+import DetailRow from './DetailRow';
+import PaperBranding from './PaperBranding';
+import RichText from './RichText';
 
 interface ExamPaperProps {
-  htmlContent: string;
+  exam: GeneratedExam;
   settings: ExamSettings;
+  setCode?: string; // Shown in the header when several shuffled sets are printed
+  student?: RosterStudent; // Personalised copy for a student on the roster
 }
 
-const ExamPaper: React.FC<ExamPaperProps> = ({ htmlContent, settings }) => {
-  // Convert Markdown-like headings and lists to HTML
-  const formatMarkdownToHtml = (markdown: string): string => {
-    let html = markdown;
-
-    // Convert **bold** to <strong>bold</strong>
-    html = html.replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>');
-
-    // Convert ## Heading to <h2>Heading</h2>
-    html = html.replace(/^##\s*(.*)$/gm, '<h2 class="text-xl font-bold mt-6 mb-4">$1</h2>');
-
-    // Convert numbered lists to <ol><li>...</li></ol>
-    // This is a simplified conversion, assuming single-level lists
-    const convertNumberedLists = (text: string): string => {
-      const lines = text.split('\n');
-      let inList = false;
-      let result: string[] = [];
-      let currentList: string[] = [];
-
-      lines.forEach(line => {
-        const trimmedLine = line.trim();
-        if (trimmedLine.match(/^\d+\.\s/)) { // Starts with "1. ", "2. " etc.
-          if (!inList) {
-            inList = true;
-            result.push('<ol class="list-decimal pl-6 mt-2 mb-4 space-y-2">');
-          }
-          currentList.push(`<li>${trimmedLine.substring(trimmedLine.indexOf('.') + 1).trim()}</li>`);
-        } else {
-          if (inList) {
-            result.push(currentList.join('\n'));
-            result.push('</ol>');
-            currentList = [];
-            inList = false;
-          }
-          result.push(line); // Push non-list lines directly
-        }
-      });
-
-      if (inList) { // Close any open list at the end
-        result.push(currentList.join('\n'));
-        result.push('</ol>');
-      }
-      return result.join('\n');
-    };
-
-    html = convertNumberedLists(html);
-
-    // Replace multiple newlines with single ones for paragraph breaking
-    html = html.replace(/\n\s*\n/g, '<p class="mt-4 mb-2"></p>');
-    html = html.replace(/\n/g, '<br/>'); // Convert remaining newlines to <br/>
-
-    return html;
-  };
+interface MatchColumnsProps {
+  columnA: string[];
+  columnB: string[]; // In printed order
+  labels: Language;
+}
 
-  const formattedHtml = formatMarkdownToHtml(htmlContent);
+const MatchColumns: React.FC<MatchColumnsProps> = ({ columnA, columnB, labels }) => (
+  <table className="mt-2 w-full border-collapse text-start">
+    <thead>
+      <tr>
+        <th className="border border-gray-300 px-2 py-1">Column A</th>
+        <th className="border border-gray-300 px-2 py-1">Column B</th>
+      </tr>
+    </thead>
+    <tbody>
+      {columnA.map((left, index) => (
+        <tr key={index}>
+          <td className="border border-gray-300 px-2 py-1">{getMatchLeftLabel(index)} <RichText text={left} /></td>
+          <td className="border border-gray-300 px-2 py-1">{getLetterLabel(index, labels)} <RichText text={columnB[index]} /></td>
+        </tr>
+      ))}
+    </tbody>
+  </table>
+);
+
+const OptionList: React.FC<{ options: string[]; labels: Language }> = ({ options, labels }) => (
+  <ol className="mt-2 space-y-1">
+    {options.map((option, index) => (
+      <li key={index}>
+        {getOptionLabel(index, labels)}) <RichText text={option} />
+      </li>
+    ))}
+  </ol>
+);
+
+// The question again in the paper's second language, in its own script and direction. Labels
+// stay those of the first language so both versions point at the same option or part.
+const TranslationBlock: React.FC<{ question: Question; translation: QuestionTranslation; language: Language; labels: Language }> = ({
+  question,
+  translation,
+  language,
+  labels,
+}) => (
+  <div className="mt-2 border-s-2 border-gray-300 ps-3" {...getScriptProps(language)}>
+    <div>
+      {question.type === 'assertionReason' && <strong>(A): </strong>}
+      <RichText text={translation.text} />
+    </div>
+    {translation.reason && (
+      <div>
+        <strong>(R): </strong>
+        <RichText text={translation.reason} />
+      </div>
+    )}
+    {question.matchPairs && translation.matchPairs && (
+      <MatchColumns
+        columnA={translation.matchPairs.map((pair) => pair.left)}
+        columnB={getTranslatedColumnB(question.matchPairs, translation.matchPairs)}
+        labels={labels}
+      />
+    )}
+    {translation.subQuestions && (
+      <ol className="mt-2 space-y-1">
+        {translation.subQuestions.map((text, index) => (
+          <li key={index}>{getLetterLabel(index, labels)} <RichText text={text} /></li>
+        ))}
+      </ol>
+    )}
+    {translation.options && <OptionList options={translation.options} labels={labels} />}
+  </div>
+);
+
+interface QuestionItemProps {
+  question: Question;
+  labels: Language; // Script of the paper, for option and part labels
+  secondLanguage: Language | null;
+}
 
-  // Helper function to render a detail row
-  const DetailRow: React.FC<{ label: string; value: string | number }> = ({ label, value }) => (
-    <div className="flex justify-between items-center text-sm mb-1">
-      <span className="font-semibold">{label}:</span>
-      <span>{value}</span>
+// A bilingual question is kept on one page so both versions print together
+const QuestionItem: React.FC<QuestionItemProps> = ({ question, labels, secondLanguage }) => (
+  <li className={secondLanguage ? 'print:break-inside-avoid' : undefined}>
+    <div className="flex justify-between gap-4">
+      <div>
+        {question.type === 'assertionReason' && <strong>Assertion (A): </strong>}
+        <RichText text={question.text} />
+      </div>
+      <span className="text-sm font-semibold whitespace-nowrap">[{formatMarks(question.marks)}]</span>
     </div>
-  );
+    {question.diagram?.dataUrl && (
+      <img src={question.diagram.dataUrl} alt="Diagram for this question" className="mt-2 max-w-full max-h-72 border border-gray-200" />
+    )}
+    {question.type === 'assertionReason' && question.reason && (
+      <div>
+        <strong>Reason (R): </strong>
+        <RichText text={question.reason} />
+      </div>
+    )}
+    {question.type === 'trueFalse' && <p className="mt-1 text-sm">True / False</p>}
+    {question.type === 'match' && question.matchPairs && (
+      <MatchColumns columnA={question.matchPairs.map((pair) => pair.left)} columnB={getMatchColumnB(question.matchPairs)} labels={labels} />
+    )}
+    {question.subQuestions && (
+      <ol className="mt-2 space-y-1">
+        {question.subQuestions.map((sub, index) => (
+          <li key={index} className="flex justify-between gap-4">
+            <div>{getLetterLabel(index, labels)} <RichText text={sub.text} /></div>
+            <span className="text-sm whitespace-nowrap">[{formatMarks(sub.marks)}]</span>
+          </li>
+        ))}
+      </ol>
+    )}
+    {question.options && <OptionList options={question.options} labels={labels} />}
+    {secondLanguage && question.translation && (
+      <TranslationBlock question={question} translation={question.translation} language={secondLanguage} labels={labels} />
+    )}
+  </li>
+);
+
+const ExamPaper: React.FC<ExamPaperProps> = ({ exam, settings, setCode, student }) => {
+  const language = getLanguage(settings.language);
+  const secondLanguage = getSecondLanguage(settings);
+  const { layout } = settings;
+  const generalInstructions = getGeneralInstructions(layout);
+
+  useEffect(() => {
+    loadLanguageFonts(secondLanguage ? [language, secondLanguage] : [language]);
+  }, [language, secondLanguage]);
 
   return (
-    <div className="exam-paper-container bg-white shadow-lg p-8 md:p-12 print:p-0">
+    <div className="exam-paper-container bg-white shadow-lg p-8 md:p-12 print:p-0" {...getScriptProps(language)}>
       {/* Header */}
       <div className="border-b-2 border-gray-300 pb-4 mb-6 text-center">
-        <h1 className="text-2xl font-extrabold text-gray-800 mb-2">Smart Exam Creator</h1>
+        <PaperBranding layout={layout} />
+        {layout.title && <h1 className="text-2xl font-extrabold text-gray-800 mb-2">{layout.title}</h1>}
         <DetailRow label="Topic" value={settings.topic} />
         <DetailRow label="Class" value={settings.className} />
         <DetailRow label="Board" value={settings.board} />
-        <DetailRow label="Student" value={settings.studentName || '____________________'} />
+        {setCode && <DetailRow label="Set" value={setCode} />}
+        <DetailRow label="Student" value={student?.name || settings.studentName || '____________________'} />
+        {student && <DetailRow label="Roll No." value={student.rollNumber || '__________'} />}
         <DetailRow label="Total Marks" value={settings.totalMarks} />
         <DetailRow label="Duration" value={`${settings.duration} minutes`} />
+        {layout.headerFields.filter((field) => field.label.trim()).map((field) => (
+          <DetailRow key={field.id} label={field.label} value={field.value || '____________________'} />
+        ))}
       </div>
 
+      {generalInstructions.length > 0 && (
+        <div className="mb-6">
+          <h2 className="font-bold mb-1">General Instructions</h2>
+          <ol className="list-decimal ps-6 text-sm space-y-1">
+            {generalInstructions.map((instruction, index) => (
+              <li key={index}>{instruction}</li>
+            ))}
+          </ol>
+        </div>
+      )}
+
       {/* Main Content - Questions */}
-      <div className="text-gray-900 leading-relaxed" dangerouslySetInnerHTML={{ __html: formattedHtml }}>
+      <div className="text-gray-900 leading-relaxed">
+        {exam.sections.map((section, index) => (
+          <section key={section.id}>
+            <h2 className="text-xl font-bold mt-6 mb-4 flex justify-between gap-4">
+              <span>{getSectionLabel(index, layout.sectionNaming)} – {section.title}</span>
+              <span className="whitespace-nowrap">{formatSectionMarks(section)}</span>
+            </h2>
+            {section.instructions && <p className="italic mb-2">{section.instructions}</p>}
+            <ol className="ps-6 mt-2 mb-4 space-y-4" style={{ listStyleType: language.listStyle }}>
+              {section.questions.map((question) => (
+                <QuestionItem key={question.id} question={question} labels={language} secondLanguage={secondLanguage} />
+              ))}
+            </ol>
+          </section>
+        ))}
       </div>
 
       {/* Footer */}
-      <div className="border-t-2 border-gray-300 pt-4 mt-8 text-center text-gray-600 text-xs">
-        Generated by SmartExam AI
-      </div>
+      {layout.footerText && (
+        <div className="border-t-2 border-gray-300 pt-4 mt-8 text-center text-gray-600 text-xs">{layout.footerText}</div>
+      )}
     </div>
   );
 };
 
 export default ExamPaper;
-    
\ No newline at end of file
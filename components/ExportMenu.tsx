@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { ExamSettings, GeneratedExam } from '../types';
+import { EXPORT_FORMAT_LABELS, ExportCopy, ExportFormat, exportExam, getFormatUnavailableReason } from '../services/export';
+
+interface ExportMenuProps {
+  exam: GeneratedExam;
+  settings: ExamSettings;
+  setCode?: string;
+}
+
+const FORMATS = Object.keys(EXPORT_FORMAT_LABELS) as ExportFormat[];
+
+const COPIES: { copy: ExportCopy; label: string }[] = [
+  { copy: 'student', label: 'Student copy' },
+  { copy: 'answerKey', label: 'Answer key' },
+];
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ exam, settings, setCode }) => {
+  const [exporting, setExporting] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (copy: ExportCopy, format: ExportFormat) => {
+    setExporting(`${copy}-${format}`);
+    setError(null);
+    try {
+      await exportExam({ exam, settings, copy, setCode }, format);
+    } catch (err: any) {
+      console.error('Failed to export exam:', err);
+      setError(err.message || 'Failed to export the exam.');
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const unavailableReasons = FORMATS.map((format) => getFormatUnavailableReason(format, settings)).filter(Boolean);
+
+  return (
+    <div className="no-print w-full max-w-4xl bg-white shadow rounded-lg p-4 mt-4">
+      <h3 className="text-sm font-semibold text-gray-700 mb-2">Download{setCode ? ` Set ${setCode}` : ''}</h3>
+      <div className="space-y-2">
+        {COPIES.map(({ copy, label }) => (
+          <div key={copy} className="flex flex-wrap items-center gap-2">
+            <span className="w-28 text-sm text-gray-600">{label}</span>
+            {FORMATS.map((format) => (
+              <button
+                key={format}
+                onClick={() => handleExport(copy, format)}
+                disabled={exporting !== null || getFormatUnavailableReason(format, settings) !== null}
+                className="px-3 py-1 bg-gray-100 text-gray-800 text-sm rounded-md hover:bg-gray-200 transition duration-200 disabled:opacity-50"
+              >
+                {exporting === `${copy}-${format}` ? 'Exporting…' : EXPORT_FORMAT_LABELS[format]}
+              </button>
+            ))}
+          </div>
+        ))}
+      </div>
+      {unavailableReasons.map((reason) => (
+        <p key={reason} className="mt-2 text-xs text-gray-500">{reason}</p>
+      ))}
+      {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,79 @@
+import React from 'react';
+import { ExamSettings, QuestionType } from '../types';
+import { GenerationProgress as Progress } from '../services/examGenerator';
+import { QUESTION_TYPES, SECTION_TITLES, getRequestedCount } from '../services/questionTypes';
+
+interface GenerationProgressProps {
+  progress: Progress;
+  settings: ExamSettings;
+  pageCount: number; // 0 when the paper is written from text or the topic, which skips page analysis
+  onCancel: () => void;
+}
+
+type StepStatus = 'waiting' | 'active' | 'done';
+
+const STATUS_ICONS: Record<StepStatus, string> = {
+  waiting: '○',
+  active: '◐',
+  done: '✓',
+};
+
+const STATUS_CLASSES: Record<StepStatus, string> = {
+  waiting: 'text-gray-400',
+  active: 'text-blue-700 font-semibold animate-pulse',
+  done: 'text-green-700',
+};
+
+// Stage-by-stage progress of a generation run: page analysis, then each requested section
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ progress, settings, pageCount, onCancel }) => {
+  const requestedTypes = QUESTION_TYPES.filter((type) => getRequestedCount(settings, type) > 0);
+  const receivedTypes = new Set((progress.partialExam?.sections || []).map((section) => section.type));
+  // Before a section names its type, assume the next missing one is being written
+  const activeType =
+    progress.stage === 'questions' ? progress.writingSection ?? requestedTypes.find((type) => !receivedTypes.has(type)) : undefined;
+
+  const getSectionStatus = (type: QuestionType): StepStatus =>
+    receivedTypes.has(type) ? 'done' : type === activeType ? 'active' : 'waiting';
+
+  const analysisSteps: { key: string; label: string; status: StepStatus }[] =
+    pageCount > 0
+      ? [{ key: 'analysis', label: `Analysing ${pageCount} page${pageCount === 1 ? '' : 's'}`, status: progress.stage === 'analysis' ? 'active' : 'done' }]
+      : [];
+  const steps: { key: string; label: string; status: StepStatus }[] = [
+    ...analysisSteps,
+    ...requestedTypes.map((type) => ({
+      key: type,
+      label: `${SECTION_TITLES[type]} (${getRequestedCount(settings, type)})`,
+      status: getSectionStatus(type),
+    })),
+  ];
+
+  return (
+    <div className="no-print w-full max-w-4xl bg-white shadow-lg rounded-lg p-4 sm:p-6 mb-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-lg font-semibold text-gray-800">Generating exam paper…</h3>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-red-600 text-white text-sm font-semibold rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 transition duration-200"
+        >
+          Cancel
+        </button>
+      </div>
+      <ol className="space-y-1 text-sm">
+        {steps.map((step) => (
+          <li key={step.key} className={STATUS_CLASSES[step.status]}>
+            <span className="inline-block w-5">{STATUS_ICONS[step.status]}</span>
+            {step.label}
+          </li>
+        ))}
+      </ol>
+      {progress.attempt > 1 && (
+        <p className="mt-2 text-xs text-yellow-700">
+          The response did not match the expected format; asking the model to fix it (attempt {progress.attempt}).
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default GenerationProgress;
@@ -0,0 +1,379 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ExamSettings, GeneratedExam, GradedSheet, PaperVariant, Question, QuestionGrade, SectionNaming } from '../types';
+import {
+  createScoresCsv,
+  deleteGradedSheet,
+  getSheetTotal,
+  gradeAnswerSheet,
+  gradeTypedAnswers,
+  listGradedSheets,
+  saveGradedSheet,
+  updateGradedSheet,
+} from '../services/grading';
+import { parseResponsesFile } from '../services/onlineTest';
+import { formatMarks, getExamMarks, getSectionLabel } from '../services/marks';
+import { loadSourcePages, prepareSourcePages } from '../services/pagePreparation';
+import { assignStudentPapers } from '../services/roster';
+import { downloadBlob, toFileName } from '../services/export';
+import { LlmProvider, isAbortError } from '../services/providers';
+import RichText from './RichText';
+import Spinner from './Spinner';
+
+interface GradingPanelProps {
+  examId: string; // Library exam the sheets are graded against
+  exam: GeneratedExam;
+  variants: PaperVariant[];
+  settings: ExamSettings;
+  provider: LlmProvider;
+}
+
+const inputClassName =
+  'border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+// Question and its printed number on the set a student sat
+function getNumberedQuestions(exam: GeneratedExam, naming: SectionNaming): Map<string, { label: string; question: Question }> {
+  const numbered = new Map<string, { label: string; question: Question }>();
+  exam.sections.forEach((section, sectionIndex) =>
+    section.questions.forEach((question, index) =>
+      numbered.set(question.id, { label: `${getSectionLabel(sectionIndex, naming)} Q${index + 1}`, question }),
+    ),
+  );
+  return numbered;
+}
+
+const GradeRow: React.FC<{
+  label: string;
+  question: Question;
+  grade: QuestionGrade;
+  onOverride: (marks: number | undefined) => void;
+}> = ({ label, question, grade, onOverride }) => (
+  <tr className="border-t border-gray-200 align-top">
+    <td className="pr-2 py-2 whitespace-nowrap font-semibold">{label}</td>
+    <td className="px-1 py-2">
+      <div className="text-gray-500 text-xs mb-1 line-clamp-2"><RichText text={question.text} /></div>
+      {grade.studentAnswer ? <RichText text={grade.studentAnswer} /> : <span className="italic text-gray-400">Not answered</span>}
+    </td>
+    <td className="px-1 py-2 text-xs text-gray-700">
+      {grade.autoScored && <span className="inline-block mr-1 px-1 rounded bg-gray-100 text-gray-600">Auto</span>}
+      {grade.justification}
+    </td>
+    <td className="px-1 py-2 whitespace-nowrap text-right">
+      {grade.suggestedMarks} / {question.marks}
+    </td>
+    <td className="px-1 py-2 w-24">
+      <input
+        type="number"
+        min="0"
+        max={question.marks}
+        step="0.5"
+        value={grade.overrideMarks ?? ''}
+        placeholder={String(grade.suggestedMarks)}
+        onChange={(e) => {
+          const value = parseFloat(e.target.value);
+          onOverride(Number.isFinite(value) ? Math.min(question.marks, Math.max(0, value)) : undefined);
+        }}
+        aria-label={`Marks for ${label}`}
+        className={`${inputClassName} w-full ${grade.overrideMarks !== undefined ? 'border-blue-500 font-semibold' : ''}`}
+      />
+    </td>
+  </tr>
+);
+
+// Upload a student's completed answer sheet, review the suggested marks and export the class's scores
+const GradingPanel: React.FC<GradingPanelProps> = ({ examId, exam, variants, settings, provider }) => {
+  const [sheets, setSheets] = useState<GradedSheet[]>([]);
+  const [rosterStudentId, setRosterStudentId] = useState<string>('');
+  const [studentName, setStudentName] = useState<string>('');
+  const [rollNumber, setRollNumber] = useState<string>('');
+  const [setCode, setSetCode] = useState<string>(variants[0]?.setCode ?? 'A');
+  const [files, setFiles] = useState<File[]>([]);
+  const [grading, setGrading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importMessages, setImportMessages] = useState<string[]>([]);
+  const [openSheetId, setOpenSheetId] = useState<string | null>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    listGradedSheets(examId)
+      .then(setSheets)
+      .catch((loadError) => console.error('Failed to load graded sheets:', loadError));
+  }, [examId]);
+
+  const selectRosterStudent = (id: string) => {
+    setRosterStudentId(id);
+    const paper = assignStudentPapers(settings.roster, variants).find(({ student }) => student.id === id);
+    if (paper) {
+      setStudentName(paper.student.name);
+      setRollNumber(paper.student.rollNumber);
+      setSetCode(paper.variant.setCode);
+    }
+  };
+
+  const gradeSheet = async () => {
+    const variant = variants.find((candidate) => candidate.setCode === setCode) ?? variants[0];
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    setGrading(true);
+    setError(null);
+    try {
+      const images = await prepareSourcePages(await loadSourcePages(files));
+      const sheet = await gradeAnswerSheet(
+        images,
+        examId,
+        variant.exam,
+        settings,
+        { studentName: studentName.trim() || 'Unnamed student', rollNumber: rollNumber.trim(), setCode: variant.setCode },
+        provider,
+        abortController.signal,
+      );
+      setSheets(await listGradedSheets(examId));
+      setOpenSheetId(sheet.id);
+      setFiles([]);
+      setRosterStudentId('');
+      setStudentName('');
+      setRollNumber('');
+    } catch (err: any) {
+      if (!isAbortError(err)) {
+        console.error('Failed to grade the answer sheet:', err);
+        setError(err.message || 'Failed to grade the answer sheet. Please try again.');
+      }
+    } finally {
+      setGrading(false);
+      abortControllerRef.current = null;
+    }
+  };
+
+  const overrideMarks = async (sheet: GradedSheet, questionId: string, marks: number | undefined) => {
+    const edited: GradedSheet = {
+      ...sheet,
+      grades: sheet.grades.map((grade) => (grade.questionId === questionId ? { ...grade, overrideMarks: marks } : grade)),
+    };
+    setSheets((current) => current.map((other) => (other.id === sheet.id ? edited : other)));
+    try {
+      await updateGradedSheet(edited);
+    } catch (saveError) {
+      console.error('Failed to save the mark override:', saveError);
+      setError('Could not save the changed marks.');
+    }
+  };
+
+  const removeSheet = async (sheet: GradedSheet) => {
+    if (!window.confirm(`Delete the graded sheet of ${sheet.studentName}?`)) {
+      return;
+    }
+    try {
+      await deleteGradedSheet(sheet.id);
+      setSheets((current) => current.filter((other) => other.id !== sheet.id));
+    } catch (deleteError) {
+      console.error('Failed to delete the graded sheet:', deleteError);
+      setError('Could not delete the graded sheet.');
+    }
+  };
+
+  // Responses downloaded from the online test; choices are scored again against the set the student sat
+  const importResponses = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const responseFiles: File[] = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow the same file to be imported again
+    const messages: string[] = [];
+    for (const file of responseFiles) {
+      const { imported, errors } = parseResponsesFile(await file.text());
+      messages.push(...errors.map((message) => `${file.name}: ${message}`));
+      if (!imported) {
+        continue;
+      }
+      if (imported.examId && imported.examId !== examId) {
+        messages.push(`${file.name}: the responses are for a different paper.`);
+        continue;
+      }
+      const variant = variants.find((candidate) => candidate.setCode === imported.owner.setCode);
+      if (!variant) {
+        messages.push(`${file.name}: unknown set ${imported.owner.setCode || '(none)'}.`);
+        continue;
+      }
+      try {
+        const owner = { ...imported.owner, studentName: imported.owner.studentName || 'Unnamed student' };
+        await saveGradedSheet(examId, owner, gradeTypedAnswers(variant.exam, imported.responses));
+        messages.push(`Imported the responses of ${owner.studentName}.`);
+      } catch (saveError) {
+        console.error('Failed to save the imported responses:', saveError);
+        messages.push(`${file.name}: could not be saved.`);
+      }
+    }
+    try {
+      setSheets(await listGradedSheets(examId));
+    } catch (loadError) {
+      console.error('Failed to load graded sheets:', loadError);
+      messages.push('The graded sheets could not be reloaded.');
+    }
+    setImportMessages(messages);
+  };
+
+  const exportScores = () => {
+    const csv = createScoresCsv(sheets, exam, settings.layout.sectionNaming);
+    downloadBlob(new Blob([csv], { type: 'text/csv' }), `${toFileName(`${settings.topic} ${settings.className} scores`)}.csv`);
+  };
+
+  const totalMarks = getExamMarks(exam);
+
+  return (
+    <details className="no-print bg-white shadow-lg rounded-lg p-6 sm:p-8 w-full max-w-4xl mt-8">
+      <summary className="cursor-pointer text-2xl font-bold text-gray-800">
+        Grade Answer Sheets <span className="text-base font-normal text-gray-500">({sheets.length} graded)</span>
+      </summary>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+        {settings.roster.length > 0 && (
+          <label className="flex flex-col text-sm font-medium text-gray-700">
+            Student from roster
+            <select value={rosterStudentId} onChange={(e) => selectRosterStudent(e.target.value)} disabled={grading} className={`${inputClassName} mt-1`}>
+              <option value="">Not on the roster</option>
+              {settings.roster.map((student) => (
+                <option key={student.id} value={student.id}>
+                  {student.rollNumber ? `${student.rollNumber} – ` : ''}{student.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col text-sm font-medium text-gray-700">
+          Student name
+          <input type="text" value={studentName} onChange={(e) => setStudentName(e.target.value)} disabled={grading} className={`${inputClassName} mt-1`} />
+        </label>
+        <label className="flex flex-col text-sm font-medium text-gray-700">
+          Roll number
+          <input type="text" value={rollNumber} onChange={(e) => setRollNumber(e.target.value)} disabled={grading} className={`${inputClassName} mt-1`} />
+        </label>
+        {variants.length > 1 && (
+          <label className="flex flex-col text-sm font-medium text-gray-700">
+            Set
+            <select value={setCode} onChange={(e) => setSetCode(e.target.value)} disabled={grading} className={`${inputClassName} mt-1`}>
+              {variants.map((variant) => (
+                <option key={variant.setCode} value={variant.setCode}>{variant.setCode}</option>
+              ))}
+            </select>
+          </label>
+        )}
+        <label className="flex flex-col text-sm font-medium text-gray-700">
+          Answer sheet photos or PDF
+          <input
+            type="file"
+            accept="image/*,application/pdf"
+            multiple
+            disabled={grading}
+            onChange={(e) => setFiles(Array.from(e.target.files || []))}
+            className="mt-1 text-sm"
+          />
+        </label>
+      </div>
+
+      <div className="flex items-center gap-3 mt-4">
+        {grading ? (
+          <>
+            <Spinner />
+            <button
+              onClick={() => abortControllerRef.current?.abort()}
+              className="px-4 py-2 bg-red-600 text-white text-sm font-semibold rounded-md hover:bg-red-700 transition duration-200"
+            >
+              Cancel
+            </button>
+          </>
+        ) : (
+          <button
+            onClick={gradeSheet}
+            disabled={files.length === 0}
+            className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            Grade sheet
+          </button>
+        )}
+        <label className="px-4 py-2 bg-gray-100 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-200 transition duration-200 cursor-pointer">
+          Import online responses
+          <input type="file" accept=".json,.csv,application/json,text/csv" multiple onChange={importResponses} disabled={grading} className="hidden" />
+        </label>
+        {sheets.length > 0 && (
+          <button
+            onClick={exportScores}
+            className="px-4 py-2 bg-gray-100 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-200 transition duration-200"
+          >
+            Export scores (.csv)
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mt-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded-md text-sm" role="alert">
+          {error}
+        </div>
+      )}
+
+      {importMessages.map((message) => (
+        <p key={message} className="mt-2 text-sm text-gray-600">{message}</p>
+      ))}
+
+      <p className="mt-4 text-xs text-gray-500">
+        Multiple-choice, true/false and assertion–reason answers are scored against the answer key of the student's set. Written answers
+        get suggested marks from the marking scheme, except answers imported from the online test, which start at 0; type a mark to
+        override any suggestion.
+      </p>
+
+      <ul className="mt-4 divide-y divide-gray-200">
+        {sheets.map((sheet) => {
+          const variant = variants.find((candidate) => candidate.setCode === sheet.setCode) ?? variants[0];
+          const numbered = getNumberedQuestions(variant.exam, settings.layout.sectionNaming);
+          const isOpen = openSheetId === sheet.id;
+          return (
+            <li key={sheet.id} className="py-3">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <button onClick={() => setOpenSheetId(isOpen ? null : sheet.id)} className="text-left font-semibold text-gray-800 hover:text-blue-700">
+                  {isOpen ? '▾' : '▸'} {sheet.rollNumber ? `${sheet.rollNumber} – ` : ''}{sheet.studentName}
+                  {variants.length > 1 && <span className="ml-2 text-sm font-normal text-gray-500">Set {sheet.setCode}</span>}
+                </button>
+                <span className="flex items-center gap-3 text-sm">
+                  <span className="font-semibold">{getSheetTotal(sheet, exam)} / {formatMarks(totalMarks)}</span>
+                  <button onClick={() => removeSheet(sheet)} className="text-red-500 hover:text-red-700 underline">
+                    Delete
+                  </button>
+                </span>
+              </div>
+              {isOpen && (
+                <div className="overflow-x-auto mt-2">
+                  <table className="min-w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-gray-600">
+                        <th className="pr-2 py-1 font-medium">Question</th>
+                        <th className="px-1 py-1 font-medium">Answer</th>
+                        <th className="px-1 py-1 font-medium">Justification</th>
+                        <th className="px-1 py-1 font-medium text-right">Suggested</th>
+                        <th className="px-1 py-1 font-medium">Override</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {sheet.grades.map((grade) => {
+                        const entry = numbered.get(grade.questionId);
+                        // Questions removed from the paper after grading are no longer shown
+                        return entry ? (
+                          <GradeRow
+                            key={grade.questionId}
+                            label={entry.label}
+                            question={entry.question}
+                            grade={grade}
+                            onOverride={(marks) => overrideMarks(sheet, grade.questionId, marks)}
+                          />
+                        ) : null;
+                      })}
+                    </tbody>
+                  </table>
+                  <p className="mt-2 text-sm text-right">
+                    Total: <strong>{getSheetTotal(sheet, exam)}</strong> of {totalMarks}
+                  </p>
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </details>
+  );
+};
+
+export default GradingPanel;
@@ -0,0 +1,26 @@
+import React from 'react';
+import { LANGUAGES } from '../services/languages';
+
+interface LanguageSelectProps {
+  value: string;
+  onChange: (language: string) => void;
+  noneLabel?: string; // Offers an empty choice, e.g. "None" for the second language
+  id?: string;
+  name?: string;
+  disabled?: boolean;
+  className: string;
+}
+
+// Picks a language from the supported list, showing each in its own script
+const LanguageSelect: React.FC<LanguageSelectProps> = ({ value, onChange, noneLabel, id, name, disabled, className }) => (
+  <select id={id} name={name} value={value} onChange={(e) => onChange(e.target.value)} disabled={disabled} className={className}>
+    {noneLabel !== undefined && <option value="">{noneLabel}</option>}
+    {LANGUAGES.map((language) => (
+      <option key={language.name} value={language.name}>
+        {language.nativeName === language.name ? language.name : `${language.name} – ${language.nativeName}`}
+      </option>
+    ))}
+  </select>
+);
+
+export default LanguageSelect;
@@ -0,0 +1,99 @@
+import React from 'react';
+import { ExamSettings, GeneratedExam, RosterStudent } from '../types';
+import { getSectionLabel } from '../services/marks';
+import { getBubbleSections } from '../services/roster';
+import { getLanguage, getOptionLabel } from '../services/languages';
+import DetailRow from './DetailRow';
+import PaperBranding from './PaperBranding';
+
+interface OmrSheetProps {
+  exam: GeneratedExam;
+  settings: ExamSettings;
+  setCode?: string;
+  student?: RosterStudent; // Blank name and roll number lines when printing a generic sheet
+}
+
+const MIN_ROLL_DIGITS = 3;
+const DIGITS = ['0', '1', '2', '3', '4', '5', '6', '7', '8', '9'];
+
+const Bubble: React.FC<{ label: string }> = ({ label }) => (
+  <span className="inline-flex items-center justify-center w-6 h-6 rounded-full border border-gray-700 text-[10px] font-semibold">
+    {label}
+  </span>
+);
+
+// One column per digit: the student writes the digit in the box and fills the bubble below it
+const RollNumberGrid: React.FC<{ rollNumber: string }> = ({ rollNumber }) => {
+  const digitCount = Math.max(MIN_ROLL_DIGITS, rollNumber.length);
+  return (
+    <div className="inline-block border border-gray-700 p-2">
+      <p className="text-xs font-semibold mb-1 text-center">Roll Number</p>
+      <div className="flex gap-1">
+        {Array.from({ length: digitCount }, (_, column) => (
+          <div key={column} className="flex flex-col items-center gap-1">
+            <span className="w-6 h-6 border border-gray-700 text-sm text-center leading-6">{rollNumber[column] ?? ''}</span>
+            {DIGITS.map((digit) => (
+              <Bubble key={digit} label={digit} />
+            ))}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Bubble answer sheet for the lettered-option questions, numbered by section exactly as in ExamPaper
+const OmrSheet: React.FC<OmrSheetProps> = ({ exam, settings, setCode, student }) => {
+  const bubbleSections = getBubbleSections(exam);
+  // Bubbles carry the paper's option labels; the sheet itself stays left to right like a scanner expects
+  const language = getLanguage(settings.language);
+  return (
+    <div className="exam-paper-container bg-white shadow-lg p-8 md:p-12 print:p-0" style={{ fontFamily: language.fontFamily }}>
+      {/* Header */}
+      <div className="border-b-2 border-gray-300 pb-4 mb-6 text-center">
+        <PaperBranding layout={settings.layout} />
+        <h1 className="text-2xl font-extrabold text-gray-800 mb-2">OMR Answer Sheet</h1>
+        <DetailRow label="Topic" value={settings.topic} />
+        <DetailRow label="Class" value={settings.className} />
+        {setCode && <DetailRow label="Set" value={setCode} />}
+        <DetailRow label="Student" value={student?.name || '____________________'} />
+        <DetailRow label="Roll No." value={student?.rollNumber || '__________'} />
+      </div>
+
+      <div className="flex flex-wrap gap-8 items-start">
+        <RollNumberGrid rollNumber={student?.rollNumber || ''} />
+        <ul className="text-sm list-disc pl-5 space-y-1 flex-1 min-w-[12rem]">
+          <li>Use a dark blue or black pen.</li>
+          <li>Fill exactly one bubble per question, completely.</li>
+          <li>Do not make stray marks on this sheet.</li>
+        </ul>
+      </div>
+
+      {bubbleSections.length === 0 && (
+        <p className="mt-6 text-sm text-gray-600">This paper has no multiple-choice questions to answer on this sheet.</p>
+      )}
+
+      {bubbleSections.map(({ section, sectionIndex }) => (
+        <section key={section.id} className="mt-6">
+          <h2 className="text-lg font-bold mb-3">
+            {getSectionLabel(sectionIndex, settings.layout.sectionNaming)} – {section.title}
+          </h2>
+          <div className="grid grid-cols-2 sm:grid-cols-3 print:grid-cols-3 gap-x-8 gap-y-2">
+            {section.questions.map((question, index) =>
+              question.options?.length ? (
+                <div key={question.id} className="flex items-center gap-1">
+                  <span className="w-8 text-right text-sm font-semibold mr-1">{index + 1}.</span>
+                  {question.options.map((_, optionIndex) => (
+                    <Bubble key={optionIndex} label={getOptionLabel(optionIndex, language)} />
+                  ))}
+                </div>
+              ) : null,
+            )}
+          </div>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default OmrSheet;
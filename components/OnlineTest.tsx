@@ -0,0 +1,501 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { ExamSettings, OnlineAttempt, PaperVariant, Question, QuestionGrade } from '../types';
+import { OPTION_LABELS, TRUE_FALSE_ANSWERS } from '../services/examSchema';
+import { getLetterLabel, getMatchColumnB, getMatchLeftLabel, getOptionLabelFor } from '../services/questionFormats';
+import { Language, getLanguage, getOptionLabel, getScriptProps, loadLanguageFonts } from '../services/languages';
+import { formatMarks, getExamMarks, getSectionLabel } from '../services/marks';
+import { gradeTypedAnswers } from '../services/grading';
+import { assignStudentPapers } from '../services/roster';
+import { getGeneralInstructions } from '../services/templates';
+import {
+  clearAttempt,
+  createAttempt,
+  createResponsesCsv,
+  createResponsesJson,
+  formatTimeLeft,
+  getAnswerKey,
+  getDeadline,
+  getResponses,
+  loadAttempt,
+  saveAttempt,
+} from '../services/onlineTest';
+import { downloadBlob, toFileName } from '../services/export';
+import DetailRow from './DetailRow';
+import RichText from './RichText';
+
+interface OnlineTestProps {
+  examId: string; // Library exam the attempt belongs to
+  variants: PaperVariant[];
+  settings: ExamSettings;
+  onClose: () => void;
+}
+
+// The clock turns red for the last few minutes
+const TIME_WARNING_MS = 5 * 60 * 1000;
+
+const inputClassName =
+  'border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+interface QuestionFieldProps {
+  question: Question;
+  answers: Record<string, string>;
+  labels: Language;
+  onAnswer: (key: string, value: string) => void;
+}
+
+// The question as printed, with the control the student answers it with
+const QuestionField: React.FC<QuestionFieldProps> = ({ question, answers, labels, onAnswer }) => {
+  const choices =
+    question.type === 'trueFalse'
+      ? TRUE_FALSE_ANSWERS.map((answer) => ({ value: answer, label: answer }))
+      : (question.options || []).map((option, index) => ({ value: OPTION_LABELS[index], label: `${getOptionLabel(index, labels)}) ${option}` }));
+  const columnB = question.matchPairs ? getMatchColumnB(question.matchPairs) : [];
+
+  return (
+    <li className="space-y-2">
+      <div className="flex justify-between gap-4">
+        <div>
+          {question.type === 'assertionReason' && <strong>Assertion (A): </strong>}
+          <RichText text={question.text} />
+        </div>
+        <span className="text-sm font-semibold whitespace-nowrap">[{formatMarks(question.marks)}]</span>
+      </div>
+      {question.diagram?.dataUrl && (
+        <img src={question.diagram.dataUrl} alt="Diagram for this question" className="max-w-full max-h-72 border border-gray-200" />
+      )}
+      {question.reason && (
+        <div>
+          <strong>Reason (R): </strong>
+          <RichText text={question.reason} />
+        </div>
+      )}
+
+      {(question.type === 'mcq' || question.type === 'assertionReason' || question.type === 'trueFalse') && (
+        <div className="space-y-1">
+          {choices.map((choice) => (
+            <label key={choice.value} className="flex items-start gap-2 cursor-pointer">
+              <input
+                type="radio"
+                name={question.id}
+                value={choice.value}
+                checked={answers[question.id] === choice.value}
+                onChange={() => onAnswer(question.id, choice.value)}
+                className="mt-1"
+              />
+              <RichText text={choice.label} />
+            </label>
+          ))}
+        </div>
+      )}
+
+      {question.type === 'fillBlank' && (
+        <input
+          type="text"
+          value={answers[question.id] || ''}
+          onChange={(e) => onAnswer(question.id, e.target.value)}
+          placeholder="Missing word(s); separate several with semicolons"
+          aria-label="Your answer"
+          className={`${inputClassName} w-full`}
+        />
+      )}
+
+      {question.matchPairs && (
+        <table className="w-full border-collapse text-start text-sm">
+          <tbody>
+            {question.matchPairs.map((pair, index) => (
+              <tr key={index}>
+                <td className="border border-gray-300 px-2 py-1">
+                  {getMatchLeftLabel(index)} <RichText text={pair.left} />
+                </td>
+                <td className="border border-gray-300 px-2 py-1">
+                  <select
+                    value={answers[getAnswerKey(question.id, index)] || ''}
+                    onChange={(e) => onAnswer(getAnswerKey(question.id, index), e.target.value)}
+                    aria-label={`Match for ${getMatchLeftLabel(index)}`}
+                    className={`${inputClassName} w-full`}
+                  >
+                    <option value="">Choose from Column B</option>
+                    {columnB.map((right, rightIndex) => (
+                      <option key={rightIndex} value={String(rightIndex)}>
+                        {getLetterLabel(rightIndex, labels)} {right}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {question.subQuestions && (
+        <ol className="space-y-2">
+          {question.subQuestions.map((sub, index) => (
+            <li key={index}>
+              <div className="flex justify-between gap-4">
+                <div>{getLetterLabel(index, labels)} <RichText text={sub.text} /></div>
+                <span className="text-sm whitespace-nowrap">[{formatMarks(sub.marks)}]</span>
+              </div>
+              <textarea
+                value={answers[getAnswerKey(question.id, index)] || ''}
+                onChange={(e) => onAnswer(getAnswerKey(question.id, index), e.target.value)}
+                rows={3}
+                aria-label={`Answer to part ${getLetterLabel(index, labels)}`}
+                className={`${inputClassName} w-full mt-1`}
+              />
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {(question.type === 'short' || question.type === 'long') && !question.subQuestions && (
+        <textarea
+          value={answers[question.id] || ''}
+          onChange={(e) => onAnswer(question.id, e.target.value)}
+          rows={question.type === 'long' ? 8 : 4}
+          aria-label="Your answer"
+          className={`${inputClassName} w-full`}
+        />
+      )}
+    </li>
+  );
+};
+
+// A chosen letter with its option, as the answer key shows it
+function describeAnswer(question: Question, answer: string, labels: Language): string {
+  const optionIndex = OPTION_LABELS.indexOf(answer);
+  if (question.options && optionIndex >= 0) {
+    return `${getOptionLabelFor(answer, labels)}) ${question.options[optionIndex]}`;
+  }
+  return answer;
+}
+
+// Right or wrong without the correct answer: the attempt stays on a shared device, where the next
+// student taking the same set would otherwise find the key
+const ResultRow: React.FC<{ label: string; question: Question; grade: QuestionGrade; labels: Language }> = ({ label, question, grade, labels }) => {
+  const correct = grade.autoScored && grade.suggestedMarks > 0;
+  return (
+    <tr className="border-t border-gray-200 align-top">
+      <td className="pr-2 py-2 whitespace-nowrap font-semibold">{label}</td>
+      <td className="px-1 py-2">
+        <div className="text-gray-500 text-xs mb-1 line-clamp-2"><RichText text={question.text} /></div>
+        {grade.studentAnswer ? (
+          <div className="whitespace-pre-wrap"><RichText text={describeAnswer(question, grade.studentAnswer, labels)} /></div>
+        ) : (
+          <span className="italic text-gray-400">Not answered</span>
+        )}
+      </td>
+      <td className="px-1 py-2 text-xs">
+        {grade.autoScored ? (
+          correct ? (
+            <span className="text-green-700 font-semibold">✓ Correct</span>
+          ) : (
+            <span className="text-red-700">✗ Incorrect</span>
+          )
+        ) : (
+          <span className="text-gray-600">Awaiting marking</span>
+        )}
+      </td>
+      <td className="px-1 py-2 whitespace-nowrap text-right">
+        {grade.autoScored ? grade.suggestedMarks : '–'} / {formatMarks(question.marks)}
+      </td>
+    </tr>
+  );
+};
+
+// Takes the paper as an interactive form against the clock. Answers are saved in the browser as they
+// are typed, the test is submitted when time runs out, and choice questions are scored straight away.
+const OnlineTest: React.FC<OnlineTestProps> = ({ examId, variants, settings, onClose }) => {
+  const language = getLanguage(settings.language);
+  const [attempt, setAttempt] = useState<OnlineAttempt | null>(() => loadAttempt(examId));
+  const [rosterStudentId, setRosterStudentId] = useState<string>('');
+  const [studentName, setStudentName] = useState<string>('');
+  const [rollNumber, setRollNumber] = useState<string>('');
+  const [setCode, setSetCode] = useState<string>(variants[0]?.setCode ?? 'A');
+  const [now, setNow] = useState<number>(Date.now);
+
+  // An attempt whose set is no longer printed cannot be shown or scored against another set
+  const variant = attempt ? variants.find((candidate) => candidate.setCode === attempt.setCode) : undefined;
+  const running = attempt !== null && !attempt.submittedAt;
+  const timeLeft = attempt ? getDeadline(attempt) - now : 0;
+
+  useEffect(() => {
+    loadLanguageFonts([language]);
+  }, [language]);
+
+  // Autosave, so a closed tab or a crash does not lose the answers
+  useEffect(() => {
+    if (attempt) {
+      saveAttempt(attempt);
+    }
+  }, [attempt]);
+
+  useEffect(() => {
+    if (!running) {
+      return;
+    }
+    const timer = window.setInterval(() => setNow(Date.now()), 1000);
+    return () => window.clearInterval(timer);
+  }, [running]);
+
+  // A test reopened after its deadline counts as submitted at the deadline
+  const submit = useCallback((timedOut: boolean) => {
+    setAttempt((current) =>
+      current && !current.submittedAt
+        ? { ...current, submittedAt: timedOut ? Math.min(Date.now(), getDeadline(current)) : Date.now(), ...(timedOut ? { timedOut } : {}) }
+        : current,
+    );
+  }, []);
+
+  useEffect(() => {
+    if (running && timeLeft <= 0) {
+      submit(true);
+    }
+  }, [running, timeLeft, submit]);
+
+  const setAnswer = (key: string, value: string) => {
+    setAttempt((current) => (current && !current.submittedAt ? { ...current, answers: { ...current.answers, [key]: value } } : current));
+  };
+
+  const selectRosterStudent = (id: string) => {
+    setRosterStudentId(id);
+    const paper = assignStudentPapers(settings.roster, variants).find(({ student }) => student.id === id);
+    if (paper) {
+      setStudentName(paper.student.name);
+      setRollNumber(paper.student.rollNumber);
+      setSetCode(paper.variant.setCode);
+    }
+  };
+
+  const start = () => {
+    const owner = { studentName: studentName.trim() || 'Unnamed student', rollNumber: rollNumber.trim(), setCode };
+    setNow(Date.now());
+    setAttempt(createAttempt(examId, owner, settings.duration));
+  };
+
+  const confirmSubmit = () => {
+    if (window.confirm('Submit your answers? You cannot change them afterwards.')) {
+      submit(false);
+    }
+  };
+
+  const startOver = () => {
+    if (window.confirm('Start a new attempt? Download the responses first if you still need them.')) {
+      clearAttempt(examId);
+      setAttempt(null);
+    }
+  };
+
+  const close = () => {
+    if (!running || window.confirm('Leave the test? Your answers stay saved on this device, but the clock keeps running.')) {
+      onClose();
+    }
+  };
+
+  const downloadResponses = (format: 'json' | 'csv') => {
+    if (!attempt || !variant) {
+      return;
+    }
+    const fileName = toFileName(`${settings.topic} ${attempt.rollNumber || attempt.studentName} responses`);
+    const blob =
+      format === 'json'
+        ? new Blob([createResponsesJson(variant.exam, attempt, language)], { type: 'application/json' })
+        : new Blob([createResponsesCsv(variant.exam, attempt, language, settings.layout.sectionNaming)], { type: 'text/csv' });
+    downloadBlob(blob, `${fileName}.${format}`);
+  };
+
+  const title = settings.layout.title || settings.topic;
+  const generalInstructions = getGeneralInstructions(settings.layout);
+
+  let content: React.ReactNode;
+  if (attempt && !variant) {
+    content = (
+      <div className="bg-white shadow-lg rounded-lg p-6 sm:p-8">
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">{title}</h2>
+        <p className="text-red-700">
+          The saved attempt of {attempt.studentName} is for Set {attempt.setCode}, which this paper no longer has. It cannot be shown or scored.
+        </p>
+        <button onClick={startOver} className="mt-4 px-4 py-2 text-sm text-red-500 hover:text-red-700 underline">
+          Start a new attempt
+        </button>
+      </div>
+    );
+  } else if (!attempt || !variant) {
+    content = (
+      <div className="bg-white shadow-lg rounded-lg p-6 sm:p-8">
+        <h2 className="text-2xl font-bold text-gray-800 mb-4">{title}</h2>
+        <DetailRow label="Topic" value={settings.topic} />
+        <DetailRow label="Total Marks" value={settings.totalMarks} />
+        <DetailRow label="Duration" value={`${settings.duration} minutes`} />
+        {generalInstructions.length > 0 && (
+          <ol className="list-decimal ps-6 text-sm space-y-1 mt-4">
+            {generalInstructions.map((instruction, index) => (
+              <li key={index}>{instruction}</li>
+            ))}
+          </ol>
+        )}
+        <p className="mt-4 text-sm text-gray-600">
+          The clock starts when you press Start and the test is submitted automatically when it runs out. Answers are saved on this device as you go.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+          {settings.roster.length > 0 && (
+            <label className="flex flex-col text-sm font-medium text-gray-700">
+              Student from roster
+              <select value={rosterStudentId} onChange={(e) => selectRosterStudent(e.target.value)} className={`${inputClassName} mt-1`}>
+                <option value="">Not on the roster</option>
+                {settings.roster.map((student) => (
+                  <option key={student.id} value={student.id}>
+                    {student.rollNumber ? `${student.rollNumber} – ` : ''}{student.name}
+                  </option>
+                ))}
+              </select>
+            </label>
+          )}
+          <label className="flex flex-col text-sm font-medium text-gray-700">
+            Student name
+            <input type="text" value={studentName} onChange={(e) => setStudentName(e.target.value)} className={`${inputClassName} mt-1`} />
+          </label>
+          <label className="flex flex-col text-sm font-medium text-gray-700">
+            Roll number
+            <input type="text" value={rollNumber} onChange={(e) => setRollNumber(e.target.value)} className={`${inputClassName} mt-1`} />
+          </label>
+          {variants.length > 1 && (
+            <label className="flex flex-col text-sm font-medium text-gray-700">
+              Set
+              <select value={setCode} onChange={(e) => setSetCode(e.target.value)} className={`${inputClassName} mt-1`}>
+                {variants.map((candidate) => (
+                  <option key={candidate.setCode} value={candidate.setCode}>{candidate.setCode}</option>
+                ))}
+              </select>
+            </label>
+          )}
+        </div>
+        <button
+          onClick={start}
+          disabled={settings.duration <= 0}
+          className="mt-6 px-6 py-3 bg-green-600 text-white font-semibold rounded-md shadow-md hover:bg-green-700 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Start
+        </button>
+      </div>
+    );
+  } else if (running) {
+    content = (
+      <>
+        <div className="sticky top-0 z-10 bg-white shadow-md rounded-lg px-6 py-3 mb-4 flex flex-wrap items-center justify-between gap-3">
+          <span className="text-sm text-gray-700">
+            {attempt.rollNumber ? `${attempt.rollNumber} – ` : ''}{attempt.studentName}
+            {variants.length > 1 && <span className="ms-2 text-gray-500">Set {attempt.setCode}</span>}
+          </span>
+          <span
+            className={`text-2xl font-mono font-bold ${timeLeft <= TIME_WARNING_MS ? 'text-red-600' : 'text-gray-800'}`}
+            role="timer"
+            aria-label="Time left"
+          >
+            {formatTimeLeft(timeLeft)}
+          </span>
+          <button
+            onClick={confirmSubmit}
+            className="px-4 py-2 bg-green-600 text-white font-semibold rounded-md hover:bg-green-700 transition duration-200"
+          >
+            Submit
+          </button>
+        </div>
+        <div className="bg-white shadow-lg rounded-lg p-6 sm:p-8" {...getScriptProps(language)}>
+          <h2 className="text-2xl font-bold text-gray-800 mb-4">{title}</h2>
+          {variant.exam.sections.map((section, index) => (
+            <section key={section.id}>
+              <h3 className="text-xl font-bold mt-6 mb-4">
+                {getSectionLabel(index, settings.layout.sectionNaming)} – {section.title}
+              </h3>
+              {section.instructions && <p className="italic mb-2">{section.instructions}</p>}
+              <ol className="ps-6 space-y-6" style={{ listStyleType: language.listStyle }}>
+                {section.questions.map((question) => (
+                  <QuestionField key={question.id} question={question} answers={attempt.answers} labels={language} onAnswer={setAnswer} />
+                ))}
+              </ol>
+            </section>
+          ))}
+        </div>
+      </>
+    );
+  } else {
+    const grades = gradeTypedAnswers(variant.exam, getResponses(variant.exam, attempt, language));
+    const scored = grades.filter((grade) => grade.autoScored);
+    const questions = new Map<string, Question>(variant.exam.sections.flatMap((section) => section.questions).map((question) => [question.id, question]));
+    const scoredMarks = scored.reduce((total, grade) => total + grade.suggestedMarks, 0);
+    const scoredOutOf = scored.reduce((total, grade) => total + (questions.get(grade.questionId)?.marks || 0), 0);
+    const pendingOutOf = getExamMarks(variant.exam) - scoredOutOf;
+    content = (
+      <div className="bg-white shadow-lg rounded-lg p-6 sm:p-8">
+        <h2 className="text-2xl font-bold text-gray-800 mb-2">Results</h2>
+        <p className="text-sm text-gray-600">
+          {attempt.rollNumber ? `${attempt.rollNumber} – ` : ''}{attempt.studentName}
+          {variants.length > 1 && `, Set ${attempt.setCode}`}. Submitted {new Date(attempt.submittedAt!).toLocaleString()}
+          {attempt.timedOut && ' automatically when the time ran out'}.
+        </p>
+        <p className="mt-4 text-lg">
+          Auto-scored: <strong>{formatMarks(scoredMarks)}</strong> of {formatMarks(scoredOutOf)}
+        </p>
+        {pendingOutOf > 0 && (
+          <p className="text-sm text-gray-600">Written answers worth {formatMarks(pendingOutOf)} more are marked by the teacher.</p>
+        )}
+        <div className="flex flex-wrap gap-2 mt-4">
+          <button onClick={() => downloadResponses('json')} className="px-4 py-2 bg-gray-100 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-200 transition duration-200">
+            Download responses (.json)
+          </button>
+          <button onClick={() => downloadResponses('csv')} className="px-4 py-2 bg-gray-100 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-200 transition duration-200">
+            Download responses (.csv)
+          </button>
+          <button onClick={startOver} className="px-4 py-2 text-sm text-red-500 hover:text-red-700 underline">
+            Start a new attempt
+          </button>
+        </div>
+        <div className="overflow-x-auto mt-4" {...getScriptProps(language)}>
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-start text-gray-600">
+                <th className="pr-2 py-1 font-medium text-start">Question</th>
+                <th className="px-1 py-1 font-medium text-start">Your answer</th>
+                <th className="px-1 py-1 font-medium text-start">Result</th>
+                <th className="px-1 py-1 font-medium text-end">Marks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {variant.exam.sections.flatMap((section, sectionIndex) =>
+                section.questions.map((question, index) => {
+                  const grade = grades.find((candidate) => candidate.questionId === question.id);
+                  return grade ? (
+                    <ResultRow
+                      key={question.id}
+                      label={`${getSectionLabel(sectionIndex, settings.layout.sectionNaming)} Q${index + 1}`}
+                      question={question}
+                      grade={grade}
+                      labels={language}
+                    />
+                  ) : null;
+                }),
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="no-print fixed inset-0 z-50 overflow-y-auto bg-gray-100 py-8 px-4" role="dialog" aria-modal="true" aria-label="Online test">
+      <div className="w-full max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h1 className="text-2xl font-extrabold text-gray-900">Online Test</h1>
+          <button onClick={close} className="text-sm text-gray-600 hover:text-gray-800 underline">
+            Close
+          </button>
+        </div>
+        {content}
+      </div>
+    </div>
+  );
+};
+
+export default OnlineTest;
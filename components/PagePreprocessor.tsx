@@ -0,0 +1,203 @@
+import React, { useEffect, useState } from 'react';
+import { CropRegion, PageRotation, SourcePage } from '../types';
+import { FULL_PAGE, renderSourcePage } from '../services/pagePreparation';
+
+interface PagePreprocessorProps {
+  pages: SourcePage[];
+  onChange: (pages: SourcePage[]) => void;
+}
+
+const REGION_FIELDS: { key: keyof CropRegion; label: string }[] = [
+  { key: 'x', label: 'Left %' },
+  { key: 'y', label: 'Top %' },
+  { key: 'width', label: 'Width %' },
+  { key: 'height', label: 'Height %' },
+];
+
+const PREVIEW_SIZE = 320;
+
+const cellInputClassName =
+  'w-16 border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+const smallButtonClassName =
+  'px-2 py-1 bg-gray-100 text-gray-800 text-xs font-semibold rounded-md hover:bg-gray-200 disabled:opacity-50';
+
+// Shows the rotated, deskewed and contrast-adjusted page with the crop outlined on top
+const PagePreview: React.FC<{ page: SourcePage }> = ({ page }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const { original, rotation, deskew, contrast } = page;
+
+  // Cropping only moves the outline, so it does not need a new render
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    renderSourcePage(page, PREVIEW_SIZE, 0.7, FULL_PAGE)
+      .then((blob) => {
+        if (!cancelled) {
+          objectUrl = URL.createObjectURL(blob);
+          setPreviewUrl(objectUrl);
+        }
+      })
+      .catch((error) => console.error('Failed to render page preview:', error));
+    return () => {
+      cancelled = true;
+      if (objectUrl) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    };
+  }, [original, rotation, deskew, contrast]);
+
+  if (!previewUrl) {
+    return <div className="w-full aspect-[3/4] bg-gray-100 rounded-md" />;
+  }
+  return (
+    <div className="relative">
+      <img src={previewUrl} alt={page.name} className="w-full rounded-md border border-gray-200" />
+      <div
+        className="absolute border-2 border-blue-500 bg-blue-500/10 pointer-events-none"
+        style={{
+          left: `${page.crop.x * 100}%`,
+          top: `${page.crop.y * 100}%`,
+          width: `${page.crop.width * 100}%`,
+          height: `${page.crop.height * 100}%`,
+        }}
+      />
+    </div>
+  );
+};
+
+// Clean-up step between upload and generation: order, include, rotate, deskew, crop and contrast per page
+const PagePreprocessor: React.FC<PagePreprocessorProps> = ({ pages, onChange }) => {
+  const updatePage = (id: string, changes: Partial<SourcePage>) => {
+    onChange(pages.map((page) => (page.id === id ? { ...page, ...changes } : page)));
+  };
+
+  const movePage = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= pages.length) {
+      return;
+    }
+    const reordered = [...pages];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    onChange(reordered);
+  };
+
+  const rotatePage = (page: SourcePage, quarterTurns: number) => {
+    updatePage(page.id, { rotation: (((page.rotation + quarterTurns * 90) % 360) + 360) % 360 as PageRotation, crop: FULL_PAGE });
+  };
+
+  const updateCrop = (page: SourcePage, key: keyof CropRegion, value: string) => {
+    const crop = { ...page.crop, [key]: Math.min(100, Math.max(0, parseFloat(value) || 0)) / 100 };
+    // Keep the crop on the page whatever was typed
+    crop.width = Math.max(0.05, Math.min(crop.width, 1 - crop.x));
+    crop.height = Math.max(0.05, Math.min(crop.height, 1 - crop.y));
+    updatePage(page.id, { crop });
+  };
+
+  const includedCount = pages.filter((page) => page.included).length;
+
+  return (
+    <div className="mt-4 text-left">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <p className="text-gray-700 text-sm">
+          {includedCount} of {pages.length} page(s) included. Pages are downscaled and compressed before they are sent.
+        </p>
+        <div className="flex gap-2">
+          <button onClick={() => onChange(pages.map((page) => ({ ...page, included: true })))} className={smallButtonClassName}>
+            Include all
+          </button>
+          <button onClick={() => onChange(pages.map((page) => ({ ...page, included: false })))} className={smallButtonClassName}>
+            Include none
+          </button>
+        </div>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+        {pages.map((page, index) => (
+          <div
+            key={page.id}
+            className={`border rounded-md p-3 space-y-2 ${page.included ? 'border-gray-300' : 'border-gray-200 opacity-60'}`}
+          >
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-sm text-gray-800 min-w-0">
+                <input
+                  type="checkbox"
+                  checked={page.included}
+                  onChange={(e) => updatePage(page.id, { included: e.target.checked })}
+                />
+                <span className="truncate">{index + 1}. {page.name}</span>
+              </label>
+              <button
+                onClick={() => onChange(pages.filter((candidate) => candidate.id !== page.id))}
+                className="text-xs text-red-500 hover:text-red-700 underline"
+              >
+                Remove
+              </button>
+            </div>
+            <PagePreview page={page} />
+            <div className="flex flex-wrap gap-1">
+              <button onClick={() => movePage(index, -1)} disabled={index === 0} className={smallButtonClassName} title="Move earlier">
+                ↑
+              </button>
+              <button onClick={() => movePage(index, 1)} disabled={index === pages.length - 1} className={smallButtonClassName} title="Move later">
+                ↓
+              </button>
+              <button onClick={() => rotatePage(page, -1)} className={smallButtonClassName} title="Rotate left">
+                ⟲
+              </button>
+              <button onClick={() => rotatePage(page, 1)} className={smallButtonClassName} title="Rotate right">
+                ⟳
+              </button>
+              <button
+                onClick={() => updatePage(page.id, { rotation: 0, deskew: 0, contrast: 1, crop: FULL_PAGE })}
+                className={smallButtonClassName}
+              >
+                Reset
+              </button>
+            </div>
+            <label className="block text-xs text-gray-600">
+              Deskew {page.deskew}°
+              <input
+                type="range"
+                min="-15"
+                max="15"
+                step="0.5"
+                value={page.deskew}
+                onChange={(e) => updatePage(page.id, { deskew: parseFloat(e.target.value) })}
+                className="w-full"
+              />
+            </label>
+            <label className="block text-xs text-gray-600">
+              Contrast {Math.round(page.contrast * 100)}%
+              <input
+                type="range"
+                min="50"
+                max="200"
+                step="5"
+                value={Math.round(page.contrast * 100)}
+                onChange={(e) => updatePage(page.id, { contrast: parseInt(e.target.value, 10) / 100 })}
+                className="w-full"
+              />
+            </label>
+            <div className="flex flex-wrap gap-2 text-xs text-gray-600">
+              {REGION_FIELDS.map(({ key, label }) => (
+                <label key={key} className="flex flex-col">
+                  {label}
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={Math.round(page.crop[key] * 100)}
+                    onChange={(e) => updateCrop(page, key, e.target.value)}
+                    className={cellInputClassName}
+                  />
+                </label>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default PagePreprocessor;
@@ -0,0 +1,17 @@
+import React from 'react';
+import { PaperLayout } from '../types';
+
+// School logo and name above a paper's title, from the paper's template
+const PaperBranding: React.FC<{ layout: PaperLayout }> = ({ layout }) => {
+  if (!layout.logo && !layout.schoolName) {
+    return null;
+  }
+  return (
+    <div className="flex items-center justify-center gap-4 mb-2">
+      {layout.logo && <img src={layout.logo.dataUrl} alt="School logo" className="max-h-16 max-w-[6rem] object-contain" />}
+      {layout.schoolName && <p className="text-xl font-bold text-gray-800">{layout.schoolName}</p>}
+    </div>
+  );
+};
+
+export default PaperBranding;
@@ -0,0 +1,198 @@
+import React, { useState } from 'react';
+import { HeaderField, PaperLayout, SectionNaming } from '../types';
+import { SECTION_NAMING_LABELS } from '../services/marks';
+import { createHeaderField } from '../services/templates';
+import { createLogo } from '../services/imageUtils';
+
+interface PaperLayoutEditorProps {
+  layout: PaperLayout;
+  onChange: (layout: PaperLayout) => void;
+}
+
+// Header lines most schools add; each can be renamed or removed once added
+const SUGGESTED_FIELDS = ['Section', 'Date', "Invigilator's Signature"];
+
+const SECTION_NAMINGS = Object.keys(SECTION_NAMING_LABELS) as SectionNaming[];
+
+const inputClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const cellInputClassName =
+  'w-full border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+// School branding, header lines, general instructions, section names and footer of the printed paper
+const PaperLayoutEditor: React.FC<PaperLayoutEditorProps> = ({ layout, onChange }) => {
+  const [logoError, setLogoError] = useState<string | null>(null);
+
+  const update = (changes: Partial<PaperLayout>) => onChange({ ...layout, ...changes });
+
+  const updateField = (id: string, changes: Partial<HeaderField>) => {
+    update({ headerFields: layout.headerFields.map((field) => (field.id === id ? { ...field, ...changes } : field)) });
+  };
+
+  const handleLogoUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow the same file to be chosen again
+    if (!file) {
+      return;
+    }
+    try {
+      setLogoError(null);
+      update({ logo: await createLogo(file) });
+    } catch (err) {
+      console.error('Failed to read the logo:', err);
+      setLogoError('The logo could not be read. Choose a PNG or JPEG image.');
+    }
+  };
+
+  const { logo, ...withoutLogo } = layout;
+  const unusedSuggestions = SUGGESTED_FIELDS.filter((label) => !layout.headerFields.some((field) => field.label === label));
+
+  return (
+    <details className="mb-6 border border-gray-200 rounded-md p-4">
+      <summary className="cursor-pointer text-sm font-medium text-gray-700">Paper layout &amp; branding</summary>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+        <div className="flex flex-col">
+          <label htmlFor="schoolName" className="text-sm font-medium text-gray-700 mb-1">School Name</label>
+          <input
+            type="text"
+            id="schoolName"
+            value={layout.schoolName}
+            onChange={(e) => update({ schoolName: e.target.value })}
+            placeholder="Optional"
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label htmlFor="paperTitle" className="text-sm font-medium text-gray-700 mb-1">Paper Title</label>
+          <input
+            type="text"
+            id="paperTitle"
+            value={layout.title}
+            onChange={(e) => update({ title: e.target.value })}
+            placeholder="e.g. Half-Yearly Examination"
+            className={inputClassName}
+          />
+        </div>
+        <div className="flex flex-col">
+          <label htmlFor="sectionNaming" className="text-sm font-medium text-gray-700 mb-1">Section Names</label>
+          <select
+            id="sectionNaming"
+            value={layout.sectionNaming}
+            onChange={(e) => update({ sectionNaming: e.target.value as SectionNaming })}
+            className={inputClassName}
+          >
+            {SECTION_NAMINGS.map((naming) => (
+              <option key={naming} value={naming}>{SECTION_NAMING_LABELS[naming]}</option>
+            ))}
+          </select>
+        </div>
+        <div className="flex flex-col">
+          <label htmlFor="footerText" className="text-sm font-medium text-gray-700 mb-1">Footer</label>
+          <input
+            type="text"
+            id="footerText"
+            value={layout.footerText}
+            onChange={(e) => update({ footerText: e.target.value })}
+            placeholder="Leave empty for no footer"
+            className={inputClassName}
+          />
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-wrap items-center gap-3">
+        <span className="text-sm font-medium text-gray-700">Logo</span>
+        {logo && <img src={logo.dataUrl} alt="School logo" className="max-h-12 border border-gray-200" />}
+        <label className="px-3 py-1 bg-gray-100 text-gray-800 text-sm rounded-md hover:bg-gray-200 transition duration-200 cursor-pointer">
+          {logo ? 'Replace' : 'Upload'}
+          <input type="file" accept="image/*" onChange={handleLogoUpload} className="hidden" />
+        </label>
+        {logo && (
+          <button onClick={() => onChange(withoutLogo)} className="text-sm text-red-500 hover:text-red-700 underline">
+            Remove logo
+          </button>
+        )}
+      </div>
+      {logoError && <p className="mt-1 text-sm text-red-600">{logoError}</p>}
+
+      <div className="mt-4">
+        <span className="text-sm font-medium text-gray-700">Extra header lines</span>
+        {layout.headerFields.length > 0 && (
+          <table className="min-w-full text-sm mt-1">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="pr-2 py-1 font-medium">Label</th>
+                <th className="px-1 py-1 font-medium">Value</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {layout.headerFields.map((field) => (
+                <tr key={field.id}>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="text"
+                      value={field.label}
+                      onChange={(e) => updateField(field.id, { label: e.target.value })}
+                      aria-label="Header line label"
+                      className={cellInputClassName}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <input
+                      type="text"
+                      value={field.value}
+                      onChange={(e) => updateField(field.id, { value: e.target.value })}
+                      placeholder="Blank line to write on"
+                      aria-label={`${field.label || 'Header line'} value`}
+                      className={cellInputClassName}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <button
+                      onClick={() => update({ headerFields: layout.headerFields.filter((other) => other.id !== field.id) })}
+                      className="text-red-500 hover:text-red-700 underline"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+        <div className="mt-2 flex flex-wrap gap-2">
+          {unusedSuggestions.map((label) => (
+            <button
+              key={label}
+              onClick={() => update({ headerFields: [...layout.headerFields, createHeaderField(label)] })}
+              className="px-3 py-1 bg-gray-100 text-gray-800 text-sm rounded-md hover:bg-gray-200 transition duration-200"
+            >
+              + {label}
+            </button>
+          ))}
+          <button
+            onClick={() => update({ headerFields: [...layout.headerFields, createHeaderField()] })}
+            className="px-3 py-1 bg-gray-100 text-gray-800 text-sm rounded-md hover:bg-gray-200 transition duration-200"
+          >
+            + Other line
+          </button>
+        </div>
+      </div>
+
+      <div className="mt-4 flex flex-col">
+        <label htmlFor="generalInstructions" className="text-sm font-medium text-gray-700 mb-1">General Instructions (one per line)</label>
+        <textarea
+          id="generalInstructions"
+          value={layout.generalInstructions.join('\n')}
+          onChange={(e) => update({ generalInstructions: e.target.value.split('\n') })}
+          rows={4}
+          placeholder={'All questions are compulsory.\nMarks are shown against each question.'}
+          className={inputClassName}
+        />
+      </div>
+    </details>
+  );
+};
+
+export default PaperLayoutEditor;
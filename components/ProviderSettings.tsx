@@ -0,0 +1,85 @@
+import React from 'react';
+import { PROVIDER_DEFAULTS, PROVIDER_LABELS, ProviderConfig, ProviderId } from '../services/providers';
+
+interface ProviderSettingsProps {
+  config: ProviderConfig;
+  onChange: (config: ProviderConfig) => void;
+}
+
+const inputClassName =
+  'mt-1 block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const ProviderSettings: React.FC<ProviderSettingsProps> = ({ config, onChange }) => {
+  const handleProviderChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    // Switching provider starts from that provider's defaults rather than carrying over model names
+    onChange({ ...PROVIDER_DEFAULTS[e.target.value as ProviderId], rememberApiKey: config.rememberApiKey });
+  };
+
+  const handleFieldChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange({ ...config, [e.target.name]: e.target.value });
+  };
+
+  const usesEndpoint = config.providerId === 'openai' || config.providerId === 'ollama';
+
+  return (
+    <details className="mb-6 border border-gray-200 rounded-md p-4">
+      <summary className="cursor-pointer text-sm font-semibold text-gray-700">
+        Model provider: {PROVIDER_LABELS[config.providerId]}
+      </summary>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-4">
+        <div className="flex flex-col">
+          <label htmlFor="providerId" className="text-sm font-medium text-gray-700 mb-1">Provider</label>
+          <select id="providerId" value={config.providerId} onChange={handleProviderChange} className={inputClassName}>
+            {(Object.keys(PROVIDER_LABELS) as ProviderId[]).map((id) => (
+              <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+            ))}
+          </select>
+        </div>
+        {usesEndpoint && (
+          <div className="flex flex-col">
+            <label htmlFor="baseUrl" className="text-sm font-medium text-gray-700 mb-1">Base URL</label>
+            <input type="url" id="baseUrl" name="baseUrl" value={config.baseUrl} onChange={handleFieldChange} className={inputClassName} />
+          </div>
+        )}
+        {config.providerId !== 'mock' && (
+          <>
+            <div className="flex flex-col">
+              <label htmlFor="apiKey" className="text-sm font-medium text-gray-700 mb-1">API Key</label>
+              <input
+                type="password"
+                id="apiKey"
+                name="apiKey"
+                value={config.apiKey}
+                onChange={handleFieldChange}
+                placeholder={config.providerId === 'gemini' ? 'Uses the configured GEMINI_API_KEY when empty' : 'Optional'}
+                className={inputClassName}
+              />
+              <label className="flex items-center gap-2 mt-2 text-sm text-gray-700">
+                <input type="checkbox" checked={config.rememberApiKey} onChange={(e) => onChange({ ...config, rememberApiKey: e.target.checked })} />
+                Remember key on this device
+              </label>
+              {config.rememberApiKey && (
+                <p className="mt-1 text-xs text-yellow-800">
+                  The key is stored unencrypted in this browser, where anyone using this device can read it. Leave this off on shared computers.
+                </p>
+              )}
+            </div>
+            <div className="flex flex-col">
+              <label htmlFor="visionModel" className="text-sm font-medium text-gray-700 mb-1">Image Analysis Model</label>
+              <input type="text" id="visionModel" name="visionModel" value={config.visionModel} onChange={handleFieldChange} className={inputClassName} />
+            </div>
+            <div className="flex flex-col">
+              <label htmlFor="textModel" className="text-sm font-medium text-gray-700 mb-1">Question Generation Model</label>
+              <input type="text" id="textModel" name="textModel" value={config.textModel} onChange={handleFieldChange} className={inputClassName} />
+            </div>
+          </>
+        )}
+      </div>
+      {config.providerId === 'mock' && (
+        <p className="mt-3 text-sm text-gray-500">Returns fixed sample questions without calling any model. No API key is needed.</p>
+      )}
+    </details>
+  );
+};
+
+export default ProviderSettings;
@@ -0,0 +1,100 @@
+import React from 'react';
+import { GeneratedExam, SectionNaming } from '../types';
+import { QualityCheck, QualityFix } from '../services/qualityChecks';
+import { getSectionLabel } from '../services/marks';
+import Spinner from './Spinner';
+
+interface QualityChecklistProps {
+  exam: GeneratedExam;
+  checks: QualityCheck[];
+  naming: SectionNaming;
+  fixProgress: { done: number; total: number } | null; // While fixes are being written
+  onFix: (fixes: QualityFix[]) => void;
+}
+
+const STATUS_ICONS: Record<QualityCheck['status'], string> = {
+  passed: '✓',
+  failed: '✗',
+  skipped: '–',
+};
+
+const STATUS_CLASS_NAMES: Record<QualityCheck['status'], string> = {
+  passed: 'text-green-700',
+  failed: 'text-red-700',
+  skipped: 'text-gray-500',
+};
+
+const FIX_LABELS: Record<QualityFix['kind'], string> = {
+  regenerate: 'Regenerate',
+  translate: 'Translate',
+  add: 'Add',
+  remove: 'Remove',
+};
+
+const buttonClassName =
+  'px-2 py-0.5 bg-white border border-gray-300 text-gray-800 text-xs rounded-md hover:bg-gray-100 transition duration-200 disabled:opacity-50';
+
+// Post-generation checks on the paper, with fixes that rewrite only the questions that failed
+const QualityChecklist: React.FC<QualityChecklistProps> = ({ exam, checks, naming, fixProgress, onFix }) => {
+  const locations = new Map<string, string>();
+  exam.sections.forEach((section, sectionIndex) =>
+    section.questions.forEach((question, index) => locations.set(question.id, `${getSectionLabel(sectionIndex, naming)}, Q${index + 1}`)),
+  );
+  const failing = checks.flatMap((check) => check.issues);
+
+  return (
+    <div className="no-print w-full max-w-4xl bg-white border border-gray-300 rounded-lg p-4 mt-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h3 className="text-sm font-semibold text-gray-800">
+          Quality checks: {checks.filter((check) => check.status === 'passed').length} of {checks.length} passed
+        </h3>
+        {fixProgress ? (
+          <div className="flex items-center gap-2 text-sm text-gray-600">
+            <Spinner /> Fixing {Math.min(fixProgress.done + 1, fixProgress.total)} of {fixProgress.total}...
+          </div>
+        ) : (
+          failing.length > 0 && (
+            <button onClick={() => onFix(failing.map((issue) => issue.fix))} className={buttonClassName}>
+              Fix all ({failing.length})
+            </button>
+          )
+        )}
+      </div>
+      <ul className="space-y-2 text-sm">
+        {checks.map((check) => (
+          <li key={check.id}>
+            <div className="flex flex-wrap items-center gap-2">
+              <span className={`font-bold ${STATUS_CLASS_NAMES[check.status]}`} aria-label={check.status}>
+                {STATUS_ICONS[check.status]}
+              </span>
+              <span className="text-gray-800">{check.label}</span>
+              {check.note && <span className="text-xs text-gray-500">({check.note})</span>}
+              {check.issues.length > 1 && (
+                <button onClick={() => onFix(check.issues.map((issue) => issue.fix))} disabled={fixProgress !== null} className={buttonClassName}>
+                  Fix {check.issues.length}
+                </button>
+              )}
+            </div>
+            {check.issues.length > 0 && (
+              <ul className="mt-1 ms-6 space-y-1 text-red-800">
+                {check.issues.map((issue, index) => (
+                  <li key={index} className="flex flex-wrap items-center gap-2">
+                    <span>
+                      {issue.questionId && locations.has(issue.questionId) && <strong>{locations.get(issue.questionId)}: </strong>}
+                      {issue.message}
+                    </span>
+                    <button onClick={() => onFix([issue.fix])} disabled={fixProgress !== null} className={buttonClassName}>
+                      {FIX_LABELS[issue.fix.kind]}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default QualityChecklist;
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { BankQuestion, QuestionType } from '../types';
+import { BankFilter, filterBankQuestions } from '../services/questionBank';
+import { QUESTION_TYPES, SECTION_TITLES } from '../services/questionTypes';
+
+interface QuestionBankProps {
+  entries: BankQuestion[];
+  defaultClassName: string;
+  onAddToPaper: (entries: BankQuestion[]) => void;
+  onDelete: (entry: BankQuestion) => void;
+}
+
+const inputClassName =
+  'block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm';
+
+const QuestionBank: React.FC<QuestionBankProps> = ({ entries, defaultClassName, onAddToPaper, onDelete }) => {
+  const [filter, setFilter] = useState<BankFilter>({ query: '', type: '', className: defaultClassName });
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+
+  const visibleEntries = filterBankQuestions(entries, filter);
+  const selectedEntries = entries.filter((entry) => selectedIds.includes(entry.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((other) => other !== id) : [...ids, id]));
+  };
+
+  const handleAdd = () => {
+    onAddToPaper(selectedEntries);
+    setSelectedIds([]);
+  };
+
+  return (
+    <details className="no-print bg-white shadow-lg rounded-lg p-6 sm:p-8 w-full max-w-4xl mb-8">
+      <summary className="cursor-pointer text-2xl font-bold text-gray-800">
+        Question Bank <span className="text-base font-normal text-gray-500">({entries.length} questions)</span>
+      </summary>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4 mb-4">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={(e) => setFilter({ ...filter, query: e.target.value })}
+          placeholder="Search text, topic, board or tags"
+          className={inputClassName}
+        />
+        <select
+          value={filter.type}
+          onChange={(e) => setFilter({ ...filter, type: e.target.value as QuestionType | '' })}
+          className={inputClassName}
+        >
+          <option value="">All question types</option>
+          {QUESTION_TYPES.map((type) => (
+            <option key={type} value={type}>{SECTION_TITLES[type]}</option>
+          ))}
+        </select>
+        <input
+          type="text"
+          value={filter.className}
+          onChange={(e) => setFilter({ ...filter, className: e.target.value })}
+          placeholder="Any class"
+          className={inputClassName}
+        />
+      </div>
+
+      {visibleEntries.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          {entries.length === 0 ? 'Generated questions are added to the bank automatically.' : 'No bank questions match these filters.'}
+        </p>
+      ) : (
+        <ul className="divide-y divide-gray-200 max-h-96 overflow-y-auto">
+          {visibleEntries.map((entry) => (
+            <li key={entry.id} className="py-2 flex items-start gap-3">
+              <input
+                type="checkbox"
+                checked={selectedIds.includes(entry.id)}
+                onChange={() => toggleSelected(entry.id)}
+                className="mt-1"
+                aria-label="Select question"
+              />
+              <div className="flex-1 min-w-0">
+                <p className="text-sm text-gray-800">{entry.question.text}</p>
+                <p className="text-xs text-gray-500">
+                  {SECTION_TITLES[entry.question.type]} · {entry.topic} · {entry.className} · {entry.board}
+                  {entry.tags.length > 0 && ` · ${entry.tags.join(', ')}`}
+                  {` · used in ${entry.usedInExamIds.length} paper${entry.usedInExamIds.length === 1 ? '' : 's'}`}
+                </p>
+              </div>
+              <button onClick={() => onDelete(entry)} className="text-sm text-red-500 hover:text-red-700 underline">
+                Delete
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <button
+        onClick={handleAdd}
+        disabled={selectedEntries.length === 0}
+        className="mt-4 px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 transition duration-200 disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        Add {selectedEntries.length || ''} selected to paper
+      </button>
+    </details>
+  );
+};
+
+export default QuestionBank;
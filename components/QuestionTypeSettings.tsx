@@ -0,0 +1,69 @@
+import React from 'react';
+import { ExamSettings } from '../types';
+import {
+  COUNT_SETTINGS,
+  MARKS_SETTINGS,
+  QUESTION_TYPES,
+  SECTION_TITLES,
+  getMarksPerQuestion,
+  getRequestedCount,
+} from '../services/questionTypes';
+
+interface QuestionTypeSettingsProps {
+  settings: ExamSettings;
+  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
+}
+
+const cellInputClassName =
+  'w-20 border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500 disabled:bg-gray-100';
+
+// Count and marks for every question type; a count of 0 leaves that section off the paper
+const QuestionTypeSettings: React.FC<QuestionTypeSettingsProps> = ({ settings, onChange }) => (
+  <div className="mb-6 overflow-x-auto">
+    <h3 className="text-sm font-medium text-gray-700 mb-2">Question Types</h3>
+    <table className="min-w-full text-sm">
+      <thead>
+        <tr className="text-left text-gray-600">
+          <th className="pr-2 py-1 font-medium">Section</th>
+          <th className="px-1 py-1 font-medium">Questions</th>
+          <th className="px-1 py-1 font-medium">Marks each</th>
+          <th className="px-1 py-1 font-medium">Subtotal</th>
+        </tr>
+      </thead>
+      <tbody>
+        {QUESTION_TYPES.map((type) => (
+          <tr key={type}>
+            <td className="pr-2 py-1 whitespace-nowrap">{SECTION_TITLES[type]}</td>
+            <td className="px-1 py-1">
+              <input
+                type="number"
+                name={COUNT_SETTINGS[type]}
+                value={getRequestedCount(settings, type)}
+                onChange={onChange}
+                min="0"
+                disabled={settings.blueprintEnabled}
+                title={settings.blueprintEnabled ? 'Set by the blueprint' : undefined}
+                aria-label={`${SECTION_TITLES[type]} count`}
+                className={cellInputClassName}
+              />
+            </td>
+            <td className="px-1 py-1">
+              <input
+                type="number"
+                name={MARKS_SETTINGS[type]}
+                value={getMarksPerQuestion(settings, type)}
+                onChange={onChange}
+                min="0"
+                aria-label={`${SECTION_TITLES[type]} marks each`}
+                className={cellInputClassName}
+              />
+            </td>
+            <td className="px-1 py-1 text-gray-700">{getRequestedCount(settings, type) * getMarksPerQuestion(settings, type)}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default QuestionTypeSettings;
@@ -0,0 +1,71 @@
+import React from 'react';
+import katex from 'katex';
+import 'katex/contrib/mhchem';
+import { RichSegment, parseInline, parseRichText } from '../services/richText';
+
+interface RichTextProps {
+  text: string;
+}
+
+const Segment: React.FC<{ segment: RichSegment }> = ({ segment }) => {
+  switch (segment.kind) {
+    case 'text':
+      return <>{segment.text}</>;
+    case 'bold':
+      return <strong>{segment.text}</strong>;
+    case 'math': {
+      // Malformed LaTeX is shown in red by KaTeX rather than breaking the paper
+      const html = katex.renderToString(segment.tex, { displayMode: segment.display, throwOnError: false });
+      return <span className={segment.display ? 'block my-2' : undefined} dangerouslySetInnerHTML={{ __html: html }} />;
+    }
+  }
+};
+
+// Table cells are single lines, so they skip the table parsing
+const RichTextLine: React.FC<RichTextProps> = ({ text }) => (
+  <>
+    {parseInline(text).map((segment, index) => (
+      <Segment key={index} segment={segment} />
+    ))}
+  </>
+);
+
+// Renders question and answer text with LaTeX math, chemistry, bold and tables
+const RichText: React.FC<RichTextProps> = ({ text }) => (
+  <>
+    {parseRichText(text).map((block, index) =>
+      block.kind === 'table' ? (
+        <table key={index} className="my-2 border-collapse text-left">
+          <thead>
+            <tr>
+              {block.headers.map((header, cell) => (
+                <th key={cell} className="border border-gray-400 px-2 py-1">
+                  <RichTextLine text={header} />
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {block.rows.map((row, rowIndex) => (
+              <tr key={rowIndex}>
+                {row.map((value, cell) => (
+                  <td key={cell} className="border border-gray-400 px-2 py-1">
+                    <RichTextLine text={value} />
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : (
+        <span key={index} className="whitespace-pre-line">
+          {block.segments.map((segment, segmentIndex) => (
+            <Segment key={segmentIndex} segment={segment} />
+          ))}
+        </span>
+      ),
+    )}
+  </>
+);
+
+export default RichText;
@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { RosterStudent } from '../types';
+import { createRosterCsvTemplate, createRosterStudent, parseRosterCsv } from '../services/roster';
+import { downloadBlob } from '../services/export';
+
+interface RosterEditorProps {
+  roster: RosterStudent[];
+  setCodes: string[]; // Sets being printed, offered for each student
+  onChange: (roster: RosterStudent[]) => void;
+}
+
+const cellInputClassName =
+  'w-full border border-gray-300 rounded-md py-1 px-2 focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+// Class list for personalised papers: typed in, or imported from a CSV exported by the school system
+const RosterEditor: React.FC<RosterEditorProps> = ({ roster, setCodes, onChange }) => {
+  const [importErrors, setImportErrors] = useState<string[]>([]);
+
+  const updateStudent = (id: string, changes: Partial<RosterStudent>) => {
+    onChange(roster.map((student) => (student.id === id ? { ...student, ...changes } : student)));
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow the same file to be imported again
+    if (!file) {
+      return;
+    }
+    const { students, errors } = parseRosterCsv(await file.text());
+    setImportErrors(errors);
+    if (students.length > 0) {
+      onChange([...roster, ...students]);
+    }
+  };
+
+  return (
+    <div className="mb-6">
+      <div className="flex flex-wrap items-center gap-2 mb-2">
+        <span className="text-sm font-medium text-gray-700">Class roster ({roster.length} students)</span>
+        <label className="px-3 py-1 bg-gray-100 text-gray-800 text-sm rounded-md hover:bg-gray-200 transition duration-200 cursor-pointer">
+          Import CSV
+          <input type="file" accept=".csv,text/csv" onChange={handleImport} className="hidden" />
+        </label>
+        <button
+          onClick={() => downloadBlob(new Blob([createRosterCsvTemplate()], { type: 'text/csv' }), 'roster-template.csv')}
+          className="px-3 py-1 bg-gray-100 text-gray-800 text-sm rounded-md hover:bg-gray-200 transition duration-200"
+        >
+          Download template
+        </button>
+        {roster.length > 0 && (
+          <button onClick={() => onChange([])} className="text-sm text-red-500 hover:text-red-700 underline">
+            Clear roster
+          </button>
+        )}
+      </div>
+
+      {importErrors.map((message) => (
+        <p key={message} className="text-sm text-red-600">{message}</p>
+      ))}
+
+      {roster.length > 0 && (
+        <div className="overflow-x-auto max-h-72 overflow-y-auto">
+          <table className="min-w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600">
+                <th className="pr-2 py-1 font-medium w-28">Roll No.</th>
+                <th className="px-1 py-1 font-medium">Name</th>
+                <th className="px-1 py-1 font-medium w-28">Set</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {roster.map((student) => (
+                <tr key={student.id}>
+                  <td className="pr-2 py-1">
+                    <input
+                      type="text"
+                      value={student.rollNumber}
+                      onChange={(e) => updateStudent(student.id, { rollNumber: e.target.value })}
+                      aria-label="Roll number"
+                      className={cellInputClassName}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <input
+                      type="text"
+                      value={student.name}
+                      onChange={(e) => updateStudent(student.id, { name: e.target.value })}
+                      aria-label="Student name"
+                      className={cellInputClassName}
+                    />
+                  </td>
+                  <td className="px-1 py-1">
+                    <select
+                      value={student.setCode ?? ''}
+                      onChange={(e) => updateStudent(student.id, { setCode: e.target.value || undefined })}
+                      aria-label={`Set for ${student.name || 'student'}`}
+                      className={cellInputClassName}
+                    >
+                      <option value="">In turn</option>
+                      {setCodes.map((setCode) => (
+                        <option key={setCode} value={setCode}>{setCode}</option>
+                      ))}
+                      {student.setCode && !setCodes.includes(student.setCode) && (
+                        <option value={student.setCode}>{student.setCode} (not printed)</option>
+                      )}
+                    </select>
+                  </td>
+                  <td className="px-1 py-1">
+                    <button
+                      onClick={() => onChange(roster.filter((other) => other.id !== student.id))}
+                      className="text-red-500 hover:text-red-700 underline"
+                    >
+                      Remove
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      <button
+        onClick={() => onChange([...roster, createRosterStudent('', String(roster.length + 1))])}
+        className="mt-2 px-4 py-2 bg-gray-100 text-gray-800 text-sm font-semibold rounded-md hover:bg-gray-200 transition duration-200"
+      >
+        + Add Student
+      </button>
+    </div>
+  );
+};
+
+export default RosterEditor;
@@ -0,0 +1,107 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GeneratedExam, Question } from '../types';
+import { GroundingCheck } from '../services/grounding';
+import { formatCorrectAnswer } from '../services/questionFormats';
+import { getSectionLabel } from '../services/marks';
+import RichText from './RichText';
+
+interface SourceReviewProps {
+  exam: GeneratedExam;
+  sourceImages: File[]; // pages the paper was generated from; empty after reopening a saved exam
+  flagged: Map<string, GroundingCheck>;
+}
+
+const QuestionSourceRow: React.FC<{
+  label: string;
+  question: Question;
+  check?: GroundingCheck;
+  pageTexts?: string[];
+  pageUrls: string[];
+}> = ({ label, question, check, pageTexts, pageUrls }) => {
+  const answer = formatCorrectAnswer(question) || question.modelAnswer;
+  const citedPages = question.source?.imageIndexes || [];
+
+  return (
+    <li className={`py-4 grid grid-cols-1 md:grid-cols-2 gap-4 ${check ? 'bg-red-50 -mx-2 px-2 rounded-md' : ''}`}>
+      <div className="text-sm text-gray-800 space-y-1">
+        <p className="font-semibold">{label}</p>
+        <RichText text={question.text} />
+        {answer && (
+          <p className="text-gray-600">
+            <span className="font-semibold">Answer:</span> <RichText text={answer} />
+          </p>
+        )}
+        {check && <p className="text-red-700 font-semibold">Not grounded: {check.issue}</p>}
+      </div>
+      <div className="text-sm text-gray-700 space-y-2">
+        {question.source ? (
+          <>
+            <p className="text-xs text-gray-500">
+              Page{citedPages.length === 1 ? '' : 's'} {citedPages.map((index) => index + 1).join(', ')}
+            </p>
+            <blockquote className="border-l-4 border-blue-300 pl-3 italic">“{question.source.excerpt}”</blockquote>
+          </>
+        ) : (
+          <p className="text-xs text-gray-500">No source cited.</p>
+        )}
+        {citedPages
+          .filter((index) => pageUrls[index])
+          .map((index) => (
+            <a key={index} href={pageUrls[index]} target="_blank" rel="noreferrer" title="Open the full page">
+              <img src={pageUrls[index]} alt={`Page ${index + 1}`} className="max-h-64 border border-gray-200 rounded-md" />
+            </a>
+          ))}
+        {citedPages
+          .filter((index) => pageTexts?.[index])
+          .map((index) => (
+            <details key={index} className="text-xs text-gray-600">
+              <summary className="cursor-pointer">Text of page {index + 1}</summary>
+              <p className="mt-1 whitespace-pre-wrap">{pageTexts?.[index]}</p>
+            </details>
+          ))}
+      </div>
+    </li>
+  );
+};
+
+// Shows each question beside the page text it was drawn from, flagging any without grounding in the upload
+const SourceReview: React.FC<SourceReviewProps> = ({ exam, sourceImages, flagged }) => {
+  const [flaggedOnly, setFlaggedOnly] = useState<boolean>(false);
+  const pageUrls = useMemo(() => sourceImages.map((file) => URL.createObjectURL(file)), [sourceImages]);
+
+  useEffect(() => () => pageUrls.forEach((url) => URL.revokeObjectURL(url)), [pageUrls]);
+
+  return (
+    <details className="no-print w-full max-w-4xl bg-white shadow-lg rounded-lg p-4 sm:p-6 mt-4" open={flagged.size > 0}>
+      <summary className="cursor-pointer text-lg font-semibold text-gray-800">
+        Source review{' '}
+        <span className={`text-sm font-normal ${flagged.size > 0 ? 'text-red-600' : 'text-gray-500'}`}>
+          ({flagged.size === 0 ? 'every question cites the uploaded pages' : `${flagged.size} question${flagged.size === 1 ? '' : 's'} not grounded`})
+        </span>
+      </summary>
+      <label className="flex items-center gap-2 mt-3 text-sm text-gray-700">
+        <input type="checkbox" checked={flaggedOnly} onChange={(e) => setFlaggedOnly(e.target.checked)} />
+        Show only flagged questions
+      </label>
+      <ul className="divide-y divide-gray-200">
+        {exam.sections.flatMap((section, sectionIndex) =>
+          section.questions
+            .map((question, index) => ({ question, label: `${getSectionLabel(sectionIndex)}, Q${index + 1}` }))
+            .filter(({ question }) => !flaggedOnly || flagged.has(question.id))
+            .map(({ question, label }) => (
+              <QuestionSourceRow
+                key={question.id}
+                label={label}
+                question={question}
+                check={flagged.get(question.id)}
+                pageTexts={exam.sourcePages}
+                pageUrls={pageUrls}
+              />
+            )),
+        )}
+      </ul>
+    </details>
+  );
+};
+
+export default SourceReview;
@@ -0,0 +1,154 @@
+import React, { useEffect, useState } from 'react';
+import { ExamSettings, ExamTemplate } from '../types';
+import { applyTemplate, createTemplateJson, deleteTemplate, listTemplates, parseTemplateJson, saveTemplate } from '../services/templates';
+import { downloadBlob, toFileName } from '../services/export';
+
+interface TemplateManagerProps {
+  settings: ExamSettings;
+  onApply: (settings: ExamSettings) => void;
+}
+
+const buttonClassName =
+  'px-3 py-1 bg-gray-100 text-gray-800 text-sm rounded-md hover:bg-gray-200 transition duration-200 disabled:opacity-50';
+
+const inputClassName =
+  'border border-gray-300 rounded-md py-1 px-2 text-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500';
+
+// Saved paper layouts and default settings, shared across a department as JSON files
+const TemplateManager: React.FC<TemplateManagerProps> = ({ settings, onApply }) => {
+  const [templates, setTemplates] = useState<ExamTemplate[]>([]);
+  const [selectedId, setSelectedId] = useState<string>('');
+  const [newName, setNewName] = useState<string>('');
+  const [messages, setMessages] = useState<string[]>([]);
+
+  const refresh = async () => {
+    try {
+      setTemplates(await listTemplates());
+    } catch (err) {
+      console.error('Failed to load templates:', err);
+      setMessages(['Could not load the saved templates.']);
+    }
+  };
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const selected = templates.find((template) => template.id === selectedId);
+
+  const handleSave = async (existing?: ExamTemplate) => {
+    const name = existing ? existing.name : newName;
+    if (!name.trim()) {
+      setMessages(['Give the template a name.']);
+      return;
+    }
+    try {
+      const saved = await saveTemplate(name, settings, existing);
+      setNewName('');
+      setSelectedId(saved.id);
+      setMessages([existing ? `Updated "${saved.name}" from the current settings.` : `Saved "${saved.name}".`]);
+      await refresh();
+    } catch (err) {
+      console.error('Failed to save the template:', err);
+      setMessages(['Could not save the template.']);
+    }
+  };
+
+  const handleDelete = async (template: ExamTemplate) => {
+    if (!window.confirm(`Delete the template "${template.name}"?`)) {
+      return;
+    }
+    try {
+      await deleteTemplate(template.id);
+      setSelectedId('');
+      setMessages([]);
+      await refresh();
+    } catch (err) {
+      console.error('Failed to delete the template:', err);
+      setMessages(['Could not delete the template.']);
+    }
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow the same file to be imported again
+    const results: string[] = [];
+    let imported: ExamTemplate | null = null;
+    for (const file of files) {
+      const { template, errors } = parseTemplateJson(await file.text(), settings);
+      results.push(...errors.map((error) => `${file.name}: ${error}`));
+      if (!template) {
+        continue;
+      }
+      try {
+        imported = await saveTemplate(template.name, { ...settings, ...template.settings });
+        results.push(`Imported "${imported.name}".`);
+      } catch (err) {
+        console.error('Failed to save the imported template:', err);
+        results.push(`${file.name}: could not be saved.`);
+      }
+    }
+    setMessages(results);
+    await refresh();
+    if (imported) {
+      setSelectedId(imported.id);
+    }
+  };
+
+  return (
+    <div className="mb-6 flex flex-col gap-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <label htmlFor="template" className="text-sm font-medium text-gray-700">Template</label>
+        <select id="template" value={selectedId} onChange={(e) => setSelectedId(e.target.value)} className={inputClassName}>
+          <option value="">{templates.length > 0 ? 'Choose a template' : 'No saved templates'}</option>
+          {templates.map((template) => (
+            <option key={template.id} value={template.id}>{template.name}</option>
+          ))}
+        </select>
+        <button onClick={() => selected && onApply(applyTemplate(settings, selected))} disabled={!selected} className={buttonClassName}>
+          Apply
+        </button>
+        <button onClick={() => selected && handleSave(selected)} disabled={!selected} className={buttonClassName}>
+          Update from current settings
+        </button>
+        <button
+          onClick={() =>
+            selected &&
+            downloadBlob(new Blob([createTemplateJson(selected)], { type: 'application/json' }), `${toFileName(selected.name)}.template.json`)
+          }
+          disabled={!selected}
+          className={buttonClassName}
+        >
+          Export JSON
+        </button>
+        {selected && (
+          <button onClick={() => handleDelete(selected)} className="text-sm text-red-500 hover:text-red-700 underline">
+            Delete
+          </button>
+        )}
+      </div>
+      <div className="flex flex-wrap items-center gap-2">
+        <input
+          type="text"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          placeholder="Template name, e.g. Class 10 Science Term 1"
+          aria-label="New template name"
+          className={`${inputClassName} flex-1 min-w-[12rem]`}
+        />
+        <button onClick={() => handleSave()} className={buttonClassName}>
+          Save current settings as template
+        </button>
+        <label className={`${buttonClassName} cursor-pointer`}>
+          Import JSON
+          <input type="file" accept=".json,application/json" multiple onChange={handleImport} className="hidden" />
+        </label>
+      </div>
+      {messages.map((message) => (
+        <p key={message} className="text-sm text-gray-600">{message}</p>
+      ))}
+    </div>
+  );
+};
+
+export default TemplateManager;
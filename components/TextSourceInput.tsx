@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { DOCUMENT_ACCEPT, MAX_SOURCE_TEXT_CHARS, readDocumentText } from '../services/documentText';
+import Spinner from './Spinner';
+
+interface TextSourceInputProps {
+  text: string;
+  onChange: (text: string) => void;
+  allowUpload: boolean; // Document mode: text comes from a .txt/.docx file, then can be edited
+}
+
+// Source text for a paper: pasted syllabus or notes, or the text of an uploaded document
+const TextSourceInput: React.FC<TextSourceInputProps> = ({ text, onChange, allowUpload }) => {
+  const [documentName, setDocumentName] = useState<string | null>(null);
+  const [reading, setReading] = useState<boolean>(false);
+  const [readError, setReadError] = useState<string | null>(null);
+
+  const handleDocumentUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow the same file to be read again
+    if (!file) {
+      return;
+    }
+    setReading(true);
+    setReadError(null);
+    try {
+      onChange(await readDocumentText(file));
+      setDocumentName(file.name);
+    } catch (err: any) {
+      console.error('Failed to read the document:', err);
+      setReadError(err.message || 'Could not read the document.');
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const tooLong = text.length > MAX_SOURCE_TEXT_CHARS;
+
+  return (
+    <div className="mt-6">
+      {allowUpload && (
+        <div className="flex flex-wrap items-center gap-3 mb-3">
+          <label className="inline-block bg-blue-500 text-white font-semibold py-2 px-4 rounded-md cursor-pointer hover:bg-blue-600 transition duration-200">
+            Select .txt or .docx
+            <input type="file" accept={DOCUMENT_ACCEPT} onChange={handleDocumentUpload} className="hidden" />
+          </label>
+          {reading && <Spinner />}
+          {documentName && !reading && <span className="text-sm text-gray-600">Read from {documentName}</span>}
+        </div>
+      )}
+      {readError && <p className="mb-2 text-sm text-red-600">{readError}</p>}
+      {(!allowUpload || text) && (
+        <textarea
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          rows={10}
+          placeholder="Paste a syllabus, chapter notes or textbook text here"
+          aria-label="Source text"
+          className="block w-full border border-gray-300 rounded-md shadow-sm py-2 px-3 focus:outline-none focus:ring-blue-500 focus:border-blue-500 sm:text-sm"
+        />
+      )}
+      <p className={`mt-1 text-xs ${tooLong ? 'text-red-600' : 'text-gray-500'}`}>
+        {text.length.toLocaleString()} of {MAX_SOURCE_TEXT_CHARS.toLocaleString()} characters.
+        {tooLong && ' Shorten the text to the chapters this paper covers.'}
+      </p>
+    </div>
+  );
+};
+
+export default TextSourceInput;
@@ -0,0 +1,192 @@
+import JSZip from 'jszip';
+import { Difficulty, ExamSettings, ExamSource, GeneratedExam } from '../types';
+import { GenerationStage, generateExamFromSource } from './examGenerator';
+import { COUNT_SETTINGS, MARKS_SETTINGS, QUESTION_TYPES } from './questionTypes';
+import { DIFFICULTIES } from './bloom';
+import { LANGUAGES, findLanguage } from './languages';
+import { loadSourcePages, prepareSourcePages } from './pagePreparation';
+import { saveNewExam } from './examLibrary';
+import { addExamToBank } from './questionBank';
+import { ExportFormat, renderExport } from './export';
+import { parseCsv, stripByteOrderMark, toCsv } from './csv';
+import { LlmProvider, isAbortError } from './providers';
+
+export const DEFAULT_BATCH_CONCURRENCY = 2;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// One paper to generate: its own settings and the pages it is set from
+export interface BatchRow {
+  id: string;
+  settings: ExamSettings;
+  images: File[]; // images or PDFs, prepared with the default clean-up when the batch runs; none writes from the topic
+}
+
+export type BatchStatus = 'pending' | 'running' | 'done' | 'failed' | 'cancelled';
+
+export interface BatchRowState {
+  status: BatchStatus;
+  stage?: GenerationStage;
+  exam?: GeneratedExam;
+  error?: string;
+}
+
+type TextColumn = 'topic' | 'className' | 'board';
+
+const TEXT_COLUMNS: TextColumn[] = ['topic', 'className', 'board'];
+
+type LanguageColumn = 'language' | 'secondLanguage';
+
+const LANGUAGE_COLUMNS: LanguageColumn[] = ['language', 'secondLanguage'];
+
+// Numeric settings a CSV may set; everything else comes from the main form
+const NUMBER_COLUMNS: (keyof ExamSettings)[] = [
+  'totalMarks',
+  'duration',
+  ...QUESTION_TYPES.flatMap((type) => [COUNT_SETTINGS[type], MARKS_SETTINGS[type]]),
+];
+
+// Column order of the CSV template; import accepts the columns in any order
+export const BATCH_CSV_COLUMNS: string[] = [...TEXT_COLUMNS, ...LANGUAGE_COLUMNS, 'difficulty', ...NUMBER_COLUMNS];
+
+export function createBatchRow(settings: ExamSettings): BatchRow {
+  // Batch rows set their counts directly, so the chapter blueprint does not apply
+  return { id: crypto.randomUUID(), settings: { ...settings, blueprintEnabled: false }, images: [] };
+}
+
+// A header row plus one example row filled from the given settings
+export function createBatchCsvTemplate(settings: ExamSettings): string {
+  const values = BATCH_CSV_COLUMNS.map((column) => settings[column as keyof ExamSettings] as string | number);
+  return toCsv([BATCH_CSV_COLUMNS, values]);
+}
+
+// Builds rows from a CSV whose header names settings fields. Cells left empty keep the base settings.
+export function parseBatchCsv(text: string, baseSettings: ExamSettings): { rows: BatchRow[]; errors: string[] } {
+  const [header, ...records] = parseCsv(stripByteOrderMark(text));
+  if (!header) {
+    return { rows: [], errors: ['The CSV file is empty.'] };
+  }
+  const columns = header.map((name) => name.trim());
+  const errors: string[] = columns
+    .filter((name) => !BATCH_CSV_COLUMNS.includes(name))
+    .map((name) => `Unknown column "${name}"; expected any of ${BATCH_CSV_COLUMNS.join(', ')}.`);
+
+  const rows: BatchRow[] = [];
+  records.forEach((cells, recordIndex) => {
+    const line = recordIndex + 2; // 1-based, after the header
+    const row = createBatchRow(baseSettings);
+    let valid = true;
+    columns.forEach((column, columnIndex) => {
+      const value = (cells[columnIndex] || '').trim();
+      if (!value || !BATCH_CSV_COLUMNS.includes(column)) {
+        return;
+      }
+      if (TEXT_COLUMNS.includes(column as TextColumn)) {
+        row.settings = { ...row.settings, [column]: value };
+      } else if (LANGUAGE_COLUMNS.includes(column as LanguageColumn)) {
+        const language = findLanguage(value);
+        if (!language) {
+          errors.push(`Line ${line}: ${column} must be one of ${LANGUAGES.map((candidate) => candidate.name).join(', ')}.`);
+          valid = false;
+          return;
+        }
+        row.settings = { ...row.settings, [column]: language.name };
+      } else if (column === 'difficulty') {
+        if (!DIFFICULTIES.includes(value as Difficulty)) {
+          errors.push(`Line ${line}: difficulty must be one of ${DIFFICULTIES.join(', ')}.`);
+          valid = false;
+          return;
+        }
+        row.settings = { ...row.settings, difficulty: value as Difficulty };
+      } else {
+        const number = Number(value);
+        if (!Number.isInteger(number) || number < 0) {
+          errors.push(`Line ${line}: ${column} must be a whole number, not "${value}".`);
+          valid = false;
+          return;
+        }
+        row.settings = { ...row.settings, [column]: number };
+      }
+    });
+    if (valid) {
+      rows.push(row);
+    }
+  });
+  return { rows, errors };
+}
+
+async function runBatchRow(
+  row: BatchRow,
+  provider: LlmProvider,
+  signal: AbortSignal | undefined,
+  onUpdate: (rowId: string, state: BatchRowState) => void,
+): Promise<void> {
+  if (signal?.aborted) {
+    onUpdate(row.id, { status: 'cancelled' });
+    return;
+  }
+  onUpdate(row.id, { status: 'running', stage: row.images.length > 0 ? 'analysis' : 'questions' });
+  try {
+    const images = row.images.length > 0 ? await prepareSourcePages(await loadSourcePages(row.images)) : [];
+    const source: ExamSource = images.length > 0 ? { kind: 'images', images } : { kind: 'topic' };
+    const exam = await generateExamFromSource(source, row.settings, provider, {
+      signal,
+      onProgress: (progress) => onUpdate(row.id, { status: 'running', stage: progress.stage }),
+    });
+    try {
+      const saved = await saveNewExam(row.settings, exam, images);
+      await addExamToBank(exam, row.settings, saved.id);
+    } catch (saveError) {
+      // The paper is still in the zip; it just won't be in the library
+      console.error('Failed to save batch exam to the library:', saveError);
+    }
+    onUpdate(row.id, { status: 'done', exam });
+  } catch (error: any) {
+    if (isAbortError(error)) {
+      onUpdate(row.id, { status: 'cancelled' });
+      return;
+    }
+    console.error(`Batch row "${row.settings.topic}" failed:`, error);
+    onUpdate(row.id, { status: 'failed', error: error.message || 'Generation failed.' });
+  }
+}
+
+// Generates every row, at most `concurrency` at a time; a failed row does not stop the others
+export async function runBatch(
+  rows: BatchRow[],
+  provider: LlmProvider,
+  {
+    concurrency = DEFAULT_BATCH_CONCURRENCY,
+    signal,
+    onUpdate,
+  }: { concurrency?: number; signal?: AbortSignal; onUpdate: (rowId: string, state: BatchRowState) => void },
+): Promise<void> {
+  let nextIndex = 0;
+  const worker = async () => {
+    while (nextIndex < rows.length) {
+      const row = rows[nextIndex++];
+      await runBatchRow(row, provider, signal, onUpdate);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, rows.length)) }, worker));
+}
+
+// Student copy and answer key of every finished row, numbered by row so names never collide
+export async function buildBatchZip(
+  rows: BatchRow[],
+  states: Record<string, BatchRowState>,
+  format: ExportFormat,
+): Promise<Blob> {
+  const zip = new JSZip();
+  for (const [index, row] of rows.entries()) {
+    const exam = states[row.id]?.exam;
+    if (!exam) {
+      continue;
+    }
+    const prefix = String(index + 1).padStart(2, '0');
+    for (const copy of ['student', 'answerKey'] as const) {
+      const { blob, fileName } = await renderExport({ exam, settings: row.settings, copy }, format);
+      zip.file(`${prefix}-${fileName}`, blob);
+    }
+  }
+  return zip.generateAsync({ type: 'blob' });
+}
@@ -0,0 +1,91 @@
+import { BloomLevel, BloomMix, Difficulty, ExamSection, ExamSettings, Question, QuestionType } from '../types';
+import { SECTION_TITLES, getRequestedCount } from './questionTypes';
+
+export const BLOOM_LEVELS: BloomLevel[] = ['remember', 'understand', 'apply', 'analyze', 'evaluate', 'create'];
+
+export const BLOOM_LABELS: Record<BloomLevel, string> = {
+  remember: 'Remember',
+  understand: 'Understand',
+  apply: 'Apply',
+  analyze: 'Analyze',
+  evaluate: 'Evaluate',
+  create: 'Create',
+};
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const DIFFICULTY_LABELS: Record<Difficulty, string> = {
+  easy: 'Easy',
+  medium: 'Medium',
+  hard: 'Hard',
+};
+
+export const DEFAULT_BLOOM_MIX: Record<QuestionType, BloomMix> = {
+  mcq: { remember: 40, understand: 40, apply: 20, analyze: 0, evaluate: 0, create: 0 },
+  trueFalse: { remember: 60, understand: 40, apply: 0, analyze: 0, evaluate: 0, create: 0 },
+  fillBlank: { remember: 60, understand: 40, apply: 0, analyze: 0, evaluate: 0, create: 0 },
+  match: { remember: 50, understand: 50, apply: 0, analyze: 0, evaluate: 0, create: 0 },
+  assertionReason: { remember: 0, understand: 40, apply: 20, analyze: 40, evaluate: 0, create: 0 },
+  short: { remember: 20, understand: 40, apply: 30, analyze: 10, evaluate: 0, create: 0 },
+  long: { remember: 0, understand: 20, apply: 30, analyze: 30, evaluate: 10, create: 10 },
+  caseStudy: { remember: 0, understand: 30, apply: 40, analyze: 30, evaluate: 0, create: 0 },
+};
+
+// "Apply · Medium" label shown in the answer key; empty when the question is untagged
+export function formatQuestionTags(question: Question): string {
+  return [
+    question.bloomLevel ? BLOOM_LABELS[question.bloomLevel] : '',
+    question.difficulty ? DIFFICULTY_LABELS[question.difficulty] : '',
+  ].filter(Boolean).join(' · ');
+}
+
+export function getBloomMixTotal(mix: BloomMix): number {
+  return BLOOM_LEVELS.reduce((sum, level) => sum + (mix[level] || 0), 0);
+}
+
+// Converts a percentage mix into whole question counts using the largest-remainder method,
+// so the counts always add up to the section size
+export function getBloomTargets(mix: BloomMix, questionCount: number): Record<BloomLevel, number> {
+  const total = getBloomMixTotal(mix) || 1;
+  const exact = BLOOM_LEVELS.map((level) => ((mix[level] || 0) / total) * questionCount);
+  const counts = exact.map(Math.floor);
+  let remaining = questionCount - counts.reduce((sum, count) => sum + count, 0);
+  exact
+    .map((value, index) => ({ index, remainder: value - Math.floor(value) }))
+    .sort((a, b) => b.remainder - a.remainder)
+    .forEach(({ index }) => {
+      if (remaining > 0) {
+        counts[index]++;
+        remaining--;
+      }
+    });
+  return Object.fromEntries(BLOOM_LEVELS.map((level, index) => [level, counts[index]])) as Record<BloomLevel, number>;
+}
+
+export function getSectionBloomTargets(settings: ExamSettings, type: QuestionType): Record<BloomLevel, number> {
+  return getBloomTargets(settings.bloomMix[type], getRequestedCount(settings, type));
+}
+
+// "2 remember, 2 understand, 1 apply" for the generation prompt
+export function describeBloomTargets(targets: Record<BloomLevel, number>): string {
+  return BLOOM_LEVELS.filter((level) => targets[level] > 0)
+    .map((level) => `${targets[level]} "${level}"`)
+    .join(', ');
+}
+
+export function getAchievedBloomCounts(section: ExamSection): Record<BloomLevel, number> {
+  const counts = Object.fromEntries(BLOOM_LEVELS.map((level) => [level, 0])) as Record<BloomLevel, number>;
+  section.questions.forEach((question) => {
+    if (question.bloomLevel) {
+      counts[question.bloomLevel]++;
+    }
+  });
+  return counts;
+}
+
+// Returns a message for each section whose mix does not add up to 100%
+export function validateBloomMix(settings: ExamSettings): string[] {
+  return (Object.keys(settings.bloomMix) as QuestionType[])
+    .filter((type) => getRequestedCount(settings, type) > 0 && getBloomMixTotal(settings.bloomMix[type]) !== 100)
+    .map((type) => `The Bloom's mix for ${SECTION_TITLES[type]} adds up to ${getBloomMixTotal(settings.bloomMix[type])}% instead of 100%.`);
+}
@@ -0,0 +1,139 @@
+import { BlueprintUnit, ExamSection, ExamSettings, QuestionType } from '../types';
+import { COUNT_SETTINGS, QUESTION_TYPES, SECTION_TITLES, getMarksPerQuestion } from './questionTypes';
+
+function emptyCounts(): Record<QuestionType, number> {
+  return Object.fromEntries(QUESTION_TYPES.map((type) => [type, 0])) as Record<QuestionType, number>;
+}
+
+export function createBlueprintUnit(chapter = ''): BlueprintUnit {
+  return { id: crypto.randomUUID(), chapter, weightage: 0, counts: emptyCounts() };
+}
+
+export function getUnitMarks(unit: BlueprintUnit, settings: ExamSettings): number {
+  return QUESTION_TYPES.reduce((sum, type) => sum + (unit.counts[type] || 0) * getMarksPerQuestion(settings, type), 0);
+}
+
+export function getBlueprintTotals(blueprint: BlueprintUnit[]): Record<QuestionType, number> {
+  const totals = emptyCounts();
+  blueprint.forEach((unit) => {
+    QUESTION_TYPES.forEach((type) => {
+      totals[type] += unit.counts[type] || 0;
+    });
+  });
+  return totals;
+}
+
+// In blueprint mode the section counts are derived from the units rather than typed in
+export function applyBlueprintCounts(settings: ExamSettings): ExamSettings {
+  if (!settings.blueprintEnabled) {
+    return settings;
+  }
+  const totals = getBlueprintTotals(settings.blueprint);
+  const counts = Object.fromEntries(QUESTION_TYPES.map((type) => [COUNT_SETTINGS[type], totals[type]]));
+  return { ...settings, ...counts };
+}
+
+export function validateBlueprint(settings: ExamSettings): string[] {
+  if (!settings.blueprintEnabled) {
+    return [];
+  }
+  if (settings.blueprint.length === 0) {
+    return ['Add at least one unit to the blueprint.'];
+  }
+
+  const warnings: string[] = [];
+  const chapters = settings.blueprint.map((unit) => unit.chapter.trim().toLowerCase());
+  if (chapters.some((chapter) => !chapter)) {
+    warnings.push('Every blueprint unit needs a chapter name.');
+  }
+  if (new Set(chapters).size !== chapters.length) {
+    warnings.push('Blueprint chapter names must be unique.');
+  }
+  settings.blueprint.forEach((unit) => {
+    const marks = getUnitMarks(unit, settings);
+    if (unit.chapter.trim() && marks !== unit.weightage) {
+      warnings.push(`"${unit.chapter}" has a weightage of ${unit.weightage} marks but its questions add up to ${marks}.`);
+    }
+  });
+  const totalWeightage = settings.blueprint.reduce((sum, unit) => sum + unit.weightage, 0);
+  if (totalWeightage !== settings.totalMarks) {
+    warnings.push(`Blueprint weightages add up to ${totalWeightage} marks but Total Marks is ${settings.totalMarks}.`);
+  }
+  return warnings;
+}
+
+// One line per unit for the generation prompt
+export function describeBlueprint(settings: ExamSettings): string {
+  return settings.blueprint
+    .map((unit) => {
+      const counts = QUESTION_TYPES.filter((type) => unit.counts[type] > 0)
+        .map((type) => `${unit.counts[type]} "${type}"`)
+        .join(', ');
+      return `- Chapter "${unit.chapter}" (${unit.weightage} marks): ${counts || 'no questions'}`;
+    })
+    .join('\n    ');
+}
+
+function findUnit(settings: ExamSettings, chapter: string | undefined): BlueprintUnit | undefined {
+  const normalized = (chapter || '').trim().toLowerCase();
+  return settings.blueprint.find((unit) => unit.chapter.trim().toLowerCase() === normalized);
+}
+
+// Checks generated sections against the blueprint, reporting missing tags and count mismatches
+export function validateBlueprintCoverage(sections: ExamSection[], settings: ExamSettings): string[] {
+  const errors: string[] = [];
+  const achieved = new Map<string, Record<QuestionType, number>>(settings.blueprint.map((unit) => [unit.id, emptyCounts()]));
+
+  sections.forEach((section) => {
+    section.questions.forEach((question) => {
+      const unit = findUnit(settings, question.chapter);
+      if (!unit) {
+        errors.push(`${SECTION_TITLES[section.type]} question ${question.id} must set "chapter" to one of the blueprint chapters.`);
+        return;
+      }
+      achieved.get(unit.id)![section.type]++;
+    });
+  });
+  if (errors.length > 0) {
+    return errors;
+  }
+
+  settings.blueprint.forEach((unit) => {
+    QUESTION_TYPES.forEach((type) => {
+      const count = achieved.get(unit.id)![type];
+      if (count !== unit.counts[type]) {
+        errors.push(`Chapter "${unit.chapter}" needs ${unit.counts[type]} "${type}" questions but has ${count}.`);
+      }
+    });
+  });
+  return errors;
+}
+
+export interface AllocationRow {
+  chapter: string;
+  counts: Record<QuestionType, number>;
+  marks: number;
+  weightage: number | null; // null for questions outside the blueprint
+}
+
+// Achieved questions and marks per chapter, for the printed allocation table
+export function buildAllocationRows(sections: ExamSection[], settings: ExamSettings): AllocationRow[] {
+  const rows: AllocationRow[] = settings.blueprint.map((unit) => ({
+    chapter: unit.chapter,
+    counts: emptyCounts(),
+    marks: 0,
+    weightage: unit.weightage,
+  }));
+  const unassigned: AllocationRow = { chapter: 'Not in blueprint', counts: emptyCounts(), marks: 0, weightage: null };
+
+  sections.forEach((section) => {
+    section.questions.forEach((question) => {
+      const unit = findUnit(settings, question.chapter);
+      const row = unit ? rows[settings.blueprint.indexOf(unit)] : unassigned;
+      row.counts[section.type]++;
+      row.marks += question.marks;
+    });
+  });
+
+  return QUESTION_TYPES.some((type) => unassigned.counts[type] > 0) ? [...rows, unassigned] : rows;
+}
@@ -0,0 +1,88 @@
+// Thin promise wrapper around the app's IndexedDB database.
+const DB_NAME = 'smartexam-ai';
+const DB_VERSION = 4;
+
+export const EXAMS_STORE = 'exams';
+export const QUESTION_BANK_STORE = 'questionBank';
+export const GRADED_SHEETS_STORE = 'gradedSheets';
+export const TEMPLATES_STORE = 'templates';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(EXAMS_STORE)) {
+          db.createObjectStore(EXAMS_STORE, { keyPath: 'id' });
+        }
+        // Added in version 2
+        if (!db.objectStoreNames.contains(QUESTION_BANK_STORE)) {
+          db.createObjectStore(QUESTION_BANK_STORE, { keyPath: 'id' });
+        }
+        // Added in version 3
+        if (!db.objectStoreNames.contains(GRADED_SHEETS_STORE)) {
+          db.createObjectStore(GRADED_SHEETS_STORE, { keyPath: 'id' });
+        }
+        // Added in version 4
+        if (!db.objectStoreNames.contains(TEMPLATES_STORE)) {
+          db.createObjectStore(TEMPLATES_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a later call to retry
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>,
+): Promise<T> {
+  const db = await openDatabase();
+  const store = db.transaction(storeName, mode).objectStore(storeName);
+  return promisifyRequest(action(store));
+}
+
+export function getAllRecords<T>(storeName: string): Promise<T[]> {
+  return withStore(storeName, 'readonly', (store) => store.getAll() as IDBRequest<T[]>);
+}
+
+export function getRecord<T>(storeName: string, key: string): Promise<T | undefined> {
+  return withStore(storeName, 'readonly', (store) => store.get(key) as IDBRequest<T | undefined>);
+}
+
+export async function putRecord<T>(storeName: string, value: T): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.put(value));
+}
+
+// Writes several records in a single transaction
+export async function putRecords<T>(storeName: string, values: T[]): Promise<void> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, 'readwrite');
+  const store = transaction.objectStore(storeName);
+  values.forEach((value) => store.put(value));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+export async function deleteRecord(storeName: string, key: string): Promise<void> {
+  await withStore(storeName, 'readwrite', (store) => store.delete(key));
+}
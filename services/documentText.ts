@@ -0,0 +1,69 @@
+import JSZip from 'jszip';
+
+// Longest source text sent with a generation request, roughly 15,000 tokens
+export const MAX_SOURCE_TEXT_CHARS = 60000;
+
+// Source text is cut into parts of about this size so questions can cite where they come from
+const SOURCE_PART_CHARS = 3000;
+
+export const DOCUMENT_ACCEPT = '.txt,.md,.docx,text/plain,text/markdown,application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+// Paragraph text of a .docx, keeping tabs and line breaks; formatting, images and fields are dropped
+async function readDocxText(file: File): Promise<string> {
+  let zip: JSZip;
+  try {
+    zip = await JSZip.loadAsync(file);
+  } catch {
+    throw new Error(`"${file.name}" could not be opened. Save it as a .docx (not .doc) and try again.`);
+  }
+  const xml = await zip.file('word/document.xml')?.async('string');
+  if (!xml) {
+    throw new Error(`"${file.name}" is not a Word document.`);
+  }
+  const document = new DOMParser().parseFromString(xml, 'application/xml');
+  return Array.from(document.getElementsByTagNameNS(WORD_NAMESPACE, 'p'))
+    .map((paragraph) =>
+      Array.from(paragraph.getElementsByTagNameNS(WORD_NAMESPACE, '*'))
+        .map((node) => {
+          switch (node.localName) {
+            case 't':
+              return node.textContent || '';
+            case 'tab':
+              return '\t';
+            case 'br':
+            case 'cr':
+              return '\n';
+            default:
+              return '';
+          }
+        })
+        .join(''),
+    )
+    .join('\n');
+}
+
+// Reads chapter notes or a syllabus from a .txt, .md or .docx file
+export async function readDocumentText(file: File): Promise<string> {
+  const text = /\.docx$/i.test(file.name) ? await readDocxText(file) : await file.text();
+  return text.replace(/\r\n?/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+}
+
+// Splits the text at paragraph breaks into parts of roughly equal size; a single
+// paragraph longer than a part is kept whole
+export function splitSourceText(text: string): string[] {
+  const parts: string[] = [];
+  let current = '';
+  for (const paragraph of text.split(/\n\s*\n/).map((block) => block.trim()).filter(Boolean)) {
+    if (current && current.length + paragraph.length > SOURCE_PART_CHARS) {
+      parts.push(current);
+      current = '';
+    }
+    current = current ? `${current}\n\n${paragraph}` : paragraph;
+  }
+  if (current) {
+    parts.push(current);
+  }
+  return parts;
+}
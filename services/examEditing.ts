@@ -0,0 +1,114 @@
+import { Difficulty, ExamSection, ExamSettings, GeneratedExam, MatchPair, Question, QuestionType, SubQuestion } from '../types';
+import { ASSERTION_REASON_OPTIONS, OPTION_LABELS, TRUE_FALSE_ANSWERS } from './examSchema';
+import { QUESTION_TYPES, SECTION_TITLES, getMarksPerQuestion } from './questionTypes';
+
+// Immutable helpers used by the editor; each returns a new exam and leaves the input untouched.
+
+function mapSection(exam: GeneratedExam, sectionId: string, update: (section: ExamSection) => ExamSection): GeneratedExam {
+  return {
+    ...exam,
+    sections: exam.sections.map((section) => (section.id === sectionId ? update(section) : section)),
+  };
+}
+
+// Next free "<type>-<n>" id, so new questions never collide with existing ones or their answer keys
+export function createQuestionId(exam: GeneratedExam, type: QuestionType): string {
+  const usedIds = new Set(exam.sections.flatMap((section) => section.questions.map((question) => question.id)));
+  let index = 1;
+  while (usedIds.has(`${type}-${index}`)) {
+    index++;
+  }
+  return `${type}-${index}`;
+}
+
+export function createBlankQuestion(exam: GeneratedExam, type: QuestionType, marks: number, difficulty: Difficulty): Question {
+  const question: Question = { id: createQuestionId(exam, type), type, text: '', marks, difficulty };
+  switch (type) {
+    case 'mcq':
+      return { ...question, options: OPTION_LABELS.map(() => ''), correctAnswer: OPTION_LABELS[0] };
+    case 'assertionReason':
+      return { ...question, reason: '', options: ASSERTION_REASON_OPTIONS, correctAnswer: OPTION_LABELS[0] };
+    case 'trueFalse':
+      return { ...question, correctAnswer: TRUE_FALSE_ANSWERS[0] };
+    case 'fillBlank':
+      return { ...question, text: '_____', correctAnswer: '' };
+    case 'match':
+      return { ...question, matchPairs: [{ left: '', right: '' }] };
+    case 'caseStudy':
+      return { ...question, subQuestions: [{ text: '', marks, modelAnswer: '' }] };
+    case 'short':
+    case 'long':
+      return { ...question, modelAnswer: '', markingScheme: [] };
+  }
+}
+
+export function updateQuestion(exam: GeneratedExam, sectionId: string, question: Question): GeneratedExam {
+  return mapSection(exam, sectionId, (section) => ({
+    ...section,
+    questions: section.questions.map((existing) => (existing.id === question.id ? question : existing)),
+  }));
+}
+
+// Takes out a match pair or part of a question along with its translation, so the translations after it
+// stay lined up with the original
+export function removeQuestionPart(question: Question, field: 'matchPairs' | 'subQuestions', index: number): Question {
+  const without = <T,>(items: T[] | undefined) => items?.filter((_, other) => other !== index);
+  const { translation } = question;
+  return {
+    ...question,
+    [field]: without<MatchPair | SubQuestion>(question[field]),
+    ...(translation ? { translation: { ...translation, [field]: without<MatchPair | string>(translation[field]) } } : {}),
+  };
+}
+
+export function addQuestion(exam: GeneratedExam, sectionId: string, question: Question): GeneratedExam {
+  return mapSection(exam, sectionId, (section) => ({ ...section, questions: [...section.questions, question] }));
+}
+
+export function deleteQuestion(exam: GeneratedExam, sectionId: string, questionId: string): GeneratedExam {
+  return mapSection(exam, sectionId, (section) => ({
+    ...section,
+    questions: section.questions.filter((question) => question.id !== questionId),
+  }));
+}
+
+// Moves a question one place up (-1) or down (+1) within its section
+export function moveQuestion(exam: GeneratedExam, sectionId: string, questionId: string, offset: -1 | 1): GeneratedExam {
+  return mapSection(exam, sectionId, (section) => {
+    const index = section.questions.findIndex((question) => question.id === questionId);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= section.questions.length) {
+      return section;
+    }
+    const questions = [...section.questions];
+    [questions[index], questions[target]] = [questions[target], questions[index]];
+    return { ...section, questions };
+  });
+}
+
+// The paper's section for a question type, creating it in the usual order when it is missing
+function withSection(exam: GeneratedExam, type: QuestionType): { exam: GeneratedExam; section: ExamSection } {
+  const existing = exam.sections.find((section) => section.type === type);
+  if (existing) {
+    return { exam, section: existing };
+  }
+  const section: ExamSection = { id: `section-${type}`, type, title: SECTION_TITLES[type], questions: [] };
+  const sections = [...exam.sections, section].sort((a, b) => QUESTION_TYPES.indexOf(a.type) - QUESTION_TYPES.indexOf(b.type));
+  return { exam: { ...exam, sections }, section };
+}
+
+// Appends a question to the end of its type's section under a fresh id
+export function addQuestionOfType(exam: GeneratedExam, question: Question): GeneratedExam {
+  const { exam: result, section } = withSection(exam, question.type);
+  return addQuestion(result, section.id, { ...question, id: createQuestionId(result, question.type) });
+}
+
+// Appends copies of hand-picked questions, creating any missing section in the usual order.
+// Copies get fresh ids and the current per-type marks so they fit the paper they join.
+export function addPickedQuestions(exam: GeneratedExam, questions: Question[], settings: ExamSettings): GeneratedExam {
+  return questions.reduce((result, picked) => {
+    // Its source cites the pages of the paper it came from, which this paper does not have
+    const { source, ...withoutSource } = picked;
+    return addQuestionOfType(result, { ...withoutSource, marks: getMarksPerQuestion(settings, picked.type) });
+  }, exam);
+}
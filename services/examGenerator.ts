@@ -0,0 +1,488 @@
+import { ExamSettings, ExamSource, GeneratedExam, Question, QuestionType, SectionNaming } from '../types';
+import {
+  OPTION_LABELS,
+  SheetAnswer,
+  SourceAnalysis,
+  ValidationResult,
+  analysisResponseSchema,
+  examResponseSchema,
+  gradingResponseSchema,
+  parseAndValidateAnalysis,
+  parseAndValidateExam,
+  parseAndValidateGrading,
+  parsePartialExam,
+  parseAndValidateQuestion,
+  parseAndValidateTranslation,
+  questionResponseSchema,
+  translationResponseSchema,
+} from './examSchema';
+import {
+  AUTO_SCORED_TYPES,
+  QUESTION_TYPES,
+  QUESTION_TYPE_LABELS,
+  SECTION_TITLES,
+  getMarksPerQuestion,
+  getRequestedCount,
+} from './questionTypes';
+import { getSectionLabel } from './marks';
+import { describeBloomTargets, getSectionBloomTargets } from './bloom';
+import { describeBlueprint } from './blueprint';
+import { cropImage, readFileAsDataUrl } from './imageUtils';
+import { splitSourceText } from './documentText';
+import { hasSourceMaterial } from './grounding';
+import { getLetterLabel, getOptionLabelFor } from './questionFormats';
+import { Language, getLanguage, getSecondLanguage } from './languages';
+import { GenerationRequest, ImageInput, LlmProvider, ProviderError, isAbortError } from './providers';
+
+// How many times to ask the model to repair output that fails validation
+const MAX_GENERATION_ATTEMPTS = 3;
+
+// Room for the summary plus a word-for-word transcription of each page
+const ANALYSIS_BASE_TOKENS = 500;
+const ANALYSIS_TOKENS_PER_PAGE = 1000;
+
+// How each question cites the page text, shared by generation and regeneration
+const SOURCE_INSTRUCTION =
+  'Set each question\'s "source" to the "imageIndexes" of the page(s) it is based on and an "excerpt" of at most 40 words copied word for word from the page text below that supports the question and its answer. Only ask about content that appears on the pages.';
+
+const WRITTEN_ANSWER_FORMAT =
+  'Include a "modelAnswer" a teacher can mark against and a "markingScheme" listing the points a complete answer must cover, one point per entry. The depth of the answer and the number of rubric points should match the marks. A question with several parts may list them as "subQuestions" (each with "text", "marks" and "modelAnswer") whose marks add up to the question\'s marks.';
+
+// How formulas, tables and figures are written, shared by generation and regeneration
+const NOTATION_INSTRUCTIONS =
+  'Write mathematical expressions in LaTeX between single dollar signs, e.g. $\\frac{1}{2}mv^2$, and a displayed equation between double dollar signs. Write chemical formulas and equations with mhchem, e.g. $\\ce{2H2 + O2 -> 2H2O}$. Give any data table as a Markdown pipe table on its own lines.';
+
+// Which language(s) to write in, shared by generation and regeneration. Answer letters stay Latin
+// whatever the script; the paper prints them with the script's own labels.
+function describeLanguageInstruction(settings: ExamSettings): string {
+  const language = getLanguage(settings.language);
+  const secondLanguage = getSecondLanguage(settings);
+  const primary = `Write the paper in ${language.name}${language.nativeName !== language.name ? ` (${language.nativeName})` : ''}. Give every "correctAnswer" letter as A, B, C or D even when the paper is in another script.`;
+  if (!secondLanguage) {
+    return primary;
+  }
+  return `${primary} This is a bilingual paper: give every question a "translation" into ${secondLanguage.name} (${secondLanguage.nativeName}) with the same meaning, holding its "text" and, where the question has them, its "options", "reason", "matchPairs" and the text of each of its "subQuestions", all in the same order as the original. Answers, model answers and marking schemes stay in ${language.name} only.`;
+}
+
+// JSON fields each question type must fill in, shared by generation and regeneration
+const QUESTION_FORMATS: Record<QuestionType, string> = {
+  mcq: 'Give exactly 4 distinct options without "A)"/"B)" labels, a "correctAnswer" letter (A, B, C or D) and a one-sentence "modelAnswer" explaining why it is correct.',
+  trueFalse: 'Write a single statement in "text" and set "correctAnswer" to "True" or "False". Add a one-sentence "modelAnswer" explaining the answer.',
+  fillBlank: 'Write a sentence in "text" with each missing word replaced by "_____" and put the missing word(s) in "correctAnswer", separated by semicolons when there is more than one blank.',
+  match: 'Write the instruction in "text" and give 4 to 6 "matchPairs", each with a "left" item for Column A and its correct "right" partner for Column B. Do not shuffle the pairs; the paper reorders Column B.',
+  assertionReason: 'Put the Assertion statement in "text" and the Reason statement in "reason". Set "correctAnswer" to A (both true, R explains A), B (both true, R does not explain A), C (A true, R false) or D (A false, R true), and add a one-sentence "modelAnswer" explaining it. Do not include options.',
+  short: WRITTEN_ANSWER_FORMAT,
+  long: WRITTEN_ANSWER_FORMAT,
+  caseStudy: 'Put a short passage or scenario of 60–120 words in "text" and give 3 or 4 "subQuestions" about it, each with its "text", "marks" and a "modelAnswer". The sub-question marks must add up to the marks of the case study.',
+};
+
+export type GenerationStage = 'analysis' | 'questions';
+
+export interface GenerationProgress {
+  stage: GenerationStage;
+  attempt: number; // Above 1 while the model repairs output that failed validation
+  partialExam?: GeneratedExam; // Sections received in full so far
+  writingSection?: QuestionType | null; // Section currently arriving
+}
+
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: GenerationProgress) => void;
+}
+
+// Text of the source to write questions from, with the analysis summary when it came from page images
+interface SourceMaterial {
+  summary?: string;
+  pageTexts: string[];
+}
+
+// Step A for uploaded pages: read each page and summarise what they cover
+async function analyzeImages(
+  images: File[],
+  settings: ExamSettings,
+  provider: LlmProvider,
+  { signal, onProgress }: GenerationOptions,
+): Promise<SourceMaterial> {
+  // Convert images to base64 parts
+  const imageInputs = await toImageInputs(images);
+
+  // Image Analysis & Topic Extraction, keeping each page's text so questions can cite it
+  const analysisPrompt = `You are an expert educator. Analyze the provided images of textbook pages and exercises for an exam paper for Class ${settings.className}, Board ${settings.board}.
+
+    1.  In "summary", identify the main subject, specific topic, key concepts, and common question formats (e.g., definitions, problem-solving, diagrams, true/false) in about 200 words, clearly stating the main topic and key areas covered.
+    2.  In "pages", give one entry per image with its "imageIndex" (0 for the first image, in the order given) and the "text" of that page: its headings, definitions, statements, worked examples and exercise questions copied word for word, and a one-line description of each figure. Questions are checked against this text, so do not paraphrase.
+    3.  Respond only with JSON matching the provided schema.`;
+
+  onProgress?.({ stage: 'analysis', attempt: 1 });
+  let analysis: SourceAnalysis;
+  try {
+    analysis = await generateValidatedJson(
+      provider,
+      {
+        task: { kind: 'analysis', imageCount: images.length },
+        prompt: analysisPrompt,
+        responseSchema: analysisResponseSchema,
+        images: imageInputs,
+        modelRole: 'vision', // Multimodal model
+        maxOutputTokens: ANALYSIS_BASE_TOKENS + ANALYSIS_TOKENS_PER_PAGE * images.length,
+        temperature: 0.2, // The page text should be copied, not rewritten
+        signal,
+      },
+      (rawText) => parseAndValidateAnalysis(rawText, images.length),
+      'analysis',
+      (attempt) => onProgress?.({ stage: 'analysis', attempt }),
+    );
+  } catch (error) {
+    // Cancellation and provider failures already say what went wrong
+    if (isAbortError(error) || error instanceof ProviderError) {
+      throw error;
+    }
+    console.error("Error during image analysis:", error);
+    throw new Error("Failed to analyze images. Please try again.");
+  }
+  console.log("Image Analysis Summary:", analysis.summary);
+  return { summary: analysis.summary, pageTexts: analysis.pageTexts };
+}
+
+// Where the questions come from, as stated at the start of the generation prompt
+function describeSource(source: ExamSource, material: SourceMaterial, settings: ExamSettings): string {
+  switch (source.kind) {
+    case 'images':
+      return `the following analysis of textbook content: "${material.summary}"`;
+    case 'text':
+      return 'the source text given below, split into numbered parts';
+    case 'topic':
+      return `what the ${settings.board} syllabus covers on this topic for this class`;
+  }
+}
+
+// Papers from text or the topic have no page images, so there are no figures to point at
+function describeDiagramInstruction(source: ExamSource): string {
+  return source.kind === 'images'
+    ? 'If a question is about a figure or diagram on one of the pages, set its "diagram" to the page\'s "imageIndex" (0 for the first image, in the order given) and the figure\'s "x", "y", "width" and "height" as fractions (0 to 1) of the page\'s width and height, measured from the top-left corner.'
+    : 'Do not set a "diagram"; no page images are provided. Describe any data a question needs in its text or as a table.';
+}
+
+// A model may still cite a source when there is nothing to cite; such citations are meaningless
+function withoutSources(exam: GeneratedExam): GeneratedExam {
+  return {
+    ...exam,
+    sections: exam.sections.map((section) => ({
+      ...section,
+      questions: section.questions.map(({ source, ...question }) => question),
+    })),
+  };
+}
+
+// Writes a paper from uploaded pages, pasted or uploaded text, or only the topic. Page images
+// are analysed first; text is used as it is, and a topic-only paper draws on the syllabus.
+export async function generateExamFromSource(
+  source: ExamSource,
+  settings: ExamSettings,
+  provider: LlmProvider,
+  { signal, onProgress }: GenerationOptions = {},
+): Promise<GeneratedExam> {
+  const material: SourceMaterial =
+    source.kind === 'images'
+      ? await analyzeImages(source.images, settings, provider, { signal, onProgress })
+      : { pageTexts: source.kind === 'text' ? splitSourceText(source.text) : [] };
+
+  // Step B: Question Generation for every requested question type
+  const requestedSections = QUESTION_TYPES.filter((type) => getRequestedCount(settings, type) > 0)
+    .map((type) => `- Exactly ${getRequestedCount(settings, type)} ${SECTION_TITLES[type]} (${getMarksPerQuestion(settings, type)} marks each) in a section with type "${type}". ${QUESTION_FORMATS[type]}`)
+    .join('\n    ');
+  const bloomDistribution = QUESTION_TYPES.filter((type) => getRequestedCount(settings, type) > 0)
+    .map((type) => `- "${type}" section: ${describeBloomTargets(getSectionBloomTargets(settings, type))}`)
+    .join('\n    ');
+  const hasPageText = material.pageTexts.length > 0;
+  // Uses the provider's text model for better reasoning in question generation
+  const generationPrompt = `Based on the following topic: "${settings.topic}", class "${settings.className}", board "${settings.board}", and ${describeSource(source, material, settings)}, generate an exam paper with the specified number of questions for each type.
+
+    **Instructions:**
+    1.  Generate these sections, in this order:
+    ${requestedSections}
+    2.  Every question must follow the format given for its section above, and the depth of each answer should match the marks the question carries.
+    3.  Do not include sections for any other question type.
+    4.  The overall difficulty of the paper is "${settings.difficulty}". Tag every question with its own "difficulty" (easy, medium or hard), keeping most questions at the overall level.
+    5.  Tag every question with the Bloom's taxonomy "bloomLevel" it targets, and follow this distribution exactly:
+    ${bloomDistribution}
+    6.  Ensure questions are relevant to the provided topic and insights, and are appropriate for the specified class and board.
+    7.  Do not number the questions; numbering is added when the paper is rendered.
+    8.  ${describeLanguageInstruction(settings)}
+    9.  ${NOTATION_INSTRUCTIONS}
+    10. ${describeDiagramInstruction(source)}
+    11. ${hasPageText ? SOURCE_INSTRUCTION : 'Keep every question within the syllabus for this class and board, and make sure each answer is factually correct. Do not set a "source".'}
+    12. Respond only with JSON matching the provided schema.
+    ${settings.blueprintEnabled ? `13. Follow this chapter blueprint exactly. Set each question's "chapter" to the chapter name exactly as written, and draw precisely the listed number of questions of each type from each chapter:
+    ${describeBlueprint(settings)}` : ''}
+    ${hasPageText ? `
+    **${source.kind === 'images' ? 'Page text' : 'Source text'}:**
+    ${describePageTexts(material.pageTexts)}` : ''}
+    `;
+
+  onProgress?.({ stage: 'questions', attempt: 1 });
+  const exam = await generateValidatedJson(
+    provider,
+    { task: { kind: 'exam', settings }, prompt: generationPrompt, responseSchema: examResponseSchema, signal },
+    (rawText) => parseAndValidateExam(rawText, settings),
+    'exam',
+    (attempt, textSoFar) => {
+      const partial = parsePartialExam(textSoFar, settings);
+      onProgress?.({ stage: 'questions', attempt, partialExam: partial.exam, writingSection: partial.writingType });
+    },
+  );
+  const images = source.kind === 'images' ? source.images : [];
+  const withDiagrams = await attachDiagramCrops(hasPageText ? exam : withoutSources(exam), images);
+  return { ...withDiagrams, sourceSummary: material.summary, sourcePages: material.pageTexts };
+}
+
+function toImageInputs(images: File[]): Promise<ImageInput[]> {
+  return Promise.all(
+    images.map(async (file) => ({
+      mimeType: file.type,
+      data: (await readFileAsDataUrl(file)).split(',')[1],
+    })),
+  );
+}
+
+function describePageTexts(pageTexts: string[]): string {
+  return pageTexts.map((text, imageIndex) => `[imageIndex ${imageIndex}]\n${text}`).join('\n\n');
+}
+
+// Cuts each referenced figure out of its page; references to pages that do not exist are dropped
+async function attachDiagramCrops(exam: GeneratedExam, images: File[]): Promise<GeneratedExam> {
+  const cropQuestion = async (question: Question): Promise<Question> => {
+    if (!question.diagram || question.diagram.dataUrl) {
+      return question;
+    }
+    const { diagram, ...rest } = question;
+    const image = images[diagram.imageIndex];
+    if (!image) {
+      return rest;
+    }
+    try {
+      return { ...question, diagram: { ...diagram, ...(await cropImage(image, diagram.region)) } };
+    } catch (error) {
+      console.warn(`Could not crop the diagram for question ${question.id}:`, error);
+      return rest;
+    }
+  };
+  const sections = await Promise.all(
+    exam.sections.map(async (section) => ({ ...section, questions: await Promise.all(section.questions.map(cropQuestion)) })),
+  );
+  return { ...exam, sections };
+}
+
+// Asks for one replacement question of the same type, marks and level, avoiding the rest of the paper.
+// A question with no text yet is written from scratch, e.g. to fill a section that came back short.
+export async function regenerateQuestion(
+  question: Question,
+  exam: GeneratedExam,
+  settings: ExamSettings,
+  provider: LlmProvider,
+): Promise<Question> {
+  const otherQuestions = exam.sections
+    .flatMap((section) => section.questions)
+    .filter((other) => other.id !== question.id)
+    .map((other) => `- ${other.text}`)
+    .join('\n    ');
+  const isNew = !question.text.trim();
+  const level = `Bloom's level ("${question.bloomLevel || 'understand'}") and difficulty ("${question.difficulty || settings.difficulty}")`;
+
+  const regenerationPrompt = `You are an expert educator setting an exam on the topic "${settings.topic}" for class "${settings.className}", board "${settings.board}".${exam.sourceSummary ? ` The paper is based on this analysis of textbook content: "${exam.sourceSummary}".` : ''}
+
+    Write ONE new ${QUESTION_TYPE_LABELS[question.type]} worth ${question.marks} marks ${isNew ? 'to add to the paper.' : `to replace this question:
+    "${question.text}"`}
+
+    **Instructions:**
+    1.  ${isNew ? `Test a part of the topic the other questions do not, at ${level}.` : `Cover the same topic area at the same ${level}, but do not reuse the wording or the exact concept being tested.`}
+    2.  It must not duplicate any of the other questions on the paper:
+    ${otherQuestions || '(none)'}
+    3.  ${QUESTION_FORMATS[question.type]}
+    4.  Tag the question with its "bloomLevel" and "difficulty".${question.chapter ? ` Draw it from the chapter "${question.chapter}".` : ''}
+    5.  ${describeLanguageInstruction(settings)}
+    6.  ${NOTATION_INSTRUCTIONS}
+    7.  Respond only with JSON matching the provided schema.
+    ${exam.sourcePages?.length ? `8.  ${SOURCE_INSTRUCTION}
+
+    **Page text:**
+    ${describePageTexts(exam.sourcePages)}` : ''}
+    `;
+
+  const replacement = await generateValidatedJson(
+    provider,
+    { task: { kind: 'question', question, settings }, prompt: regenerationPrompt, responseSchema: questionResponseSchema },
+    (rawText) => parseAndValidateQuestion(rawText, question.type, question.id, question.marks, getSecondLanguage(settings) !== null),
+    'question',
+  );
+  // The replacement is written without the page images, so it cannot point at a figure on them
+  const { diagram, ...withoutDiagram } = replacement;
+  // A paper written from the topic alone has no source to cite
+  const { source, ...withoutSource } = withoutDiagram;
+  const kept = hasSourceMaterial(exam) ? withoutDiagram : withoutSource;
+  // Keep the blueprint allocation intact regardless of how the model tagged the replacement
+  return question.chapter ? { ...kept, chapter: question.chapter } : kept;
+}
+
+// Writes the second-language version of a question as it stands, e.g. after the teacher edited it or
+// added it by hand, leaving the original untouched
+export async function translateQuestion(question: Question, settings: ExamSettings, provider: LlmProvider): Promise<Question> {
+  const language = getLanguage(settings.language);
+  const secondLanguage = getSecondLanguage(settings);
+  if (!secondLanguage) {
+    throw new Error('The paper has no second language to translate into.');
+  }
+  // Only the parts printed in both languages; assertion–reason choices keep their standard wording
+  const original = {
+    text: question.text,
+    ...(question.type === 'mcq' && question.options ? { options: question.options } : {}),
+    ...(question.reason ? { reason: question.reason } : {}),
+    ...(question.matchPairs ? { matchPairs: question.matchPairs } : {}),
+    ...(question.subQuestions ? { subQuestions: question.subQuestions.map((sub) => sub.text) } : {}),
+  };
+
+  const translationPrompt = `You are translating an exam for class "${settings.className}", board "${settings.board}", from ${language.name} into ${secondLanguage.name} (${secondLanguage.nativeName}).
+
+    Translate this ${QUESTION_TYPE_LABELS[question.type]}:
+    ${JSON.stringify(original)}
+
+    **Instructions:**
+    1.  Translate every field given, with the same meaning, keeping each list in the same order and with the same number of entries.
+    2.  Keep LaTeX, chemical formulas and Markdown tables as they are, translating only the words around them.
+    3.  Respond only with JSON matching the provided schema.
+    `;
+
+  return generateValidatedJson(
+    provider,
+    { task: { kind: 'translation', question, settings }, prompt: translationPrompt, responseSchema: translationResponseSchema, temperature: 0.2 },
+    (rawText) => parseAndValidateTranslation(rawText, question),
+    'translation',
+  );
+}
+
+// Room for a transcription and a justification of every answer on the sheet
+const GRADING_BASE_TOKENS = 1000;
+const GRADING_TOKENS_PER_QUESTION = 300;
+
+// Lists each question as printed on the student's set, with what the model needs to read or mark it
+// Choices are reported as A-D; a paper in another script prints them with its own letters
+function describeChoices(labels: Language): string {
+  const printed = OPTION_LABELS.map((letter) => getOptionLabelFor(letter, labels));
+  if (printed.every((label, index) => label === OPTION_LABELS[index])) {
+    return `one of ${OPTION_LABELS.join(', ')}`;
+  }
+  return `one of ${OPTION_LABELS.join(', ')}, where the paper prints ${OPTION_LABELS.map((letter, index) => `${letter} as ${printed[index]}`).join(', ')}`;
+}
+
+function describeQuestionsForGrading(exam: GeneratedExam, labels: Language, naming: SectionNaming): string {
+  return exam.sections
+    .flatMap((section, sectionIndex) =>
+      section.questions.map((question, index) => {
+        const heading = `[questionId "${question.id}"] ${getSectionLabel(sectionIndex, naming)}, question ${index + 1} (${QUESTION_TYPE_LABELS[question.type]}, ${question.marks} marks): ${question.text}`;
+        if (AUTO_SCORED_TYPES.includes(question.type)) {
+          const choices = question.type === 'trueFalse' ? 'True or False' : describeChoices(labels);
+          return `${heading}\n    Read the student's choice: ${choices}.`;
+        }
+        const parts = (question.subQuestions || []).map((sub, subIndex) => `      ${getLetterLabel(subIndex, labels)} ${sub.text} [${sub.marks} marks] Model answer: ${sub.modelAnswer}`);
+        const rubric = (question.markingScheme || []).map((point) => `      - ${point}`);
+        return [
+          heading,
+          question.correctAnswer ? `    Answer key: ${question.correctAnswer}` : '',
+          question.modelAnswer ? `    Model answer: ${question.modelAnswer}` : '',
+          question.matchPairs ? `    Correct pairs: ${question.matchPairs.map((pair) => `${pair.left} – ${pair.right}`).join('; ')}` : '',
+          ...(parts.length > 0 ? ['    Parts:', ...parts] : []),
+          ...(rubric.length > 0 ? ['    Marking scheme:', ...rubric] : []),
+        ]
+          .filter(Boolean)
+          .join('\n');
+      }),
+    )
+    .join('\n\n    ');
+}
+
+// Reads a student's completed answer sheet against the set they sat. Objective answers are only
+// transcribed and are scored against the key by the caller; written answers get suggested marks.
+export async function readAnswerSheet(
+  images: File[],
+  exam: GeneratedExam,
+  settings: ExamSettings,
+  provider: LlmProvider,
+  signal?: AbortSignal,
+): Promise<SheetAnswer[]> {
+  const questionCount = exam.sections.reduce((count, section) => count + section.questions.length, 0);
+  const gradingPrompt = `You are an experienced, fair examiner for class "${settings.className}", board "${settings.board}", marking a student's answers to an exam on "${settings.topic}". The images are photos of the student's completed answer sheet, in page order. Multiple-choice answers may be given as filled bubbles on an OMR sheet, listed by section and question number.
+
+    **Questions on the paper:**
+    ${describeQuestionsForGrading(exam, getLanguage(settings.language), settings.layout.sectionNaming)}
+
+    **Instructions:**
+    1.  Give one entry in "answers" for every question above, identified by its "questionId". Match answers to questions by the section and question numbers the student wrote.
+    2.  In "studentAnswer", transcribe what the student wrote for that question word for word, or leave it empty if the question was not answered or cannot be read. For choice questions give only the letter, or True/False, that was chosen; if several bubbles are filled, leave it empty.
+    3.  For every question that is not a choice question, award "marks" from 0 up to the question's marks following its marking scheme and model answer, in steps of 0.5. Give credit for correct points expressed in the student's own words, and do not penalise spelling or grammar unless the meaning is lost.
+    4.  For those questions, explain the marks in "justification" in one or two sentences that name the rubric points covered and missed.
+    5.  Respond only with JSON matching the provided schema.`;
+
+  return generateValidatedJson(
+    provider,
+    {
+      task: { kind: 'grading', exam },
+      prompt: gradingPrompt,
+      responseSchema: gradingResponseSchema,
+      images: await toImageInputs(images),
+      modelRole: 'vision',
+      maxOutputTokens: GRADING_BASE_TOKENS + GRADING_TOKENS_PER_QUESTION * questionCount,
+      temperature: 0.1, // Marking should be consistent from one sheet to the next
+      signal,
+    },
+    (rawText) => parseAndValidateGrading(rawText, exam),
+    'answer sheet marks',
+  );
+}
+
+type JsonRequest = Pick<GenerationRequest, 'task' | 'prompt' | 'responseSchema'> &
+  Partial<Pick<GenerationRequest, 'images' | 'modelRole' | 'maxOutputTokens' | 'temperature' | 'signal'>>;
+
+// Generates JSON and asks the model to repair it until it passes validation.
+// With onText the response is streamed and reported as it arrives, restarting on each attempt.
+async function generateValidatedJson<T>(
+  provider: LlmProvider,
+  request: JsonRequest,
+  validate: (rawText: string) => ValidationResult<T>,
+  label: string,
+  onText?: (attempt: number, textSoFar: string) => void,
+): Promise<T> {
+  let prompt = request.prompt;
+  let errors: string[] = [];
+  for (let attempt = 1; attempt <= MAX_GENERATION_ATTEMPTS; attempt++) {
+    onText?.(attempt, '');
+    const rawText = await provider.generate({
+      modelRole: 'text',
+      maxOutputTokens: 8192, // Sufficient tokens for a full exam as JSON
+      temperature: 0.7, // Balance creativity and factual accuracy
+      topP: 0.95,
+      topK: 64,
+      ...request,
+      prompt,
+      ...(onText ? { onText: (textSoFar: string) => onText(attempt, textSoFar) } : {}),
+    });
+    const result = validate(rawText);
+    if (result.value) {
+      return result.value;
+    }
+
+    errors = result.errors;
+    console.warn(`Generated ${label} failed validation (attempt ${attempt}):`, errors);
+    // Feed the invalid output and the problems back so the model can repair it
+    prompt = `${request.prompt}
+
+    Your previous response did not match the required format:
+    ${rawText}
+
+    Problems found:
+    ${errors.map((error) => `- ${error}`).join('\n    ')}
+
+    Return the corrected ${label} as JSON only, fixing every problem listed above.`;
+  }
+
+  throw new Error(`The generated ${label} did not match the expected format after ${MAX_GENERATION_ATTEMPTS} attempts: ${errors.join(' ')}`);
+}
@@ -0,0 +1,84 @@
+import { ExamSettings, GeneratedExam, SavedExam } from '../types';
+import { EXAMS_STORE, deleteRecord, getAllRecords, getRecord, putRecord } from './db';
+import { createThumbnail } from './imageUtils';
+
+export function getDefaultExamTitle(settings: ExamSettings): string {
+  return `${settings.topic} – ${settings.className}`;
+}
+
+export async function listSavedExams(): Promise<SavedExam[]> {
+  const exams = await getAllRecords<SavedExam>(EXAMS_STORE);
+  return exams.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export function getSavedExam(id: string): Promise<SavedExam | undefined> {
+  return getRecord<SavedExam>(EXAMS_STORE, id);
+}
+
+// Matches every whitespace-separated term against the title and the main settings fields
+export function searchSavedExams(exams: SavedExam[], query: string): SavedExam[] {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) {
+    return exams;
+  }
+  return exams.filter((saved) => {
+    const haystack = [saved.title, saved.settings.topic, saved.settings.className, saved.settings.board]
+      .join(' ')
+      .toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+export async function saveNewExam(settings: ExamSettings, exam: GeneratedExam, images: File[]): Promise<SavedExam> {
+  const thumbnails = await Promise.all(images.map((file) => createThumbnail(file)));
+  const now = Date.now();
+  const saved: SavedExam = {
+    id: crypto.randomUUID(),
+    title: getDefaultExamTitle(settings),
+    settings,
+    exam,
+    thumbnails,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putRecord(EXAMS_STORE, saved);
+  return saved;
+}
+
+export async function updateSavedExam(
+  id: string,
+  changes: Partial<Pick<SavedExam, 'title' | 'settings' | 'exam'>>,
+): Promise<SavedExam> {
+  const existing = await getSavedExam(id);
+  if (!existing) {
+    throw new Error('This exam is no longer in the library.');
+  }
+  const updated: SavedExam = { ...existing, ...changes, updatedAt: Date.now() };
+  await putRecord(EXAMS_STORE, updated);
+  return updated;
+}
+
+export function renameSavedExam(id: string, title: string): Promise<SavedExam> {
+  return updateSavedExam(id, { title: title.trim() || 'Untitled exam' });
+}
+
+export async function duplicateSavedExam(id: string): Promise<SavedExam> {
+  const existing = await getSavedExam(id);
+  if (!existing) {
+    throw new Error('This exam is no longer in the library.');
+  }
+  const now = Date.now();
+  const copy: SavedExam = {
+    ...existing,
+    id: crypto.randomUUID(),
+    title: `${existing.title} (copy)`,
+    createdAt: now,
+    updatedAt: now,
+  };
+  await putRecord(EXAMS_STORE, copy);
+  return copy;
+}
+
+export function deleteSavedExam(id: string): Promise<void> {
+  return deleteRecord(EXAMS_STORE, id);
+}
@@ -0,0 +1,704 @@
+import { DiagramCrop, ExamSection, ExamSettings, GeneratedExam, Question, QuestionSource, QuestionTranslation, QuestionType, SubQuestion } from '../types';
+import { BLOOM_LEVELS, DIFFICULTIES } from './bloom';
+import { validateBlueprintCoverage } from './blueprint';
+import { AUTO_SCORED_TYPES, QUESTION_TYPES, SECTION_TITLES, getMarksPerQuestion, getRequestedCount } from './questionTypes';
+import { getSecondLanguage } from './languages';
+
+export const OPTION_LABELS = ['A', 'B', 'C', 'D'];
+
+export const TRUE_FALSE_ANSWERS = ['True', 'False'];
+
+// The standard board wording; assertion–reason questions always offer these four choices in this order
+export const ASSERTION_REASON_OPTIONS = [
+  'Both A and R are true, and R is the correct explanation of A.',
+  'Both A and R are true, but R is not the correct explanation of A.',
+  'A is true, but R is false.',
+  'A is false, but R is true.',
+];
+
+// Fill-in-the-blank text must mark each gap with a run of underscores
+const BLANK_PATTERN = /_{3,}/;
+
+const MIN_MATCH_PAIRS = 3;
+const MIN_SUB_QUESTIONS = 2;
+
+// JSON schema for a question's second-language version, on its own when only the translation is rewritten
+export const translationResponseSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    options: { type: 'array', items: { type: 'string' } },
+    reason: { type: 'string' },
+    matchPairs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { left: { type: 'string' }, right: { type: 'string' } },
+        required: ['left', 'right'],
+      },
+    },
+    subQuestions: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['text'],
+};
+
+// JSON schema for a single question, shared by full-exam generation and single-question regeneration
+export const questionResponseSchema = {
+  type: 'object',
+  properties: {
+    text: { type: 'string' },
+    options: { type: 'array', items: { type: 'string' } },
+    correctAnswer: { type: 'string' },
+    modelAnswer: { type: 'string' },
+    markingScheme: { type: 'array', items: { type: 'string' } },
+    reason: { type: 'string' },
+    matchPairs: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { left: { type: 'string' }, right: { type: 'string' } },
+        required: ['left', 'right'],
+      },
+    },
+    subQuestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { text: { type: 'string' }, marks: { type: 'number' }, modelAnswer: { type: 'string' } },
+        required: ['text', 'marks', 'modelAnswer'],
+      },
+    },
+    diagram: {
+      type: 'object',
+      properties: {
+        imageIndex: { type: 'integer' },
+        x: { type: 'number' },
+        y: { type: 'number' },
+        width: { type: 'number' },
+        height: { type: 'number' },
+      },
+      required: ['imageIndex', 'x', 'y', 'width', 'height'],
+    },
+    source: {
+      type: 'object',
+      properties: {
+        imageIndexes: { type: 'array', items: { type: 'integer' } },
+        excerpt: { type: 'string' },
+      },
+      required: ['imageIndexes', 'excerpt'],
+    },
+    bloomLevel: { type: 'string', enum: BLOOM_LEVELS },
+    difficulty: { type: 'string', enum: DIFFICULTIES },
+    chapter: { type: 'string' },
+    translation: translationResponseSchema,
+  },
+  required: ['text', 'bloomLevel', 'difficulty'],
+};
+
+// JSON schema passed to the model so the response is constrained to the exam shape
+export const examResponseSchema = {
+  type: 'object',
+  properties: {
+    sections: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string', enum: QUESTION_TYPES },
+          title: { type: 'string' },
+          instructions: { type: 'string' },
+          questions: { type: 'array', items: questionResponseSchema },
+        },
+        required: ['type', 'questions'],
+      },
+    },
+  },
+  required: ['sections'],
+};
+
+// JSON schema for the analysis step: an overview plus the text of every page, which questions later cite
+export const analysisResponseSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string' },
+    pages: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { imageIndex: { type: 'integer' }, text: { type: 'string' } },
+        required: ['imageIndex', 'text'],
+      },
+    },
+  },
+  required: ['summary', 'pages'],
+};
+
+// JSON schema for reading a student's answer sheet: what was written for each question and,
+// for written answers, the suggested marks
+export const gradingResponseSchema = {
+  type: 'object',
+  properties: {
+    answers: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          questionId: { type: 'string' },
+          studentAnswer: { type: 'string' },
+          marks: { type: 'number' },
+          justification: { type: 'string' },
+        },
+        required: ['questionId', 'studentAnswer'],
+      },
+    },
+  },
+  required: ['answers'],
+};
+
+// One question as read from an answer sheet; marks are only given for written answers
+export interface SheetAnswer {
+  questionId: string;
+  studentAnswer: string;
+  marks: number | null;
+  justification: string;
+}
+
+export interface SourceAnalysis {
+  summary: string;
+  pageTexts: string[]; // by imageIndex
+}
+
+export interface ValidationResult<T> {
+  value: T | null;
+  errors: string[];
+}
+
+// Models sometimes wrap JSON in ```json fences even when asked not to
+function stripCodeFences(text: string): string {
+  const trimmed = text.trim();
+  const fenced = trimmed.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  return fenced ? fenced[1] : trimmed;
+}
+
+function parseJson(rawText: string): any {
+  try {
+    return JSON.parse(stripCodeFences(rawText));
+  } catch {
+    return null;
+  }
+}
+
+// Removes a leading "A)", "(b)", "C." etc. so labels are always applied by the renderer
+function stripOptionLabel(option: string): string {
+  return option.replace(/^\(?[A-Da-d][).:]\s+/, '').trim();
+}
+
+function normalizeCorrectAnswer(answer: unknown, options: string[]): string | null {
+  if (typeof answer !== 'string') {
+    return null;
+  }
+  const trimmed = answer.trim();
+  const letterMatch = trimmed.match(/^\(?([A-Da-d])(?:[).:]|$)/);
+  if (letterMatch) {
+    return letterMatch[1].toUpperCase();
+  }
+  const optionIndex = options.findIndex((option) => option.toLowerCase() === trimmed.toLowerCase());
+  return optionIndex >= 0 ? OPTION_LABELS[optionIndex] : null;
+}
+
+function trimmedString(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : '';
+}
+
+function hasDuplicates(values: string[]): boolean {
+  return new Set(values.map((value) => value.toLowerCase())).size !== values.length;
+}
+
+function normalizeTrueFalse(answer: unknown): string | null {
+  const trimmed = trimmedString(answer).toLowerCase();
+  if (trimmed === 'true' || trimmed === 't') {
+    return 'True';
+  }
+  if (trimmed === 'false' || trimmed === 'f') {
+    return 'False';
+  }
+  return null;
+}
+
+function validateChoiceQuestion(raw: any, question: Question, location: string, errors: string[]): Question | null {
+  if (!Array.isArray(raw.options) || raw.options.length !== OPTION_LABELS.length) {
+    errors.push(`${location} must have exactly ${OPTION_LABELS.length} options.`);
+    return null;
+  }
+  const options = raw.options.map((option: unknown) => (typeof option === 'string' ? stripOptionLabel(option) : ''));
+  if (options.some((option: string) => !option)) {
+    errors.push(`${location} has an empty option.`);
+    return null;
+  }
+  if (hasDuplicates(options)) {
+    errors.push(`${location} has duplicate options.`);
+    return null;
+  }
+  const correctAnswer = normalizeCorrectAnswer(raw.correctAnswer, options);
+  if (!correctAnswer) {
+    errors.push(`${location} must state its correct answer as one of ${OPTION_LABELS.join(', ')}.`);
+    return null;
+  }
+  return { ...question, options, correctAnswer };
+}
+
+function validateMatchPairs(raw: any, question: Question, location: string, errors: string[]): Question | null {
+  const matchPairs = Array.isArray(raw.matchPairs)
+    ? raw.matchPairs.map((pair: any) => ({ left: trimmedString(pair?.left), right: trimmedString(pair?.right) }))
+    : [];
+  if (matchPairs.length < MIN_MATCH_PAIRS) {
+    errors.push(`${location} must have at least ${MIN_MATCH_PAIRS} "matchPairs".`);
+    return null;
+  }
+  if (matchPairs.some((pair: { left: string; right: string }) => !pair.left || !pair.right)) {
+    errors.push(`${location} has an empty match pair.`);
+    return null;
+  }
+  if (hasDuplicates(matchPairs.map((pair: { left: string }) => pair.left)) || hasDuplicates(matchPairs.map((pair: { right: string }) => pair.right))) {
+    errors.push(`${location} repeats an item within a column.`);
+    return null;
+  }
+  return { ...question, matchPairs };
+}
+
+function parseSubQuestions(raw: any, marks: number, location: string, errors: string[]): SubQuestion[] | null {
+  const subQuestions: SubQuestion[] = Array.isArray(raw.subQuestions)
+    ? raw.subQuestions.map((sub: any) => ({
+        text: trimmedString(sub?.text),
+        marks: typeof sub?.marks === 'number' ? sub.marks : Number(sub?.marks) || 0,
+        modelAnswer: trimmedString(sub?.modelAnswer),
+      }))
+    : [];
+  if (subQuestions.length < MIN_SUB_QUESTIONS) {
+    errors.push(`${location} must have at least ${MIN_SUB_QUESTIONS} "subQuestions".`);
+    return null;
+  }
+  if (subQuestions.some((sub) => !sub.text || !sub.modelAnswer)) {
+    errors.push(`${location} has a sub-question without its text or model answer.`);
+    return null;
+  }
+  const subTotal = subQuestions.reduce((sum, sub) => sum + sub.marks, 0);
+  if (subQuestions.some((sub) => sub.marks <= 0) || subTotal !== marks) {
+    errors.push(`${location} sub-question marks must be positive and add up to ${marks}, but they add up to ${subTotal}.`);
+    return null;
+  }
+  return subQuestions;
+}
+
+function isFraction(value: unknown): value is number {
+  return typeof value === 'number' && value >= 0 && value <= 1;
+}
+
+// The diagram reference is optional, so an unusable one is dropped rather than reported
+function parseDiagram(raw: any): DiagramCrop | null {
+  if (!raw || !Number.isInteger(raw.imageIndex) || raw.imageIndex < 0) {
+    return null;
+  }
+  const { x, y, width, height } = raw;
+  if (![x, y, width, height].every(isFraction) || width === 0 || height === 0 || x + width > 1.001 || y + height > 1.001) {
+    return null;
+  }
+  return { imageIndex: raw.imageIndex, region: { x, y, width: Math.min(width, 1 - x), height: Math.min(height, 1 - y) } };
+}
+
+// Like the diagram, the source is optional here; questions without one are flagged for review instead
+function parseSource(raw: any): QuestionSource | null {
+  const excerpt = trimmedString(raw?.excerpt);
+  if (!excerpt || !Array.isArray(raw.imageIndexes)) {
+    return null;
+  }
+  const imageIndexes = [...new Set<number>(raw.imageIndexes.filter((index: unknown) => Number.isInteger(index) && (index as number) >= 0))];
+  return imageIndexes.length > 0 ? { imageIndexes, excerpt } : null;
+}
+
+function validateWrittenAnswer(raw: any, question: Question, modelAnswer: string, location: string, errors: string[]): Question | null {
+  const markingScheme = Array.isArray(raw.markingScheme)
+    ? raw.markingScheme.filter((point: unknown): point is string => typeof point === 'string' && point.trim() !== '').map((point: string) => point.trim())
+    : [];
+  if (!modelAnswer) {
+    errors.push(`${location} is missing its model answer.`);
+    return null;
+  }
+  if (markingScheme.length === 0) {
+    errors.push(`${location} is missing its marking scheme.`);
+    return null;
+  }
+  // Parts (a), (b)... are optional for written answers, but must add up when given
+  if (Array.isArray(raw.subQuestions) && raw.subQuestions.length > 0) {
+    const subQuestions = parseSubQuestions(raw, question.marks, location, errors);
+    return subQuestions ? { ...question, modelAnswer, markingScheme, subQuestions } : null;
+  }
+  return { ...question, modelAnswer, markingScheme };
+}
+
+// A bilingual paper prints every part of the question in the second language as well, in the same order
+function validateTranslation(raw: any, question: Question, location: string, errors: string[]): Question | null {
+  const rawTranslation = raw.translation;
+  const text = trimmedString(rawTranslation?.text);
+  if (!text) {
+    errors.push(`${location} is missing its "translation".`);
+    return null;
+  }
+  const translation: QuestionTranslation = { text };
+  // Assertion–reason choices are the standard wording, printed once in the first language
+  if (question.type === 'mcq' && question.options) {
+    const options = Array.isArray(rawTranslation.options) ? rawTranslation.options.map((option: unknown) => stripOptionLabel(trimmedString(option))) : [];
+    if (options.length !== question.options.length || options.some((option: string) => !option)) {
+      errors.push(`${location} must translate all ${question.options.length} options, in the same order.`);
+      return null;
+    }
+    translation.options = options;
+  }
+  if (question.reason) {
+    const reason = trimmedString(rawTranslation.reason);
+    if (!reason) {
+      errors.push(`${location} is missing the translation of its "reason".`);
+      return null;
+    }
+    translation.reason = reason;
+  }
+  if (question.matchPairs) {
+    const matchPairs = Array.isArray(rawTranslation.matchPairs)
+      ? rawTranslation.matchPairs.map((pair: any) => ({ left: trimmedString(pair?.left), right: trimmedString(pair?.right) }))
+      : [];
+    if (matchPairs.length !== question.matchPairs.length || matchPairs.some((pair: { left: string; right: string }) => !pair.left || !pair.right)) {
+      errors.push(`${location} must translate all ${question.matchPairs.length} "matchPairs", in the same order.`);
+      return null;
+    }
+    translation.matchPairs = matchPairs;
+  }
+  if (question.subQuestions) {
+    const subQuestions = Array.isArray(rawTranslation.subQuestions) ? rawTranslation.subQuestions.map(trimmedString) : [];
+    if (subQuestions.length !== question.subQuestions.length || subQuestions.some((sub: string) => !sub)) {
+      errors.push(`${location} must translate the text of all ${question.subQuestions.length} "subQuestions", in the same order.`);
+      return null;
+    }
+    translation.subQuestions = subQuestions;
+  }
+  return { ...question, translation };
+}
+
+// Whether the translation still covers every part of the question, which edits to either can undo
+export function isTranslationComplete(question: Question): boolean {
+  return validateTranslation(question, question, '', []) !== null;
+}
+
+function validateQuestion(raw: any, type: QuestionType, id: string, marks: number, bilingual: boolean, errors: string[]): Question | null {
+  const question = validateQuestionContent(raw, type, id, marks, errors);
+  return question && bilingual ? validateTranslation(raw, question, `${SECTION_TITLES[type]} question ${id}`, errors) : question;
+}
+
+function validateQuestionContent(raw: any, type: QuestionType, id: string, marks: number, errors: string[]): Question | null {
+  const location = `${SECTION_TITLES[type]} question ${id}`;
+  if (!raw || typeof raw.text !== 'string' || !raw.text.trim()) {
+    errors.push(`${location} is missing its text.`);
+    return null;
+  }
+
+  if (!BLOOM_LEVELS.includes(raw.bloomLevel)) {
+    errors.push(`${location} must have a "bloomLevel" of ${BLOOM_LEVELS.join(', ')}.`);
+    return null;
+  }
+  if (!DIFFICULTIES.includes(raw.difficulty)) {
+    errors.push(`${location} must have a "difficulty" of ${DIFFICULTIES.join(', ')}.`);
+    return null;
+  }
+
+  const question: Question = { id, type, text: raw.text.trim(), marks, bloomLevel: raw.bloomLevel, difficulty: raw.difficulty };
+  if (typeof raw.chapter === 'string' && raw.chapter.trim()) {
+    question.chapter = raw.chapter.trim();
+  }
+  const diagram = parseDiagram(raw.diagram);
+  if (diagram) {
+    question.diagram = diagram;
+  }
+  const source = parseSource(raw.source);
+  if (source) {
+    question.source = source;
+  }
+  const modelAnswer = trimmedString(raw.modelAnswer);
+  // Objective types carry an optional one-line explanation in modelAnswer
+  const explained = modelAnswer ? { ...question, modelAnswer } : question;
+
+  switch (type) {
+    case 'mcq':
+      return validateChoiceQuestion(raw, explained, location, errors);
+    case 'assertionReason': {
+      const reason = trimmedString(raw.reason);
+      if (!reason) {
+        errors.push(`${location} is missing its "reason" statement.`);
+        return null;
+      }
+      const correctAnswer = normalizeCorrectAnswer(raw.correctAnswer, ASSERTION_REASON_OPTIONS);
+      if (!correctAnswer) {
+        errors.push(`${location} must state its correct answer as one of ${OPTION_LABELS.join(', ')}.`);
+        return null;
+      }
+      return { ...explained, reason, options: ASSERTION_REASON_OPTIONS, correctAnswer };
+    }
+    case 'trueFalse': {
+      const correctAnswer = normalizeTrueFalse(raw.correctAnswer);
+      if (!correctAnswer) {
+        errors.push(`${location} must state its correct answer as ${TRUE_FALSE_ANSWERS.join(' or ')}.`);
+        return null;
+      }
+      return { ...explained, correctAnswer };
+    }
+    case 'fillBlank': {
+      if (!BLANK_PATTERN.test(question.text)) {
+        errors.push(`${location} must mark each blank with "_____".`);
+        return null;
+      }
+      const correctAnswer = trimmedString(raw.correctAnswer);
+      if (!correctAnswer) {
+        errors.push(`${location} is missing the word(s) that fill the blank in "correctAnswer".`);
+        return null;
+      }
+      return { ...explained, correctAnswer };
+    }
+    case 'match':
+      return validateMatchPairs(raw, explained, location, errors);
+    case 'caseStudy': {
+      const subQuestions = parseSubQuestions(raw, marks, location, errors);
+      return subQuestions ? { ...question, subQuestions } : null;
+    }
+    case 'short':
+    case 'long':
+      return validateWrittenAnswer(raw, question, modelAnswer, location, errors);
+  }
+}
+
+function buildSection(type: QuestionType, rawSections: any[], rawQuestions: any[], settings: ExamSettings, errors: string[]): ExamSection {
+  const bilingual = getSecondLanguage(settings) !== null;
+  const questions = rawQuestions
+    .map((rawQuestion: any, index: number) =>
+      validateQuestion(rawQuestion, type, `${type}-${index + 1}`, getMarksPerQuestion(settings, type), bilingual, errors),
+    )
+    .filter((question: Question | null): question is Question => question !== null);
+
+  const instructions = rawSections.find((section: any) => typeof section.instructions === 'string' && section.instructions.trim())?.instructions.trim();
+  return {
+    id: `section-${type}`,
+    type,
+    title: SECTION_TITLES[type],
+    ...(instructions ? { instructions } : {}),
+    questions,
+  };
+}
+
+// Parses the raw model output and checks it against the requested settings.
+// Extra questions are trimmed; anything missing or malformed is reported as an error.
+export function parseAndValidateExam(rawText: string, settings: ExamSettings): ValidationResult<GeneratedExam> {
+  const errors: string[] = [];
+
+  const parsed = parseJson(rawText);
+  if (!parsed || !Array.isArray(parsed.sections)) {
+    return { value: null, errors: [parsed ? 'The response must contain a "sections" array.' : 'The response is not valid JSON.'] };
+  }
+
+  const sections: ExamSection[] = [];
+  QUESTION_TYPES.forEach((type) => {
+    const requested = getRequestedCount(settings, type);
+    if (requested <= 0) {
+      return;
+    }
+
+    const rawSections = parsed.sections.filter((section: any) => section && section.type === type);
+    if (rawSections.length === 0) {
+      errors.push(`Missing the "${type}" section.`);
+      return;
+    }
+    // Some responses split one type across several sections; merge them back together
+    const rawQuestions = rawSections.flatMap((section: any) => (Array.isArray(section.questions) ? section.questions : []));
+    if (rawQuestions.length < requested) {
+      errors.push(`The "${type}" section has ${rawQuestions.length} questions but ${requested} were requested.`);
+      return;
+    }
+
+    sections.push(buildSection(type, rawSections, rawQuestions.slice(0, requested), settings, errors));
+  });
+
+  if (errors.length === 0 && settings.blueprintEnabled) {
+    errors.push(...validateBlueprintCoverage(sections, settings));
+  }
+
+  if (errors.length > 0) {
+    return { value: null, errors };
+  }
+  return { value: { sections }, errors };
+}
+
+// Validates a single replacement question produced by regeneration
+export function parseAndValidateQuestion(
+  rawText: string,
+  type: QuestionType,
+  id: string,
+  marks: number,
+  bilingual: boolean,
+): ValidationResult<Question> {
+  const parsed = parseJson(rawText);
+  if (!parsed) {
+    return { value: null, errors: ['The response is not valid JSON.'] };
+  }
+  const errors: string[] = [];
+  const question = validateQuestion(parsed, type, id, marks, bilingual, errors);
+  return { value: question, errors };
+}
+
+// Checks a translation written for an existing question and returns the question with it
+export function parseAndValidateTranslation(rawText: string, question: Question): ValidationResult<Question> {
+  const parsed = parseJson(rawText);
+  if (!parsed) {
+    return { value: null, errors: ['The response is not valid JSON.'] };
+  }
+  const errors: string[] = [];
+  const translated = validateTranslation({ translation: parsed }, question, `${SECTION_TITLES[question.type]} question ${question.id}`, errors);
+  return { value: translated, errors };
+}
+
+// Checks that the analysis returned text for every uploaded page
+export function parseAndValidateAnalysis(rawText: string, imageCount: number): ValidationResult<SourceAnalysis> {
+  const parsed = parseJson(rawText);
+  if (!parsed) {
+    return { value: null, errors: ['The response is not valid JSON.'] };
+  }
+  const errors: string[] = [];
+  const summary = trimmedString(parsed.summary);
+  if (!summary) {
+    errors.push('The response is missing its "summary".');
+  }
+  const rawPages: any[] = Array.isArray(parsed.pages) ? parsed.pages : [];
+  const pageTexts = Array.from({ length: imageCount }, (_, imageIndex) =>
+    rawPages
+      .filter((page) => page && page.imageIndex === imageIndex)
+      .map((page) => trimmedString(page.text))
+      .filter(Boolean)
+      .join('\n'),
+  );
+  pageTexts.forEach((text, imageIndex) => {
+    if (!text) {
+      errors.push(`Missing the text of the page with imageIndex ${imageIndex}.`);
+    }
+  });
+  return errors.length > 0 ? { value: null, errors } : { value: { summary, pageTexts }, errors };
+}
+
+// Collects the entries of the top-level "sections" array that have arrived in full, and the
+// type of the one still being written, from a response that may stop mid-way
+function scanStreamedSections(rawText: string): { complete: any[]; writingType: string | null } {
+  const complete: any[] = [];
+  const arrayStart = rawText.search(/"sections"\s*:\s*\[/);
+  if (arrayStart < 0) {
+    return { complete, writingType: null };
+  }
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let itemStart = -1;
+  for (let index = rawText.indexOf('[', arrayStart) + 1; index < rawText.length; index++) {
+    const char = rawText[index];
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+      }
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{' || char === '[') {
+      if (depth === 0) {
+        itemStart = index;
+      }
+      depth++;
+    } else if (char === '}' || char === ']') {
+      if (depth === 0) {
+        return { complete, writingType: null }; // The sections array has closed
+      }
+      depth--;
+      if (depth === 0) {
+        const item = parseJson(rawText.slice(itemStart, index + 1));
+        if (item) {
+          complete.push(item);
+        }
+        itemStart = -1;
+      }
+    }
+  }
+  // Questions have no "type" of their own, so the first one in the open entry is the section's
+  const writingType = itemStart >= 0 ? rawText.slice(itemStart).match(/"type"\s*:\s*"([^"]+)"/)?.[1] ?? null : null;
+  return { complete, writingType };
+}
+
+// Builds the sections received so far while a paper is streamed, for display only.
+// Questions that fail validation are left out; the finished response is validated in full.
+export function parsePartialExam(rawText: string, settings: ExamSettings): { exam: GeneratedExam; writingType: QuestionType | null } {
+  const { complete, writingType } = scanStreamedSections(rawText);
+  const sections: ExamSection[] = [];
+  QUESTION_TYPES.forEach((type) => {
+    const rawSections = complete.filter((section: any) => section && section.type === type);
+    if (rawSections.length === 0 || getRequestedCount(settings, type) <= 0) {
+      return;
+    }
+    const rawQuestions = rawSections.flatMap((section: any) => (Array.isArray(section.questions) ? section.questions : []));
+    sections.push(buildSection(type, rawSections, rawQuestions.slice(0, getRequestedCount(settings, type)), settings, []));
+  });
+  return {
+    exam: { sections },
+    writingType: QUESTION_TYPES.find((type) => type === writingType) ?? null,
+  };
+}
+
+// Suggested marks are kept to half marks, as a teacher would award them
+function roundToHalf(value: number): number {
+  return Math.round(value * 2) / 2;
+}
+
+// Objective answers are normalised to the answer key's form, so they can be compared directly
+function normalizeSheetAnswer(answer: string, question: Question): string {
+  if (question.type === 'trueFalse') {
+    return normalizeTrueFalse(answer) ?? '';
+  }
+  return answer.match(/^\(?([A-Da-d])(?:[).:]|$)/)?.[1].toUpperCase() ?? '';
+}
+
+// Checks that every question on the paper was read, and that written answers have marks within range
+export function parseAndValidateGrading(rawText: string, exam: GeneratedExam): ValidationResult<SheetAnswer[]> {
+  const parsed = parseJson(rawText);
+  if (!parsed || !Array.isArray(parsed.answers)) {
+    return { value: null, errors: [parsed ? 'The response must contain an "answers" array.' : 'The response is not valid JSON.'] };
+  }
+  const errors: string[] = [];
+  const answers: SheetAnswer[] = [];
+  exam.sections.forEach((section) =>
+    section.questions.forEach((question) => {
+      const raw = parsed.answers.find((answer: any) => answer && answer.questionId === question.id);
+      if (!raw) {
+        errors.push(`Missing the answer to question "${question.id}"; use an empty "studentAnswer" if it was left blank.`);
+        return;
+      }
+      const studentAnswer = trimmedString(raw.studentAnswer);
+      if (AUTO_SCORED_TYPES.includes(question.type)) {
+        answers.push({ questionId: question.id, studentAnswer: normalizeSheetAnswer(studentAnswer, question), marks: null, justification: '' });
+        return;
+      }
+      const justification = trimmedString(raw.justification);
+      if (typeof raw.marks !== 'number' || raw.marks < 0 || raw.marks > question.marks) {
+        errors.push(`Question "${question.id}" must have "marks" between 0 and ${question.marks}.`);
+        return;
+      }
+      if (!justification) {
+        errors.push(`Question "${question.id}" needs a "justification" for its marks.`);
+        return;
+      }
+      answers.push({ questionId: question.id, studentAnswer, marks: roundToHalf(raw.marks), justification });
+    }),
+  );
+  return errors.length > 0 ? { value: null, errors } : { value: answers, errors };
+}
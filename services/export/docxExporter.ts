@@ -0,0 +1,163 @@
+import JSZip from 'jszip';
+import { ExportBlock, ExportDocument } from './exportDocument';
+import { toPlainText } from '../richText';
+
+const CONTENT_TYPES = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Default Extension="jpeg" ContentType="image/jpeg"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  <Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const EMU_PER_PIXEL = 9525; // at 96 dpi
+const MAX_IMAGE_WIDTH_EMU = 3600000; // 10cm
+const MAX_IMAGE_HEIGHT_EMU = 2880000; // 8cm
+
+type ImageBlock = Extract<ExportBlock, { kind: 'image' }>;
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  size?: number; // half-points, as Word stores them
+}
+
+interface ParagraphStyle {
+  align?: 'left' | 'center' | 'right';
+  indent?: number; // twentieths of a point
+  spacingBefore?: number;
+  tabRight?: boolean; // right-aligned tab stop for marks
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const properties = [
+    style.bold ? '<w:b/>' : '',
+    style.italic ? '<w:i/>' : '',
+    style.size ? `<w:sz w:val="${style.size}"/>` : '',
+  ].join('');
+  // Line breaks inside a run become <w:br/>, tabs become <w:tab/>
+  // Word has no LaTeX, so formulas become Unicode text
+  const content = toPlainText(text, 'unicode')
+    .split('\n')
+    .map((line) => line.split('\t').map((part) => `<w:t xml:space="preserve">${escapeXml(part)}</w:t>`).join('<w:tab/>'))
+    .join('<w:br/>');
+  return `<w:r>${properties ? `<w:rPr>${properties}</w:rPr>` : ''}${content}</w:r>`;
+}
+
+function paragraph(runs: string[], style: ParagraphStyle = {}): string {
+  const properties = [
+    style.tabRight ? '<w:tabs><w:tab w:val="right" w:pos="9638"/></w:tabs>' : '',
+    style.spacingBefore ? `<w:spacing w:before="${style.spacingBefore}"/>` : '',
+    style.indent ? `<w:ind w:left="${style.indent}"/>` : '',
+    style.align ? `<w:jc w:val="${style.align}"/>` : '',
+  ].join('');
+  return `<w:p>${properties ? `<w:pPr>${properties}</w:pPr>` : ''}${runs.join('')}</w:p>`;
+}
+
+function table(headers: string[], rows: string[][]): string {
+  const border = '<w:top w:val="single" w:sz="4"/><w:left w:val="single" w:sz="4"/><w:bottom w:val="single" w:sz="4"/><w:right w:val="single" w:sz="4"/><w:insideH w:val="single" w:sz="4"/><w:insideV w:val="single" w:sz="4"/>';
+  const row = (cells: string[], bold: boolean) =>
+    `<w:tr>${cells.map((cell) => `<w:tc>${paragraph([run(cell, { bold })])}</w:tc>`).join('')}</w:tr>`;
+  return `<w:tbl><w:tblPr><w:tblW w:w="5000" w:type="pct"/><w:tblBorders>${border}</w:tblBorders></w:tblPr>${row(headers, true)}${rows
+    .map((cells) => row(cells, false))
+    .join('')}</w:tbl>`;
+}
+
+function imageRelationshipId(index: number): string {
+  return `rIdImage${index + 1}`;
+}
+
+// Inline picture sized like the screen version, scaled down to fit the diagram box
+function image(block: ImageBlock, index: number): string {
+  const scale = Math.min(1, MAX_IMAGE_WIDTH_EMU / (block.width * EMU_PER_PIXEL), MAX_IMAGE_HEIGHT_EMU / (block.height * EMU_PER_PIXEL));
+  const cx = Math.round(block.width * EMU_PER_PIXEL * scale);
+  const cy = Math.round(block.height * EMU_PER_PIXEL * scale);
+  const id = index + 1;
+  const picture = `<pic:pic xmlns:pic="http://schemas.openxmlformats.org/drawingml/2006/picture"><pic:nvPicPr><pic:cNvPr id="${id}" name="diagram${id}.jpeg"/><pic:cNvPicPr/></pic:nvPicPr><pic:blipFill><a:blip r:embed="${imageRelationshipId(index)}"/><a:stretch><a:fillRect/></a:stretch></pic:blipFill><pic:spPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></pic:spPr></pic:pic>`;
+  const drawing = `<w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0"><wp:extent cx="${cx}" cy="${cy}"/><wp:docPr id="${id}" name="Diagram ${id}"/><a:graphic xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/picture">${picture}</a:graphicData></a:graphic></wp:inline></w:drawing>`;
+  return paragraph([`<w:r>${drawing}</w:r>`], { indent: 360, spacingBefore: 120 });
+}
+
+function renderBlock(block: ExportBlock, images: ImageBlock[]): string {
+  switch (block.kind) {
+    case 'title':
+      return paragraph([run(block.text, { bold: true, size: 32 })], { align: 'center' });
+    case 'detail':
+      return paragraph([run(`${block.label}:`, { bold: true }), run(`\t${block.value}`)], { tabRight: true });
+    case 'heading':
+      return paragraph(
+        [run(block.text, { bold: true, size: 28 }), block.aside ? run(`\t${block.aside}`, { bold: true, size: 28 }) : ''],
+        { spacingBefore: 360, tabRight: true },
+      );
+    case 'question':
+      return paragraph(
+        [run(`${block.number}. `, { bold: true }), run(block.text), block.aside ? run(`\t${block.aside}`, { bold: true }) : ''],
+        { spacingBefore: 160, tabRight: true },
+      );
+    case 'option':
+      return paragraph([run(`${block.label}) ${block.text}`)], { indent: 720 });
+    case 'paragraph':
+      return paragraph([block.label ? run(`${block.label}: `, { bold: true }) : '', run(block.text)], { indent: 360 });
+    case 'bullet':
+      return paragraph([run(`• ${block.text}`)], { indent: 720 });
+    case 'table':
+      return (
+        (block.title ? paragraph([run(block.title, { bold: true, size: 28 })], { spacingBefore: 360 }) : '') +
+        table(block.headers, block.rows)
+      );
+    case 'image':
+      return image(block, images.indexOf(block));
+    case 'footer':
+      return paragraph([run(block.text, { italic: true, size: 18 })], { align: 'center', spacingBefore: 480 });
+  }
+}
+
+// Right-to-left papers lay every paragraph out from the right; Word orders the runs within them
+function stylesXml(direction: ExportDocument['direction']): string {
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:pPrDefault><w:pPr>${direction === 'rtl' ? '<w:bidi/>' : ''}</w:pPr></w:pPrDefault></w:docDefaults></w:styles>`;
+}
+
+function documentRelationships(imageCount: number): string {
+  const styles = '<Relationship Id="rIdStyles" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>';
+  const relationships = Array.from(
+    { length: imageCount },
+    (_, index) =>
+      `<Relationship Id="${imageRelationshipId(index)}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/image" Target="media/diagram${index + 1}.jpeg"/>`,
+  ).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${styles}${relationships}</Relationships>`;
+}
+
+export async function renderDocx(document: ExportDocument): Promise<Blob> {
+  const images = document.blocks.filter((block): block is ImageBlock => block.kind === 'image');
+  const body = document.blocks.map((block) => renderBlock(block, images)).join('');
+  const documentXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships" xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing">
+  <w:body>${body}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1134" w:right="1134" w:bottom="1134" w:left="1134" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+
+  const zip = new JSZip();
+  zip.file('[Content_Types].xml', CONTENT_TYPES);
+  zip.file('_rels/.rels', ROOT_RELS);
+  zip.file('word/document.xml', documentXml);
+  zip.file('word/styles.xml', stylesXml(document.direction));
+  zip.file('word/_rels/document.xml.rels', documentRelationships(images.length));
+  images.forEach((block, index) => {
+    zip.file(`word/media/diagram${index + 1}.jpeg`, block.dataUrl.split(',')[1], { base64: true });
+  });
+  return zip.generateAsync({
+    type: 'blob',
+    mimeType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  });
+}
@@ -0,0 +1,244 @@
+import { ExamSettings, GeneratedExam, Question, QuestionTranslation } from '../../types';
+import { formatQuestionTags } from '../bloom';
+import { buildAllocationRows } from '../blueprint';
+import { QUESTION_TYPES, SECTION_TITLES } from '../questionTypes';
+import { formatMarks, formatSectionMarks, getSectionLabel } from '../marks';
+import { extractTables } from '../richText';
+import { formatCorrectAnswer, getLetterLabel, getMatchColumnB, getMatchLeftLabel, getTranslatedColumnB } from '../questionFormats';
+import { Language, getLanguage, getOptionLabel, getSecondLanguage } from '../languages';
+import { getGeneralInstructions } from '../templates';
+
+export type ExportFormat = 'docx' | 'pdf' | 'md';
+export type ExportCopy = 'student' | 'answerKey';
+
+// Format-neutral description of a printed paper; each exporter only has to render these blocks
+export type ExportBlock =
+  | { kind: 'title'; text: string }
+  | { kind: 'detail'; label: string; value: string }
+  | { kind: 'heading'; text: string; aside?: string }
+  | { kind: 'question'; number: number; text: string; aside?: string }
+  | { kind: 'option'; label: string; text: string }
+  | { kind: 'paragraph'; label?: string; text: string }
+  | { kind: 'bullet'; text: string }
+  | { kind: 'table'; title?: string; headers: string[]; rows: string[][] }
+  | { kind: 'image'; dataUrl: string; width: number; height: number } // JPEG data URL and its pixel size
+  | { kind: 'footer'; text: string };
+
+export interface ExportDocument {
+  title: string;
+  fileName: string; // without extension
+  direction: 'ltr' | 'rtl'; // of the paper's first language
+  blocks: ExportBlock[];
+}
+
+export interface ExportRequest {
+  exam: GeneratedExam;
+  settings: ExamSettings;
+  copy: ExportCopy;
+  setCode?: string;
+}
+
+export function toFileName(text: string): string {
+  return text.replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').toLowerCase() || 'exam';
+}
+
+// Tables written inside question text are laid out as real tables after the question line
+function questionTextBlocks(number: number, text: string, aside?: string): ExportBlock[] {
+  const { text: remaining, tables } = extractTables(text);
+  return [
+    { kind: 'question', number, text: remaining, aside },
+    ...tables.map((table): ExportBlock => ({ kind: 'table', headers: table.headers, rows: table.rows })),
+  ];
+}
+
+// The second-language version follows the original, labelled the same way so both point at the same choice
+function translationBlocks(question: Question, translation: QuestionTranslation, labels: Language): ExportBlock[] {
+  const blocks: ExportBlock[] = [
+    { kind: 'paragraph', label: question.type === 'assertionReason' ? '(A)' : undefined, text: translation.text },
+  ];
+  if (translation.reason) {
+    blocks.push({ kind: 'paragraph', label: '(R)', text: translation.reason });
+  }
+  if (question.matchPairs && translation.matchPairs) {
+    const columnB = getTranslatedColumnB(question.matchPairs, translation.matchPairs);
+    blocks.push({
+      kind: 'table',
+      headers: ['Column A', 'Column B'],
+      rows: translation.matchPairs.map((pair, index) => [
+        `${getMatchLeftLabel(index)} ${pair.left}`,
+        `${getLetterLabel(index, labels)} ${columnB[index]}`,
+      ]),
+    });
+  }
+  (translation.subQuestions || []).forEach((text, index) => {
+    blocks.push({ kind: 'paragraph', label: getLetterLabel(index, labels), text });
+  });
+  (translation.options || []).forEach((option, index) => {
+    blocks.push({ kind: 'option', label: getOptionLabel(index, labels), text: option });
+  });
+  return blocks;
+}
+
+function studentQuestionBlocks(question: Question, number: number, labels: Language, secondLanguage: Language | null): ExportBlock[] {
+  const text = question.type === 'assertionReason' ? `Assertion (A): ${question.text}` : question.text;
+  const blocks = questionTextBlocks(number, text, `[${formatMarks(question.marks)}]`);
+  const { diagram } = question;
+  if (diagram?.dataUrl && diagram.width && diagram.height) {
+    blocks.push({ kind: 'image', dataUrl: diagram.dataUrl, width: diagram.width, height: diagram.height });
+  }
+  if (question.type === 'assertionReason' && question.reason) {
+    blocks.push({ kind: 'paragraph', label: 'Reason (R)', text: question.reason });
+  }
+  if (question.type === 'trueFalse') {
+    blocks.push({ kind: 'paragraph', text: 'True / False' });
+  }
+  if (question.matchPairs) {
+    const columnB = getMatchColumnB(question.matchPairs);
+    blocks.push({
+      kind: 'table',
+      headers: ['Column A', 'Column B'],
+      rows: question.matchPairs.map((pair, index) => [
+        `${getMatchLeftLabel(index)} ${pair.left}`,
+        `${getLetterLabel(index, labels)} ${columnB[index]}`,
+      ]),
+    });
+  }
+  (question.subQuestions || []).forEach((sub, index) => {
+    blocks.push({ kind: 'paragraph', label: getLetterLabel(index, labels), text: `${sub.text} [${formatMarks(sub.marks)}]` });
+  });
+  (question.options || []).forEach((option, index) => {
+    blocks.push({ kind: 'option', label: getOptionLabel(index, labels), text: option });
+  });
+  if (secondLanguage && question.translation) {
+    blocks.push(...translationBlocks(question, question.translation, labels));
+  }
+  return blocks;
+}
+
+function formatTagsAside(question: Question): string | undefined {
+  const tags = formatQuestionTags(question);
+  return tags ? `[${tags}]` : undefined;
+}
+
+function answerBlocks(question: Question, number: number, labels: Language): ExportBlock[] {
+  const correctAnswer = formatCorrectAnswer(question, labels);
+  if (correctAnswer) {
+    const blocks: ExportBlock[] = [{ kind: 'question', number, text: correctAnswer, aside: formatTagsAside(question) }];
+    if (question.modelAnswer) {
+      blocks.push({ kind: 'paragraph', text: question.modelAnswer });
+    }
+    return blocks;
+  }
+
+  const blocks = questionTextBlocks(number, question.text, formatTagsAside(question));
+  (question.subQuestions || []).forEach((sub, index) => {
+    blocks.push({ kind: 'paragraph', label: `${getLetterLabel(index, labels)} (${formatMarks(sub.marks)})`, text: sub.modelAnswer });
+  });
+  if (question.modelAnswer) {
+    blocks.push({ kind: 'paragraph', label: 'Model Answer', text: question.modelAnswer });
+  }
+  const markingScheme = (question.markingScheme || []).filter((point) => point.trim());
+  if (markingScheme.length > 0) {
+    blocks.push({ kind: 'paragraph', label: `Marking Scheme (${formatMarks(question.marks)})`, text: '' });
+    markingScheme.forEach((point) => blocks.push({ kind: 'bullet', text: point }));
+  }
+  return blocks;
+}
+
+function allocationTableBlock(exam: GeneratedExam, settings: ExamSettings): ExportBlock {
+  const rows = buildAllocationRows(exam.sections, settings);
+  const totalRow = [
+    'Total',
+    ...QUESTION_TYPES.map((type) => String(rows.reduce((sum, row) => sum + row.counts[type], 0))),
+    String(rows.reduce((sum, row) => sum + row.marks, 0)),
+    String(settings.totalMarks),
+  ];
+  return {
+    kind: 'table',
+    title: 'Blueprint Allocation',
+    headers: ['Chapter / Unit', ...QUESTION_TYPES.map((type) => SECTION_TITLES[type]), 'Marks', 'Weightage'],
+    rows: [
+      ...rows.map((row) => [
+        row.chapter,
+        ...QUESTION_TYPES.map((type) => String(row.counts[type])),
+        String(row.marks),
+        row.weightage === null ? '—' : String(row.weightage),
+      ]),
+      totalRow,
+    ],
+  };
+}
+
+// Mirrors what ExamPaper and AnswerKey show on screen
+export function buildExportDocument({ exam, settings, copy, setCode }: ExportRequest): ExportDocument {
+  const isAnswerKey = copy === 'answerKey';
+  const language = getLanguage(settings.language);
+  // Answers are in the first language only, so the key leaves out the translations
+  const secondLanguage = isAnswerKey ? null : getSecondLanguage(settings);
+  const { layout } = settings;
+  const title = isAnswerKey ? 'Answer Key & Marking Scheme' : layout.title || settings.topic;
+  const blocks: ExportBlock[] = [];
+  if (layout.logo) {
+    blocks.push({ kind: 'image', ...layout.logo });
+  }
+  if (layout.schoolName) {
+    blocks.push({ kind: 'title', text: layout.schoolName });
+  }
+  blocks.push({ kind: 'title', text: title });
+  if (isAnswerKey && layout.title) {
+    blocks.push({ kind: 'paragraph', text: layout.title });
+  }
+  blocks.push(
+    { kind: 'detail', label: 'Topic', value: settings.topic },
+    { kind: 'detail', label: 'Class', value: settings.className },
+    { kind: 'detail', label: 'Board', value: settings.board },
+  );
+  if (setCode) {
+    blocks.push({ kind: 'detail', label: 'Set', value: setCode });
+  }
+  if (!isAnswerKey) {
+    blocks.push({ kind: 'detail', label: 'Student', value: settings.studentName || '____________________' });
+  }
+  blocks.push({ kind: 'detail', label: 'Total Marks', value: String(settings.totalMarks) });
+  if (!isAnswerKey) {
+    blocks.push({ kind: 'detail', label: 'Duration', value: `${settings.duration} minutes` });
+    layout.headerFields
+      .filter((field) => field.label.trim())
+      .forEach((field) => blocks.push({ kind: 'detail', label: field.label, value: field.value || '____________________' }));
+    const generalInstructions = getGeneralInstructions(layout);
+    if (generalInstructions.length > 0) {
+      blocks.push({ kind: 'heading', text: 'General Instructions' });
+      generalInstructions.forEach((instruction, index) => blocks.push({ kind: 'paragraph', text: `${index + 1}. ${instruction}` }));
+    }
+  }
+
+  exam.sections.forEach((section, sectionIndex) => {
+    blocks.push({
+      kind: 'heading',
+      text: `${getSectionLabel(sectionIndex, layout.sectionNaming)} – ${section.title}`,
+      aside: formatSectionMarks(section),
+    });
+    if (section.instructions && !isAnswerKey) {
+      blocks.push({ kind: 'paragraph', text: section.instructions });
+    }
+    section.questions.forEach((question, index) => {
+      blocks.push(
+        ...(isAnswerKey ? answerBlocks(question, index + 1, language) : studentQuestionBlocks(question, index + 1, language, secondLanguage)),
+      );
+    });
+  });
+
+  if (isAnswerKey && settings.blueprintEnabled) {
+    blocks.push(allocationTableBlock(exam, settings));
+  }
+
+  const footer = isAnswerKey ? ['For teacher use only.', layout.footerText].filter(Boolean).join(' ') : layout.footerText;
+  if (footer) {
+    blocks.push({ kind: 'footer', text: footer });
+  }
+
+  const fileName = toFileName(
+    [settings.topic, settings.className, setCode ? `set-${setCode}` : '', isAnswerKey ? 'answer-key' : ''].filter(Boolean).join(' '),
+  );
+  return { title, fileName, direction: language.direction, blocks };
+}
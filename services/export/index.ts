@@ -0,0 +1,62 @@
+import { ExamSettings } from '../../types';
+import { getLanguage, getSecondLanguage } from '../languages';
+import { renderDocx } from './docxExporter';
+import { ExportFormat, ExportRequest, buildExportDocument } from './exportDocument';
+import { renderMarkdown } from './markdownExporter';
+import { renderPdf } from './pdfExporter';
+
+export type { ExportCopy, ExportFormat } from './exportDocument';
+export { toFileName } from './exportDocument';
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  docx: 'Word (.docx)',
+  pdf: 'PDF (.pdf)',
+  md: 'Markdown (.md)',
+};
+
+// The PDF writer uses the standard PDF fonts, which only cover Western European text, and it cannot
+// join or reorder letters the way Indic and Arabic scripts need, so those papers are not offered as PDF
+export function getFormatUnavailableReason(format: ExportFormat, settings: ExamSettings): string | null {
+  if (format !== 'pdf') {
+    return null;
+  }
+  const unsupported = [getLanguage(settings.language), getSecondLanguage(settings)].find((language) => language && language.script !== 'Latin');
+  return unsupported
+    ? `PDF export cannot write ${unsupported.name} text. Download Word (.docx) instead, or print the paper and save it as PDF from the browser.`
+    : null;
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoking straight away can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+// Renders the paper entirely in the browser; nothing is sent to a server
+export async function renderExport(request: ExportRequest, format: ExportFormat): Promise<{ blob: Blob; fileName: string }> {
+  const unavailable = getFormatUnavailableReason(format, request.settings);
+  if (unavailable) {
+    throw new Error(unavailable);
+  }
+  const exportDocument = buildExportDocument(request);
+  const fileName = `${exportDocument.fileName}.${format}`;
+  switch (format) {
+    case 'docx':
+      return { blob: await renderDocx(exportDocument), fileName };
+    case 'pdf':
+      return { blob: renderPdf(exportDocument), fileName };
+    case 'md':
+      return { blob: renderMarkdown(exportDocument), fileName };
+  }
+}
+
+export async function exportExam(request: ExportRequest, format: ExportFormat): Promise<void> {
+  const { blob, fileName } = await renderExport(request, format);
+  downloadBlob(blob, fileName);
+}
@@ -0,0 +1,41 @@
+import { ExportBlock, ExportDocument } from './exportDocument';
+
+// Keeps multi-line text inside the list item it belongs to
+function indentContinuation(text: string, indent: string): string {
+  return text.split('\n').join(`\n${indent}`);
+}
+
+function renderBlock(block: ExportBlock): string {
+  switch (block.kind) {
+    case 'title':
+      return `# ${block.text}\n`;
+    case 'detail':
+      return `**${block.label}:** ${block.value}  `;
+    case 'heading':
+      return `\n## ${block.text}${block.aside ? ` (${block.aside})` : ''}\n`;
+    case 'question':
+      return `${block.number}. ${indentContinuation(block.text, '   ')}${block.aside ? ` ${block.aside}` : ''}`;
+    case 'option':
+      return `   - ${block.label}) ${block.text}`;
+    case 'paragraph':
+      return `   ${[block.label ? `**${block.label}:**` : '', indentContinuation(block.text, '   ')].filter(Boolean).join(' ')}`;
+    case 'bullet':
+      return `   - ${block.text}`;
+    case 'table':
+      return [
+        block.title ? `\n## ${block.title}\n` : '',
+        `| ${block.headers.join(' | ')} |`,
+        `| ${block.headers.map(() => '---').join(' | ')} |`,
+        ...block.rows.map((row) => `| ${row.join(' | ')} |`),
+      ].join('\n');
+    case 'image':
+      return `   ![Diagram](${block.dataUrl})`;
+    case 'footer':
+      return `\n---\n\n_${block.text}_`;
+  }
+}
+
+export function renderMarkdown(document: ExportDocument): Blob {
+  const markdown = document.blocks.map(renderBlock).join('\n') + '\n';
+  return new Blob([markdown], { type: 'text/markdown;charset=utf-8' });
+}
@@ -0,0 +1,163 @@
+import { jsPDF } from 'jspdf';
+import { ExportBlock, ExportDocument } from './exportDocument';
+import { toPlainText } from '../richText';
+
+// A4 in millimetres with 20mm margins, matching the print stylesheet
+const PAGE_HEIGHT = 297;
+const MARGIN = 20;
+const CONTENT_WIDTH = 210 - MARGIN * 2;
+const LINE_HEIGHT_FACTOR = 0.45; // mm per point of font size
+const MAX_IMAGE_WIDTH = 100;
+const MAX_IMAGE_HEIGHT = 80;
+const MM_PER_PIXEL = 25.4 / 96;
+
+class PdfWriter {
+  private readonly pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  private y = MARGIN;
+
+  private lineHeight(fontSize: number): number {
+    return fontSize * LINE_HEIGHT_FACTOR;
+  }
+
+  private ensureSpace(height: number) {
+    if (this.y + height > PAGE_HEIGHT - MARGIN) {
+      this.pdf.addPage();
+      this.y = MARGIN;
+    }
+  }
+
+  space(height: number) {
+    this.y += height;
+  }
+
+  // Writes wrapped text, with an optional right-aligned note (e.g. marks) on the first line
+  text(
+    text: string,
+    options: { fontSize?: number; bold?: boolean; italic?: boolean; indent?: number; align?: 'left' | 'center'; aside?: string } = {},
+  ) {
+    const { fontSize = 11, bold = false, italic = false, indent = 0, align = 'left', aside } = options;
+    this.pdf.setFont('helvetica', bold && italic ? 'bolditalic' : bold ? 'bold' : italic ? 'italic' : 'normal');
+    this.pdf.setFontSize(fontSize);
+
+    const asideWidth = aside ? this.pdf.getTextWidth(aside) + 4 : 0;
+    // The standard PDF fonts cannot typeset LaTeX or draw most Unicode symbols
+    const lines: string[] = this.pdf.splitTextToSize(toPlainText(text, 'ascii'), CONTENT_WIDTH - indent - asideWidth);
+    const lineHeight = this.lineHeight(fontSize);
+    lines.forEach((line, index) => {
+      this.ensureSpace(lineHeight);
+      this.y += lineHeight;
+      if (align === 'center') {
+        this.pdf.text(line, 105, this.y, { align: 'center' });
+      } else {
+        this.pdf.text(line, MARGIN + indent, this.y);
+      }
+      if (index === 0 && aside) {
+        this.pdf.text(aside, 210 - MARGIN, this.y, { align: 'right' });
+      }
+    });
+  }
+
+  // Evenly spaced columns, with the first column twice as wide for labels
+  table(headers: string[], rows: string[][]) {
+    const fontSize = 9;
+    const lineHeight = this.lineHeight(fontSize);
+    const unit = CONTENT_WIDTH / (headers.length + 1);
+    const columnX = headers.map((_, index) => MARGIN + (index === 0 ? 0 : unit * (index + 1)));
+    const columnWidth = (index: number) => (index === 0 ? unit * 2 : unit) - 2;
+
+    [headers, ...rows].forEach((cells, rowIndex) => {
+      this.pdf.setFont('helvetica', rowIndex === 0 ? 'bold' : 'normal');
+      this.pdf.setFontSize(fontSize);
+      const wrapped = cells.map((cell, index) => this.pdf.splitTextToSize(toPlainText(cell, 'ascii'), columnWidth(index)) as string[]);
+      const height = Math.max(...wrapped.map((lines) => lines.length)) * lineHeight + 1;
+      this.ensureSpace(height);
+      wrapped.forEach((lines, index) => {
+        lines.forEach((line, lineIndex) => this.pdf.text(line, columnX[index], this.y + lineHeight * (lineIndex + 1)));
+      });
+      this.y += height;
+      this.pdf.setLineWidth(0.1);
+      this.pdf.line(MARGIN, this.y, 210 - MARGIN, this.y);
+    });
+  }
+
+  // Draws an image at screen size (96 dpi), scaled down to fit the diagram box
+  image(dataUrl: string, width: number, height: number, indent = 0) {
+    const scale = Math.min(MM_PER_PIXEL, MAX_IMAGE_WIDTH / width, MAX_IMAGE_HEIGHT / height);
+    const drawWidth = width * scale;
+    const drawHeight = height * scale;
+    this.ensureSpace(drawHeight + 2);
+    this.y += 2;
+    this.pdf.addImage(dataUrl, 'JPEG', MARGIN + indent, this.y, drawWidth, drawHeight);
+    this.y += drawHeight;
+  }
+
+  rule() {
+    this.ensureSpace(4);
+    this.y += 2;
+    this.pdf.setLineWidth(0.4);
+    this.pdf.line(MARGIN, this.y, 210 - MARGIN, this.y);
+    this.y += 2;
+  }
+
+  output(): Blob {
+    return this.pdf.output('blob');
+  }
+}
+
+function renderBlock(writer: PdfWriter, block: ExportBlock, previous: ExportBlock | undefined) {
+  // Close the header with a rule once the detail rows end
+  if (previous?.kind === 'detail' && block.kind !== 'detail') {
+    writer.rule();
+  }
+  switch (block.kind) {
+    case 'title':
+      writer.text(block.text, { fontSize: 16, bold: true, align: 'center' });
+      writer.space(2);
+      break;
+    case 'detail':
+      writer.text(`${block.label}:`, { fontSize: 10, bold: true, aside: block.value });
+      break;
+    case 'heading':
+      writer.space(4);
+      writer.text(block.text, { fontSize: 13, bold: true, aside: block.aside });
+      writer.space(1);
+      break;
+    case 'question':
+      writer.space(2);
+      writer.text(`${block.number}. ${block.text}`, { aside: block.aside });
+      break;
+    case 'option':
+      writer.text(`${block.label}) ${block.text}`, { indent: 8 });
+      break;
+    case 'paragraph':
+      writer.text(block.label ? `${block.label}: ${block.text}` : block.text, { indent: 5, italic: !block.label });
+      break;
+    case 'bullet':
+      writer.text(`• ${block.text}`, { indent: 8 });
+      break;
+    case 'table':
+      if (block.title) {
+        writer.space(4);
+        writer.text(block.title, { fontSize: 13, bold: true });
+      }
+      writer.space(1);
+      writer.table(block.headers, block.rows);
+      break;
+    case 'image':
+      writer.image(block.dataUrl, block.width, block.height, 5);
+      break;
+    case 'footer':
+      writer.space(6);
+      writer.rule();
+      writer.text(block.text, { fontSize: 8, italic: true, align: 'center' });
+      break;
+  }
+}
+
+// Only papers in Latin-script languages are rendered here (see getFormatUnavailableReason),
+// so every line is written left to right
+export function renderPdf(document: ExportDocument): Blob {
+  const writer = new PdfWriter();
+  document.blocks.forEach((block, index) => renderBlock(writer, block, document.blocks[index - 1]));
+  return writer.output();
+}
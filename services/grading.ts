@@ -0,0 +1,129 @@
+import { ExamSettings, GeneratedExam, GradedSheet, Question, QuestionGrade, SectionNaming } from '../types';
+import { GRADED_SHEETS_STORE, deleteRecord, getAllRecords, putRecord } from './db';
+import { SheetAnswer } from './examSchema';
+import { readAnswerSheet } from './examGenerator';
+import { getExamMarks, getSectionLabel } from './marks';
+import { AUTO_SCORED_TYPES } from './questionTypes';
+import { toCsv } from './csv';
+import { LlmProvider } from './providers';
+
+// Who the sheet belongs to and which set they sat
+export interface SheetOwner {
+  studentName: string;
+  rollNumber: string;
+  setCode: string;
+}
+
+function describeAutoScore(question: Question, studentAnswer: string): string {
+  if (!studentAnswer) {
+    return `Not answered. Answer key: ${question.correctAnswer}.`;
+  }
+  return studentAnswer === question.correctAnswer ? 'Matches the answer key.' : `Answer key: ${question.correctAnswer}.`;
+}
+
+// Choice questions are scored against the set's key here rather than trusting the model's arithmetic
+function toQuestionGrade(question: Question, answer: SheetAnswer): QuestionGrade {
+  if (AUTO_SCORED_TYPES.includes(question.type)) {
+    return {
+      questionId: question.id,
+      studentAnswer: answer.studentAnswer,
+      suggestedMarks: answer.studentAnswer && answer.studentAnswer === question.correctAnswer ? question.marks : 0,
+      justification: describeAutoScore(question, answer.studentAnswer),
+      autoScored: true,
+    };
+  }
+  return {
+    questionId: question.id,
+    studentAnswer: answer.studentAnswer,
+    suggestedMarks: answer.marks ?? 0,
+    justification: answer.justification,
+    autoScored: false,
+  };
+}
+
+// Reads and marks one student's sheet against the set they sat, and saves it for review
+export async function gradeAnswerSheet(
+  images: File[],
+  examId: string,
+  exam: GeneratedExam,
+  settings: ExamSettings,
+  owner: SheetOwner,
+  provider: LlmProvider,
+  signal?: AbortSignal,
+): Promise<GradedSheet> {
+  const answers = await readAnswerSheet(images, exam, settings, provider, signal);
+  const grades = exam.sections.flatMap((section) =>
+    section.questions.map((question) => {
+      const answer = answers.find((candidate) => candidate.questionId === question.id);
+      return toQuestionGrade(question, answer ?? { questionId: question.id, studentAnswer: '', marks: 0, justification: 'Not answered.' });
+    }),
+  );
+  return saveGradedSheet(examId, owner, grades);
+}
+
+// Answers typed in the online test, by question id. Choices are scored at once; written answers wait for the teacher.
+export function gradeTypedAnswers(exam: GeneratedExam, responses: Record<string, string>): QuestionGrade[] {
+  return exam.sections.flatMap((section) =>
+    section.questions.map((question) => {
+      const studentAnswer = (responses[question.id] || '').trim();
+      const justification = studentAnswer ? 'Typed online; mark it against the marking scheme.' : 'Not answered.';
+      return toQuestionGrade(question, { questionId: question.id, studentAnswer, marks: null, justification });
+    }),
+  );
+}
+
+export async function saveGradedSheet(examId: string, owner: SheetOwner, grades: QuestionGrade[]): Promise<GradedSheet> {
+  const now = Date.now();
+  const sheet: GradedSheet = { id: crypto.randomUUID(), examId, ...owner, grades, createdAt: now, updatedAt: now };
+  await putRecord(GRADED_SHEETS_STORE, sheet);
+  return sheet;
+}
+
+// The teacher's override wins over the suggestion
+export function getAwardedMarks(grade: QuestionGrade): number {
+  return grade.overrideMarks ?? grade.suggestedMarks;
+}
+
+// Questions deleted from the paper after grading no longer count. Every set has the same
+// question ids, so the unshuffled paper serves for any sheet.
+export function getSheetTotal(sheet: GradedSheet, exam: GeneratedExam): number {
+  const questionIds = new Set(exam.sections.flatMap((section) => section.questions.map((question) => question.id)));
+  return sheet.grades.reduce((total, grade) => (questionIds.has(grade.questionId) ? total + getAwardedMarks(grade) : total), 0);
+}
+
+// In roll number order, comparing "2" and "10" as numbers
+export async function listGradedSheets(examId: string): Promise<GradedSheet[]> {
+  const sheets = await getAllRecords<GradedSheet>(GRADED_SHEETS_STORE);
+  return sheets
+    .filter((sheet) => sheet.examId === examId)
+    .sort((a, b) => a.rollNumber.localeCompare(b.rollNumber, undefined, { numeric: true }) || a.createdAt - b.createdAt);
+}
+
+export async function updateGradedSheet(sheet: GradedSheet): Promise<GradedSheet> {
+  const updated = { ...sheet, updatedAt: Date.now() };
+  await putRecord(GRADED_SHEETS_STORE, updated);
+  return updated;
+}
+
+export function deleteGradedSheet(id: string): Promise<void> {
+  return deleteRecord(GRADED_SHEETS_STORE, id);
+}
+
+// One row per student with the awarded marks for every question. Columns follow the unshuffled
+// paper, so the same question lines up across students who sat different sets.
+export function createScoresCsv(sheets: GradedSheet[], exam: GeneratedExam, naming: SectionNaming): string {
+  const questions = exam.sections.flatMap((section, sectionIndex) =>
+    section.questions.map((question, index) => ({ id: question.id, label: `${getSectionLabel(sectionIndex, naming)} Q${index + 1}` })),
+  );
+  const outOf = getExamMarks(exam);
+  const header = ['rollNumber', 'name', 'set', ...questions.map((question) => question.label), 'total', 'outOf', 'percentage'];
+  const rows = sheets.map((sheet) => {
+    const total = getSheetTotal(sheet, exam);
+    const marks = questions.map((question) => {
+      const grade = sheet.grades.find((candidate) => candidate.questionId === question.id);
+      return grade ? getAwardedMarks(grade) : '';
+    });
+    return [sheet.rollNumber, sheet.studentName, sheet.setCode, ...marks, total, outOf, outOf > 0 ? Math.round((total / outOf) * 1000) / 10 : 0];
+  });
+  return toCsv([header, ...rows]);
+}
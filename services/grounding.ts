@@ -0,0 +1,66 @@
+import { GeneratedExam, Question } from '../types';
+
+// Share of the excerpt's words that must appear on the cited pages. Below 1 so small
+// differences in how a page was read (hyphenation, a misread word) do not flag a real quote.
+const EXCERPT_MATCH_THRESHOLD = 0.8;
+
+export interface GroundingCheck {
+  grounded: boolean;
+  issue?: string; // Why the question is flagged
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function getWordCoverage(excerpt: string, pageText: string): number {
+  const excerptWords = normalizeText(excerpt).split(' ').filter(Boolean);
+  if (excerptWords.length === 0) {
+    return 0;
+  }
+  const pageWords = new Set(normalizeText(pageText).split(' '));
+  return excerptWords.filter((word) => pageWords.has(word)).length / excerptWords.length;
+}
+
+// Checks the question's cited pages exist and that its excerpt can be found on them.
+// Papers generated before page text was kept can only be checked for a citation.
+export function checkGrounding(question: Question, exam: GeneratedExam): GroundingCheck {
+  const { source } = question;
+  if (!source) {
+    return { grounded: false, issue: 'No source on the uploaded pages was given.' };
+  }
+  const pageTexts = exam.sourcePages;
+  if (!pageTexts) {
+    return { grounded: true };
+  }
+  const citedPages = source.imageIndexes.filter((index) => index < pageTexts.length);
+  if (citedPages.length === 0) {
+    return { grounded: false, issue: 'Cites a page that was not uploaded.' };
+  }
+  const citedText = citedPages.map((index) => pageTexts[index]).join('\n');
+  if (getWordCoverage(source.excerpt, citedText) >= EXCERPT_MATCH_THRESHOLD) {
+    return { grounded: true };
+  }
+  return { grounded: false, issue: 'The excerpt does not appear on the cited pages.' };
+}
+
+// Papers written from the topic alone have nothing to cite
+export function hasSourceMaterial(exam: GeneratedExam): boolean {
+  return exam.sourcePages?.length !== 0;
+}
+
+export function findUngroundedQuestions(exam: GeneratedExam): Map<string, GroundingCheck> {
+  const flagged = new Map<string, GroundingCheck>();
+  if (!hasSourceMaterial(exam)) {
+    return flagged;
+  }
+  exam.sections.forEach((section) =>
+    section.questions.forEach((question) => {
+      const check = checkGrounding(question, exam);
+      if (!check.grounded) {
+        flagged.set(question.id, check);
+      }
+    }),
+  );
+  return flagged;
+}
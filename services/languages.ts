@@ -0,0 +1,85 @@
+import { ExamSettings } from '../types';
+
+// Languages a paper can be written in, with how their script is laid out and labelled in print
+export interface Language {
+  name: string; // English name, stored in the settings and used in prompts
+  nativeName: string;
+  code: string; // BCP 47 tag for the lang attribute
+  direction: 'ltr' | 'rtl';
+  fontFamily: string; // CSS font stack for the script
+  googleFont?: string; // Google Fonts family loaded for the script, when system fonts are unreliable
+  listStyle: string; // CSS list-style-type for question numbers in the script's digits
+  letters: string[]; // Labels for options (the first four), parts and Column B, in the script's order
+  script: string; // Unicode script name, used to check generated text is written in it
+}
+
+const LATIN_LETTERS = 'abcdefghijklmnopqrstuvwxyz'.split('');
+
+export const LANGUAGES: Language[] = [
+  { name: 'English', nativeName: 'English', code: 'en', direction: 'ltr', fontFamily: "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif", listStyle: 'decimal', letters: LATIN_LETTERS, script: 'Latin' },
+  { name: 'Hindi', nativeName: 'हिन्दी', code: 'hi', direction: 'ltr', fontFamily: "'Noto Sans Devanagari', 'Mangal', sans-serif", googleFont: 'Noto Sans Devanagari', listStyle: 'devanagari', letters: ['क', 'ख', 'ग', 'घ', 'ङ', 'च', 'छ', 'ज'], script: 'Devanagari' },
+  { name: 'Marathi', nativeName: 'मराठी', code: 'mr', direction: 'ltr', fontFamily: "'Noto Sans Devanagari', 'Mangal', sans-serif", googleFont: 'Noto Sans Devanagari', listStyle: 'devanagari', letters: ['अ', 'ब', 'क', 'ड', 'इ', 'फ', 'ग', 'ह'], script: 'Devanagari' },
+  { name: 'Bengali', nativeName: 'বাংলা', code: 'bn', direction: 'ltr', fontFamily: "'Noto Sans Bengali', 'Vrinda', sans-serif", googleFont: 'Noto Sans Bengali', listStyle: 'bengali', letters: ['ক', 'খ', 'গ', 'ঘ', 'ঙ', 'চ', 'ছ', 'জ'], script: 'Bengali' },
+  { name: 'Gujarati', nativeName: 'ગુજરાતી', code: 'gu', direction: 'ltr', fontFamily: "'Noto Sans Gujarati', 'Shruti', sans-serif", googleFont: 'Noto Sans Gujarati', listStyle: 'gujarati', letters: ['અ', 'બ', 'ક', 'ડ', 'ઇ', 'ફ', 'ગ', 'હ'], script: 'Gujarati' },
+  { name: 'Punjabi', nativeName: 'ਪੰਜਾਬੀ', code: 'pa', direction: 'ltr', fontFamily: "'Noto Sans Gurmukhi', 'Raavi', sans-serif", googleFont: 'Noto Sans Gurmukhi', listStyle: 'gurmukhi', letters: ['ੳ', 'ਅ', 'ੲ', 'ਸ', 'ਹ', 'ਕ', 'ਖ', 'ਗ'], script: 'Gurmukhi' },
+  { name: 'Tamil', nativeName: 'தமிழ்', code: 'ta', direction: 'ltr', fontFamily: "'Noto Sans Tamil', 'Latha', sans-serif", googleFont: 'Noto Sans Tamil', listStyle: 'decimal', letters: ['அ', 'ஆ', 'இ', 'ஈ', 'உ', 'ஊ', 'எ', 'ஏ'], script: 'Tamil' },
+  { name: 'Telugu', nativeName: 'తెలుగు', code: 'te', direction: 'ltr', fontFamily: "'Noto Sans Telugu', 'Gautami', sans-serif", googleFont: 'Noto Sans Telugu', listStyle: 'decimal', letters: ['అ', 'ఆ', 'ఇ', 'ఈ', 'ఉ', 'ఊ', 'ఎ', 'ఏ'], script: 'Telugu' },
+  { name: 'Kannada', nativeName: 'ಕನ್ನಡ', code: 'kn', direction: 'ltr', fontFamily: "'Noto Sans Kannada', 'Tunga', sans-serif", googleFont: 'Noto Sans Kannada', listStyle: 'decimal', letters: ['ಅ', 'ಆ', 'ಇ', 'ಈ', 'ಉ', 'ಊ', 'ಎ', 'ಏ'], script: 'Kannada' },
+  { name: 'Malayalam', nativeName: 'മലയാളം', code: 'ml', direction: 'ltr', fontFamily: "'Noto Sans Malayalam', 'Kartika', sans-serif", googleFont: 'Noto Sans Malayalam', listStyle: 'decimal', letters: ['അ', 'ആ', 'ഇ', 'ഈ', 'ഉ', 'ഊ', 'എ', 'ഏ'], script: 'Malayalam' },
+  { name: 'Urdu', nativeName: 'اردو', code: 'ur', direction: 'rtl', fontFamily: "'Noto Nastaliq Urdu', 'Jameel Noori Nastaleeq', serif", googleFont: 'Noto Nastaliq Urdu', listStyle: 'persian', letters: ['ا', 'ب', 'ج', 'د', 'ہ', 'و', 'ز', 'ح'], script: 'Arabic' },
+  { name: 'Arabic', nativeName: 'العربية', code: 'ar', direction: 'rtl', fontFamily: "'Noto Naskh Arabic', 'Traditional Arabic', serif", googleFont: 'Noto Naskh Arabic', listStyle: 'arabic-indic', letters: ['أ', 'ب', 'ج', 'د', 'هـ', 'و', 'ز', 'ح'], script: 'Arabic' },
+  { name: 'French', nativeName: 'Français', code: 'fr', direction: 'ltr', fontFamily: "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif", listStyle: 'decimal', letters: LATIN_LETTERS, script: 'Latin' },
+  { name: 'Spanish', nativeName: 'Español', code: 'es', direction: 'ltr', fontFamily: "'Segoe UI', Tahoma, Geneva, Verdana, sans-serif", listStyle: 'decimal', letters: LATIN_LETTERS, script: 'Latin' },
+];
+
+export const DEFAULT_LANGUAGE = LANGUAGES[0];
+
+// Older saves and CSV imports hold free text, so the name is matched loosely; unknown names read as English
+export function findLanguage(name: string): Language | undefined {
+  const wanted = name.trim().toLowerCase();
+  return LANGUAGES.find((language) => language.name.toLowerCase() === wanted || language.nativeName.toLowerCase() === wanted);
+}
+
+export function getLanguage(name: string): Language {
+  return findLanguage(name) ?? DEFAULT_LANGUAGE;
+}
+
+// The paper's second language, or null for a paper in one language
+export function getSecondLanguage(settings: ExamSettings): Language | null {
+  const second = settings.secondLanguage ? findLanguage(settings.secondLanguage) : undefined;
+  return second && second.name !== getLanguage(settings.language).name ? second : null;
+}
+
+// Letters run out on very long lists; numbers carry on from there
+export function getLetter(index: number, language: Language = DEFAULT_LANGUAGE): string {
+  return language.letters[index] ?? String(index + 1);
+}
+
+// Options are labelled with the script's first four letters; Latin scripts use capitals
+export function getOptionLabel(index: number, language: Language = DEFAULT_LANGUAGE): string {
+  const letter = getLetter(index, language);
+  return language.letters === LATIN_LETTERS ? letter.toUpperCase() : letter;
+}
+
+// Shows each script's text in its own font; fonts are only fetched once a paper uses the script
+export function loadLanguageFonts(languages: Language[]) {
+  languages.forEach((language) => {
+    if (!language.googleFont) {
+      return;
+    }
+    const id = `font-${language.googleFont.replace(/\s+/g, '-').toLowerCase()}`;
+    if (document.getElementById(id)) {
+      return;
+    }
+    const link = document.createElement('link');
+    link.id = id;
+    link.rel = 'stylesheet';
+    link.href = `https://fonts.googleapis.com/css2?family=${encodeURIComponent(language.googleFont)}:wght@400;700&display=swap`;
+    document.head.appendChild(link);
+  });
+}
+
+// Attributes that set a block's script: direction, lang and font
+export function getScriptProps(language: Language): { dir: 'ltr' | 'rtl'; lang: string; style: { fontFamily: string } } {
+  return { dir: language.direction, lang: language.code, style: { fontFamily: language.fontFamily } };
+}
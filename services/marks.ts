@@ -0,0 +1,69 @@
+import { ExamSection, ExamSettings, GeneratedExam, SectionNaming } from '../types';
+import { QUESTION_TYPES, getMarksPerQuestion, getRequestedCount } from './questionTypes';
+
+// Total marks the requested question counts add up to
+export function getAllocatedMarks(settings: ExamSettings): number {
+  return QUESTION_TYPES.reduce(
+    (sum, type) => sum + getRequestedCount(settings, type) * getMarksPerQuestion(settings, type),
+    0,
+  );
+}
+
+// Returns a message describing the mismatch, or null when the allocation reconciles with totalMarks
+export function validateMarksAllocation(settings: ExamSettings): string | null {
+  const allocated = getAllocatedMarks(settings);
+  if (allocated === settings.totalMarks) {
+    return null;
+  }
+  const breakdown = QUESTION_TYPES
+    .filter((type) => getRequestedCount(settings, type) > 0)
+    .map((type) => `${getRequestedCount(settings, type)} × ${getMarksPerQuestion(settings, type)}`)
+    .join(' + ');
+  return `Questions add up to ${allocated} marks (${breakdown || '0'}) but Total Marks is ${settings.totalMarks}.`;
+}
+
+export function getSectionMarks(section: ExamSection): number {
+  return section.questions.reduce((sum, question) => sum + question.marks, 0);
+}
+
+export function getExamMarks(exam: GeneratedExam): number {
+  return exam.sections.reduce((sum, section) => sum + getSectionMarks(section), 0);
+}
+
+export const SECTION_NAMING_LABELS: Record<SectionNaming, string> = {
+  sectionLetters: 'Section A, B, C',
+  sectionNumerals: 'Section I, II, III',
+  sectionNumbers: 'Section 1, 2, 3',
+  partLetters: 'Part A, B, C',
+};
+
+const SECTION_NUMERALS = ['I', 'II', 'III', 'IV', 'V', 'VI', 'VII', 'VIII', 'IX', 'X'];
+
+// "Section A", "Section B", ... in paper order, or the paper template's own naming
+export function getSectionLabel(index: number, naming: SectionNaming = 'sectionLetters'): string {
+  switch (naming) {
+    case 'sectionLetters':
+      return `Section ${String.fromCharCode(65 + index)}`;
+    case 'sectionNumerals':
+      return `Section ${SECTION_NUMERALS[index] ?? index + 1}`;
+    case 'sectionNumbers':
+      return `Section ${index + 1}`;
+    case 'partLetters':
+      return `Part ${String.fromCharCode(65 + index)}`;
+  }
+}
+
+export function formatMarks(marks: number): string {
+  return `${marks} ${marks === 1 ? 'mark' : 'marks'}`;
+}
+
+// "5 × 1 = 5 marks" when every question carries the same marks, otherwise just the section total
+export function formatSectionMarks(section: ExamSection): string {
+  const total = getSectionMarks(section);
+  const first = section.questions[0]?.marks;
+  const uniform = section.questions.every((question) => question.marks === first);
+  if (section.questions.length > 0 && uniform) {
+    return `${section.questions.length} × ${first} = ${formatMarks(total)}`;
+  }
+  return formatMarks(total);
+}
@@ -0,0 +1,203 @@
+import { GeneratedExam, OnlineAttempt, Question, SectionNaming } from '../types';
+import { SheetOwner, gradeTypedAnswers } from './grading';
+import { getLetterLabel, getMatchLeftLabel } from './questionFormats';
+import { Language } from './languages';
+import { getSectionLabel } from './marks';
+import { parseCsv, stripByteOrderMark, toCsv } from './csv';
+
+// Marks a JSON file as online test responses, so other JSON files are not imported by mistake
+const RESPONSES_FORMAT = 'smartexam-responses';
+const RESPONSES_VERSION = 1;
+
+// One attempt per paper is kept in this browser, as a test is taken on one device
+const STORAGE_KEY_PREFIX = 'smartexam-online-test:';
+
+export const RESPONSES_CSV_COLUMNS = ['rollNumber', 'name', 'setCode', 'question', 'questionId', 'answer', 'marks', 'outOf'];
+
+// Responses read back from an exported file, ready to be graded against the set the student sat
+export interface ImportedResponses {
+  examId: string | null; // Not in CSV files
+  owner: SheetOwner;
+  responses: Record<string, string>; // Answer by question id
+}
+
+// Where a part's or a match row's answer is kept in the attempt
+export function getAnswerKey(questionId: string, index?: number): string {
+  return index === undefined ? questionId : `${questionId}/${index}`;
+}
+
+export function createAttempt(examId: string, owner: SheetOwner, durationMinutes: number): OnlineAttempt {
+  return { examId, ...owner, answers: {}, durationMinutes, startedAt: Date.now() };
+}
+
+export function loadAttempt(examId: string): OnlineAttempt | null {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY_PREFIX + examId) || 'null');
+    return stored && stored.examId === examId && stored.answers ? stored : null;
+  } catch (error) {
+    console.warn('Ignoring an unreadable online test attempt:', error);
+    return null;
+  }
+}
+
+export function saveAttempt(attempt: OnlineAttempt) {
+  localStorage.setItem(STORAGE_KEY_PREFIX + attempt.examId, JSON.stringify(attempt));
+}
+
+export function clearAttempt(examId: string) {
+  localStorage.removeItem(STORAGE_KEY_PREFIX + examId);
+}
+
+export function getDeadline(attempt: OnlineAttempt): number {
+  return attempt.startedAt + attempt.durationMinutes * 60 * 1000;
+}
+
+// "12:05" or "1:02:05" left on the clock
+export function formatTimeLeft(milliseconds: number): string {
+  const totalSeconds = Math.max(0, Math.ceil(milliseconds / 1000));
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+// One answer per question as the teacher reads it: parts as "(a) ..." lines, match rows as "(i) – (c)".
+// Match rows hold the index of the chosen item in the printed Column B.
+export function getQuestionAnswer(question: Question, answers: Record<string, string>, labels: Language): string {
+  if (question.matchPairs) {
+    const rows = question.matchPairs.map((pair, index) => {
+      const chosen = answers[getAnswerKey(question.id, index)];
+      return chosen ? `${getMatchLeftLabel(index)} – ${getLetterLabel(Number(chosen), labels)}` : '';
+    });
+    return rows.some(Boolean) ? rows.map((row, index) => row || `${getMatchLeftLabel(index)} – ?`).join(', ') : '';
+  }
+  if (question.subQuestions) {
+    return question.subQuestions
+      .map((sub, index) => {
+        const answer = (answers[getAnswerKey(question.id, index)] || '').trim();
+        return answer ? `${getLetterLabel(index, labels)} ${answer}` : '';
+      })
+      .filter(Boolean)
+      .join('\n');
+  }
+  return (answers[question.id] || '').trim();
+}
+
+export function getResponses(exam: GeneratedExam, attempt: OnlineAttempt, labels: Language): Record<string, string> {
+  const responses: Record<string, string> = {};
+  exam.sections.forEach((section) =>
+    section.questions.forEach((question) => {
+      responses[question.id] = getQuestionAnswer(question, attempt.answers, labels);
+    }),
+  );
+  return responses;
+}
+
+export function createResponsesJson(exam: GeneratedExam, attempt: OnlineAttempt, labels: Language): string {
+  return JSON.stringify(
+    {
+      format: RESPONSES_FORMAT,
+      version: RESPONSES_VERSION,
+      examId: attempt.examId,
+      setCode: attempt.setCode,
+      studentName: attempt.studentName,
+      rollNumber: attempt.rollNumber,
+      startedAt: new Date(attempt.startedAt).toISOString(),
+      submittedAt: attempt.submittedAt ? new Date(attempt.submittedAt).toISOString() : null,
+      timedOut: Boolean(attempt.timedOut),
+      responses: getResponses(exam, attempt, labels),
+    },
+    null,
+    2,
+  );
+}
+
+// One row per question in the order the student saw them, with the marks scored so far
+export function createResponsesCsv(exam: GeneratedExam, attempt: OnlineAttempt, labels: Language, naming: SectionNaming): string {
+  const responses = getResponses(exam, attempt, labels);
+  const grades = gradeTypedAnswers(exam, responses);
+  const rows = exam.sections.flatMap((section, sectionIndex) =>
+    section.questions.map((question, index) => {
+      const grade = grades.find((candidate) => candidate.questionId === question.id);
+      return [
+        attempt.rollNumber,
+        attempt.studentName,
+        attempt.setCode,
+        `${getSectionLabel(sectionIndex, naming)} Q${index + 1}`,
+        question.id,
+        responses[question.id],
+        grade?.autoScored ? grade.suggestedMarks : '',
+        question.marks,
+      ];
+    }),
+  );
+  return toCsv([RESPONSES_CSV_COLUMNS, ...rows]);
+}
+
+function toText(value: unknown): string {
+  return typeof value === 'string' ? value.trim() : typeof value === 'number' ? String(value) : '';
+}
+
+function parseResponsesJson(text: string): { imported: ImportedResponses | null; errors: string[] } {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { imported: null, errors: ['The file is not valid JSON.'] };
+  }
+  if (!parsed || parsed.format !== RESPONSES_FORMAT || !parsed.responses || typeof parsed.responses !== 'object') {
+    return { imported: null, errors: ['The file does not hold online test responses.'] };
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > RESPONSES_VERSION) {
+    return { imported: null, errors: ['The responses were saved by a newer version of the app.'] };
+  }
+  const responses: Record<string, string> = {};
+  Object.entries(parsed.responses).forEach(([questionId, answer]) => {
+    responses[questionId] = toText(answer);
+  });
+  return {
+    imported: {
+      examId: toText(parsed.examId) || null,
+      owner: { studentName: toText(parsed.studentName), rollNumber: toText(parsed.rollNumber), setCode: toText(parsed.setCode).toUpperCase() },
+      responses,
+    },
+    errors: [],
+  };
+}
+
+// Reads a responses CSV exported above; only the student columns, questionId and answer are needed
+function parseResponsesCsv(text: string): { imported: ImportedResponses | null; errors: string[] } {
+  const [header, ...records] = parseCsv(text);
+  const columns = (header || []).map((name) => name.trim());
+  const questionIndex = columns.indexOf('questionId');
+  const answerIndex = columns.indexOf('answer');
+  if (questionIndex < 0 || answerIndex < 0) {
+    return { imported: null, errors: [`The responses need a header row with the columns ${RESPONSES_CSV_COLUMNS.join(', ')}.`] };
+  }
+  const cell = (cells: string[], column: string) => {
+    const index = columns.indexOf(column);
+    return index >= 0 ? (cells[index] || '').trim() : '';
+  };
+  const first = records[0] || [];
+  const responses: Record<string, string> = {};
+  records.forEach((cells) => {
+    const questionId = (cells[questionIndex] || '').trim();
+    if (questionId) {
+      responses[questionId] = (cells[answerIndex] || '').trim();
+    }
+  });
+  return {
+    imported: {
+      examId: null,
+      owner: { studentName: cell(first, 'name'), rollNumber: cell(first, 'rollNumber'), setCode: cell(first, 'setCode').toUpperCase() },
+      responses,
+    },
+    errors: [],
+  };
+}
+
+// Accepts either export; CSV files carry no paper id, so they cannot be checked against the paper
+export function parseResponsesFile(text: string): { imported: ImportedResponses | null; errors: string[] } {
+  const content = stripByteOrderMark(text);
+  return content.trim().startsWith('{') ? parseResponsesJson(content) : parseResponsesCsv(content);
+}
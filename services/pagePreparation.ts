@@ -0,0 +1,154 @@
+import { GlobalWorkerOptions, getDocument, version as pdfjsVersion } from 'pdfjs-dist';
+import { CropRegion, SourcePage } from '../types';
+import { loadImage } from './imageUtils';
+
+// The worker has to match the library build exactly, so load it for the installed version
+GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjsVersion}/build/pdf.worker.min.mjs`;
+
+export const FULL_PAGE: CropRegion = { x: 0, y: 0, width: 1, height: 1 };
+
+// Rendering scale for PDF pages; 2x of the 72 dpi page size keeps small print legible
+const PDF_RENDER_SCALE = 2;
+
+// Pages are sent as inline base64, so keep the whole request well inside provider limits
+const MAX_REQUEST_BYTES = 4 * 1024 * 1024;
+
+// Tried in order until the pages fit in MAX_REQUEST_BYTES. The last step is about as small as
+// a page can go with its small print still legible, so pages that do not fit then are refused.
+const COMPRESSION_STEPS: { maxSize: number; quality: number }[] = [
+  { maxSize: 1600, quality: 0.8 },
+  { maxSize: 1280, quality: 0.7 },
+  { maxSize: 1024, quality: 0.6 },
+  { maxSize: 800, quality: 0.55 },
+  { maxSize: 640, quality: 0.5 },
+];
+
+export function createSourcePage(original: Blob, name: string): SourcePage {
+  return {
+    id: crypto.randomUUID(),
+    name,
+    original,
+    included: true,
+    rotation: 0,
+    deskew: 0,
+    contrast: 1,
+    crop: FULL_PAGE,
+  };
+}
+
+function isPdf(file: File): boolean {
+  return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Failed to encode image.'))), 'image/jpeg', quality);
+  });
+}
+
+// Renders each page of a PDF to a JPEG so it can be edited like a photographed page
+async function splitPdf(file: File): Promise<SourcePage[]> {
+  const pdf = await getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: SourcePage[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: PDF_RENDER_SCALE });
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvas, viewport }).promise;
+      pages.push(createSourcePage(await canvasToBlob(canvas, 0.9), `${file.name} p${pageNumber}`));
+      page.cleanup();
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Turns uploaded files into editable pages; files that are neither images nor PDFs are skipped
+export async function loadSourcePages(files: File[]): Promise<SourcePage[]> {
+  const pages: SourcePage[] = [];
+  for (const file of files) {
+    if (isPdf(file)) {
+      pages.push(...(await splitPdf(file)));
+    } else if (file.type.startsWith('image/')) {
+      pages.push(createSourcePage(file, file.name));
+    }
+  }
+  return pages;
+}
+
+function applyContrast(canvas: HTMLCanvasElement, contrast: number) {
+  const context = canvas.getContext('2d');
+  if (!context || contrast === 1) {
+    return;
+  }
+  const imageData = context.getImageData(0, 0, canvas.width, canvas.height);
+  const { data } = imageData;
+  for (let index = 0; index < data.length; index += 4) {
+    // Stretch each colour channel around mid-grey; alpha is left alone
+    for (let channel = 0; channel < 3; channel++) {
+      data[index + channel] = Math.min(255, Math.max(0, (data[index + channel] - 128) * contrast + 128));
+    }
+  }
+  context.putImageData(imageData, 0, 0);
+}
+
+// Applies rotation, deskew, crop and contrast, downscaled so the longer side is at most maxSize pixels
+export async function renderSourcePage(page: SourcePage, maxSize: number, quality: number, crop = page.crop): Promise<Blob> {
+  const objectUrl = URL.createObjectURL(page.original);
+  try {
+    const image = await loadImage(objectUrl);
+    const angle = ((page.rotation + page.deskew) * Math.PI) / 180;
+    const cos = Math.abs(Math.cos(angle));
+    const sin = Math.abs(Math.sin(angle));
+    // Bounding box of the rotated page; crop fractions refer to this box
+    const rotatedWidth = image.width * cos + image.height * sin;
+    const rotatedHeight = image.width * sin + image.height * cos;
+    const cropWidth = Math.max(1, crop.width * rotatedWidth);
+    const cropHeight = Math.max(1, crop.height * rotatedHeight);
+    const scale = Math.min(1, maxSize / Math.max(cropWidth, cropHeight));
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(cropWidth * scale));
+    canvas.height = Math.max(1, Math.round(cropHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+      throw new Error('Canvas is not available.');
+    }
+    // Deskewing uncovers the corners; fill them like paper rather than black
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.scale(scale, scale);
+    context.translate(rotatedWidth / 2 - crop.x * rotatedWidth, rotatedHeight / 2 - crop.y * rotatedHeight);
+    context.rotate(angle);
+    context.drawImage(image, -image.width / 2, -image.height / 2);
+    applyContrast(canvas, page.contrast);
+    return await canvasToBlob(canvas, quality);
+  } finally {
+    URL.revokeObjectURL(objectUrl);
+  }
+}
+
+function toJpegName(name: string): string {
+  return `${name.replace(/\.[^.]+$/, '')}.jpg`;
+}
+
+// Produces the files sent for generation: included pages in order, compressed until the total fits the request budget
+export async function prepareSourcePages(pages: SourcePage[]): Promise<File[]> {
+  const included = pages.filter((page) => page.included);
+  for (const { maxSize, quality } of COMPRESSION_STEPS) {
+    const files: File[] = [];
+    for (const page of included) {
+      const blob = await renderSourcePage(page, maxSize, quality);
+      files.push(new File([blob], toJpegName(page.name), { type: 'image/jpeg' }));
+    }
+    const totalBytes = files.reduce((sum, file) => sum + file.size, 0);
+    if (totalBytes <= MAX_REQUEST_BYTES) {
+      return files;
+    }
+  }
+  throw new Error('The pages are too large to send in one request, even at the lowest image quality. Exclude or remove some pages and try again.');
+}
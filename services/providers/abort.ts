@@ -0,0 +1,14 @@
+// Cancellation surfaces as a DOMException named "AbortError", the same as an aborted fetch
+export function createAbortError(): DOMException {
+  return new DOMException('Generation was cancelled.', 'AbortError');
+}
+
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error || error instanceof DOMException ? error.name === 'AbortError' : false;
+}
+
+export function throwIfAborted(signal?: AbortSignal) {
+  if (signal?.aborted) {
+    throw createAbortError();
+  }
+}
@@ -0,0 +1,107 @@
+// Typed failures shared by every provider, so callers can react to the cause rather than parse messages.
+// Each message says what the teacher can do about it.
+
+export type ProviderErrorKind = 'auth' | 'rateLimit' | 'safety' | 'truncated' | 'network' | 'server' | 'emptyResponse' | 'malformedResponse' | 'request';
+
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+  readonly retryable: boolean; // Worth trying the same request again after a pause
+
+  constructor(kind: ProviderErrorKind, message: string, retryable: boolean) {
+    super(message);
+    this.name = 'ProviderError';
+    this.kind = kind;
+    this.retryable = retryable;
+  }
+}
+
+export class AuthError extends ProviderError {
+  constructor(message = 'The API key was rejected. Check the key in the model provider settings, or select a valid key, then try again.') {
+    super('auth', message, false);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends ProviderError {
+  readonly retryAfterMs?: number; // When the provider says how long to wait
+
+  constructor(
+    retryAfterMs?: number,
+    message = 'The provider\'s rate limit or quota was reached. Wait a minute and try again, or use a key with more quota.',
+  ) {
+    super('rateLimit', message, true);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class SafetyBlockError extends ProviderError {
+  constructor(message = 'The model declined to answer because its safety filters flagged the request. Check the uploaded pages and the topic, then try again.') {
+    super('safety', message, false);
+    this.name = 'SafetyBlockError';
+  }
+}
+
+export class TruncatedOutputError extends ProviderError {
+  readonly partialText: string; // What arrived before the output limit was hit
+
+  constructor(
+    partialText: string,
+    message = 'The paper was longer than the model can write in one response. Reduce the number of questions or generate the paper in smaller parts.',
+  ) {
+    super('truncated', message, false);
+    this.name = 'TruncatedOutputError';
+    this.partialText = partialText;
+  }
+}
+
+export class NetworkError extends ProviderError {
+  constructor(message = 'Could not reach the model provider. Check your internet connection and try again.') {
+    super('network', message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+// 5xx responses and "model overloaded" replies usually clear up on their own
+export class ServerError extends ProviderError {
+  constructor(message = 'The model provider is having problems right now. Try again in a few minutes.') {
+    super('server', message, true);
+    this.name = 'ServerError';
+  }
+}
+
+export class EmptyResponseError extends ProviderError {
+  constructor(message = 'The model returned an empty response. Try again, or switch to a different model.') {
+    super('emptyResponse', message, true);
+    this.name = 'EmptyResponseError';
+  }
+}
+
+// A response that does not follow the provider's own format points to a server or protocol bug,
+// which sending the same request again will not fix
+export class MalformedResponseError extends ProviderError {
+  constructor(message = 'The model provider sent a response the app could not read. Try a different model or provider.') {
+    super('malformedResponse', message, false);
+    this.name = 'MalformedResponseError';
+  }
+}
+
+// Maps an HTTP status from any provider to the matching error, or null when it is some other failure
+export function errorFromStatus(status: number, retryAfterMs?: number): ProviderError | null {
+  if (status === 401 || status === 403) {
+    return new AuthError();
+  }
+  if (status === 429) {
+    return new RateLimitError(retryAfterMs);
+  }
+  if (status >= 500) {
+    return new ServerError();
+  }
+  return null;
+}
+
+// Reads a Retry-After header given in seconds
+export function parseRetryAfter(value: string | null): number | undefined {
+  const seconds = value ? parseFloat(value) : NaN;
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+}
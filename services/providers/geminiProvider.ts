@@ -0,0 +1,121 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { GenerationRequest, LlmProvider, ProviderConfig } from './types';
+import { createAbortError } from './abort';
+import {
+  AuthError,
+  EmptyResponseError,
+  NetworkError,
+  ProviderError,
+  RateLimitError,
+  SafetyBlockError,
+  TruncatedOutputError,
+  errorFromStatus,
+} from './errors';
+
+// Finish reasons that mean the answer was withheld by a content filter
+const SAFETY_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Function to initialize GoogleGenAI client (will be called before each API request)
+function getGeminiClient(config: ProviderConfig) {
+  const apiKey = config.apiKey || process.env.API_KEY;
+  if (!apiKey) {
+    throw new AuthError("No Gemini API key is set. Add one in the model provider settings or select a key.");
+  }
+  return new GoogleGenAI({ apiKey });
+}
+
+// Quota errors carry a RetryInfo detail such as "retryDelay": "17s"
+function parseRetryDelay(message: string): number | undefined {
+  const match = message.match(/retryDelay"?:\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? parseFloat(match[1]) * 1000 : undefined;
+}
+
+async function classifyGeminiError(error: any): Promise<ProviderError> {
+  const message: string = error?.message || '';
+  // Invalid keys come back as 400 INVALID_ARGUMENT, and an unselected AI Studio key as "not found"
+  if (message.includes('API key not valid') || message.includes('API_KEY_INVALID') || message.includes('Requested entity was not found.')) {
+    if (window.aistudio && typeof window.aistudio.openSelectKey === 'function') {
+      await window.aistudio.openSelectKey(); // Prompt user to select API key
+    }
+    return new AuthError();
+  }
+  if (typeof error?.status === 'number') {
+    const typed = errorFromStatus(error.status, parseRetryDelay(message));
+    if (typed) {
+      return typed;
+    }
+  }
+  if (message.includes('RESOURCE_EXHAUSTED')) {
+    return new RateLimitError(parseRetryDelay(message));
+  }
+  // fetch rejects with a TypeError when the request never reaches the server
+  if (error instanceof TypeError) {
+    return new NetworkError();
+  }
+  return new ProviderError('request', message || "The Gemini request failed. Please try again.", false);
+}
+
+export function createGeminiProvider(config: ProviderConfig): LlmProvider {
+  return {
+    id: 'gemini',
+    async generate(request: GenerationRequest): Promise<string> {
+      const ai = getGeminiClient(config);
+      const parts = [
+        { text: request.prompt },
+        ...(request.images || []).map((image) => ({ inlineData: image })),
+      ];
+
+      const params = {
+        model: request.modelRole === 'vision' ? config.visionModel : config.textModel,
+        contents: { parts },
+        config: {
+          maxOutputTokens: request.maxOutputTokens,
+          temperature: request.temperature,
+          topP: request.topP,
+          topK: request.topK,
+          abortSignal: request.signal,
+          ...(request.responseSchema
+            ? { responseMimeType: 'application/json', responseJsonSchema: request.responseSchema }
+            : {}),
+        },
+      };
+
+      let text = '';
+      let finishReason: string | undefined;
+      let blockReason: string | undefined;
+      try {
+        if (!request.onText) {
+          const response: GenerateContentResponse = await ai.models.generateContent(params);
+          text = response.text || '';
+          finishReason = response.candidates?.[0]?.finishReason;
+          blockReason = response.promptFeedback?.blockReason;
+        } else {
+          for await (const chunk of await ai.models.generateContentStream(params)) {
+            text += chunk.text || '';
+            finishReason = chunk.candidates?.[0]?.finishReason ?? finishReason;
+            blockReason = chunk.promptFeedback?.blockReason ?? blockReason;
+            request.onText(text);
+          }
+        }
+      } catch (error: any) {
+        // The SDK reports a cancelled request in its own words, so rely on the signal
+        if (request.signal?.aborted) {
+          throw createAbortError();
+        }
+        console.error("Error calling Gemini:", error);
+        throw await classifyGeminiError(error);
+      }
+
+      if (blockReason || (finishReason && SAFETY_FINISH_REASONS.includes(finishReason))) {
+        throw new SafetyBlockError();
+      }
+      if (finishReason === 'MAX_TOKENS') {
+        throw new TruncatedOutputError(text);
+      }
+      if (!text.trim()) {
+        throw new EmptyResponseError();
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,124 @@
+import { createGeminiProvider } from './geminiProvider';
+import { createMockProvider } from './mockProvider';
+import { createOpenAiCompatibleProvider } from './openAiCompatibleProvider';
+import { createResilientProvider } from './resilientProvider';
+import { LlmProvider, ProviderConfig, ProviderId } from './types';
+
+export type { GenerationRequest, ImageInput, LlmProvider, ProviderConfig, ProviderId } from './types';
+export { isAbortError } from './abort';
+export {
+  AuthError,
+  EmptyResponseError,
+  MalformedResponseError,
+  NetworkError,
+  ProviderError,
+  RateLimitError,
+  SafetyBlockError,
+  ServerError,
+  TruncatedOutputError,
+} from './errors';
+
+const STORAGE_KEY = 'smartexam-ai:provider';
+// The API key is kept for this tab only, unless the teacher asks to remember it on this device
+const SESSION_API_KEY_STORAGE_KEY = 'smartexam-ai:provider-api-key';
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible API',
+  ollama: 'Local server (Ollama)',
+  mock: 'Mock (offline fixtures)',
+};
+
+// Sensible starting values when switching provider in the settings panel
+export const PROVIDER_DEFAULTS: Record<ProviderId, ProviderConfig> = {
+  gemini: {
+    providerId: 'gemini',
+    baseUrl: '',
+    apiKey: '',
+    rememberApiKey: false,
+    visionModel: 'gemini-2.5-flash-image', // Multimodal model
+    textModel: 'gemini-2.5-pro', // Better for complex text generation
+  },
+  openai: {
+    providerId: 'openai',
+    baseUrl: 'https://api.openai.com/v1',
+    apiKey: '',
+    rememberApiKey: false,
+    visionModel: 'gpt-4o-mini',
+    textModel: 'gpt-4o',
+  },
+  ollama: {
+    providerId: 'ollama',
+    baseUrl: 'http://localhost:11434/v1',
+    apiKey: '',
+    rememberApiKey: false,
+    visionModel: 'llava',
+    textModel: 'llama3.1',
+  },
+  mock: {
+    providerId: 'mock',
+    baseUrl: '',
+    apiKey: '',
+    rememberApiKey: false,
+    visionModel: 'mock',
+    textModel: 'mock',
+  },
+};
+
+function isProviderId(value: unknown): value is ProviderId {
+  return typeof value === 'string' && value in PROVIDER_DEFAULTS;
+}
+
+// The build can pick the default provider, e.g. LLM_PROVIDER=mock for offline development
+function getDefaultProviderId(): ProviderId {
+  const configured = process.env.LLM_PROVIDER;
+  return isProviderId(configured) ? configured : 'gemini';
+}
+
+export function loadProviderConfig(): ProviderConfig {
+  const fallback = PROVIDER_DEFAULTS[getDefaultProviderId()];
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (stored && isProviderId(stored.providerId)) {
+      const config: ProviderConfig = {
+        ...PROVIDER_DEFAULTS[stored.providerId],
+        ...stored,
+        rememberApiKey: stored.rememberApiKey === true,
+        apiKey: sessionStorage.getItem(SESSION_API_KEY_STORAGE_KEY) ?? (typeof stored.apiKey === 'string' ? stored.apiKey : ''),
+      };
+      // Settings saved before keys were kept per session still hold the key; move it out of localStorage
+      if (stored.rememberApiKey === undefined && stored.apiKey) {
+        saveProviderConfig(config);
+      }
+      return config;
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable provider settings:', error);
+  }
+  return fallback;
+}
+
+export function saveProviderConfig(config: ProviderConfig) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(config.rememberApiKey ? config : { ...config, apiKey: '' }));
+  if (config.apiKey) {
+    sessionStorage.setItem(SESSION_API_KEY_STORAGE_KEY, config.apiKey);
+  } else {
+    sessionStorage.removeItem(SESSION_API_KEY_STORAGE_KEY);
+  }
+}
+
+function createBaseProvider(config: ProviderConfig): LlmProvider {
+  switch (config.providerId) {
+    case 'gemini':
+      return createGeminiProvider(config);
+    case 'openai':
+    case 'ollama':
+      return createOpenAiCompatibleProvider(config);
+    case 'mock':
+      return createMockProvider();
+  }
+}
+
+export function createProvider(config: ProviderConfig): LlmProvider {
+  return createResilientProvider(createBaseProvider(config));
+}
@@ -0,0 +1,315 @@
+import { ExamSettings, GeneratedExam, Question, QuestionType } from '../../types';
+import { BLOOM_LEVELS, getSectionBloomTargets } from '../bloom';
+import { AUTO_SCORED_TYPES, QUESTION_TYPES, getMarksPerQuestion, getRequestedCount } from '../questionTypes';
+import { GenerationRequest, LlmProvider } from './types';
+import { throwIfAborted } from './abort';
+import { Language, getSecondLanguage } from '../languages';
+
+// Offline provider that returns deterministic fixture exams, for development and tests without an API key.
+
+const MOCK_ANALYSIS_SUMMARY =
+  'Mock analysis: the pages cover cell structure, including the cell membrane, nucleus, cytoplasm, mitochondria, chloroplasts and the differences between plant and animal cells.';
+
+// Returned as the text of every uploaded page; fixture sources quote from it
+const MOCK_PAGE_TEXT =
+  'The Fundamental Unit of Life. All living organisms are made up of cells. The cell membrane is selectively permeable and controls the movement of substances into and out of the cell. The nucleus is the control centre of the cell and contains the genetic material. Mitochondria are known as the powerhouses of the cell because they release energy from food. Plant cells have a rigid cell wall made of cellulose and chloroplasts, which contain the green pigment chlorophyll. Water moves across the membrane by osmosis. Proteins are made on ribosomes. Figure 5.1: labelled diagram of a plant cell.';
+
+// The case study deliberately has no source, so the review panel always has a flagged question to show
+const MOCK_SOURCE_EXCERPTS: Record<QuestionType, string | null> = {
+  mcq: 'Mitochondria are known as the powerhouses of the cell because they release energy from food.',
+  trueFalse: 'The cell membrane is selectively permeable',
+  fillBlank: 'The nucleus is the control centre of the cell',
+  match: 'Proteins are made on ribosomes.',
+  assertionReason: 'Plant cells have a rigid cell wall made of cellulose',
+  short: 'The cell membrane is selectively permeable and controls the movement of substances into and out of the cell.',
+  long: 'Figure 5.1: labelled diagram of a plant cell.',
+  caseStudy: null,
+};
+
+type FixtureQuestion = Omit<Question, 'id' | 'type' | 'marks' | 'bloomLevel' | 'difficulty'>;
+
+const FIXTURE_QUESTIONS: Record<QuestionType, FixtureQuestion[]> = {
+  mcq: [
+    {
+      text: 'Which organelle is known as the powerhouse of the cell?',
+      options: ['Nucleus', 'Mitochondrion', 'Ribosome', 'Golgi apparatus'],
+      correctAnswer: 'B',
+      modelAnswer: 'Mitochondria release energy from food through cellular respiration.',
+    },
+    {
+      text: 'Which structure is found in plant cells but not in animal cells?',
+      options: ['Cell membrane', 'Cytoplasm', 'Cell wall', 'Nucleus'],
+      correctAnswer: 'C',
+      modelAnswer: 'Plant cells have a rigid cellulose cell wall outside the membrane.',
+    },
+    {
+      text: 'What controls the movement of substances into and out of the cell?',
+      options: ['Cell membrane', 'Vacuole', 'Chloroplast', 'Nucleolus'],
+      correctAnswer: 'A',
+      modelAnswer: 'The cell membrane is selectively permeable.',
+    },
+    {
+      text: 'Where is the genetic material of a eukaryotic cell mainly stored?',
+      options: ['Lysosome', 'Endoplasmic reticulum', 'Cytoplasm', 'Nucleus'],
+      correctAnswer: 'D',
+      modelAnswer: 'DNA is packed into chromosomes inside the nucleus.',
+    },
+    {
+      text: 'Which organelle carries out photosynthesis?',
+      options: ['Chloroplast', 'Mitochondrion', 'Ribosome', 'Centrosome'],
+      correctAnswer: 'A',
+      modelAnswer: 'Chloroplasts contain chlorophyll, which absorbs light energy.',
+    },
+  ],
+  trueFalse: [
+    { text: 'Ribosomes are found only in plant cells.', correctAnswer: 'False', modelAnswer: 'Ribosomes occur in all cells.' },
+    { text: 'The cell membrane is selectively permeable.', correctAnswer: 'True', modelAnswer: 'It lets some substances pass and blocks others.' },
+    { text: 'Mitochondria have their own DNA.', correctAnswer: 'True', modelAnswer: 'Mitochondria carry a small circular DNA of their own.' },
+    { text: 'Animal cells have a cell wall made of cellulose.', correctAnswer: 'False', modelAnswer: 'Only plant cells have a cellulose cell wall.' },
+  ],
+  fillBlank: [
+    { text: 'The _____ is the control centre of the cell.', correctAnswer: 'nucleus' },
+    { text: 'Green pigment in chloroplasts is called _____.', correctAnswer: 'chlorophyll' },
+    { text: 'Movement of water across a membrane is called _____.', correctAnswer: 'osmosis' },
+    { text: 'Proteins are made on the _____.', correctAnswer: 'ribosomes' },
+  ],
+  match: [
+    {
+      text: 'Match each organelle in Column A with its function in Column B.',
+      matchPairs: [
+        { left: 'Mitochondrion', right: 'Releases energy' },
+        { left: 'Ribosome', right: 'Makes proteins' },
+        { left: 'Lysosome', right: 'Digests waste' },
+        { left: 'Chloroplast', right: 'Carries out photosynthesis' },
+      ],
+    },
+    {
+      text: 'Match each cell part in Column A with its description in Column B.',
+      matchPairs: [
+        { left: 'Cell wall', right: 'Rigid outer layer of plant cells' },
+        { left: 'Vacuole', right: 'Stores sap and water' },
+        { left: 'Nucleolus', right: 'Found inside the nucleus' },
+      ],
+    },
+  ],
+  assertionReason: [
+    {
+      text: 'Lysosomes are called suicide bags of the cell.',
+      reason: 'Lysosomes contain digestive enzymes.',
+      correctAnswer: 'A',
+      modelAnswer: 'The enzymes can digest the cell itself, which explains the name.',
+    },
+    {
+      text: 'Plant cells do not burst in pure water.',
+      reason: 'Plant cells have chloroplasts.',
+      correctAnswer: 'B',
+      modelAnswer: 'The cell wall, not the chloroplasts, stops plant cells bursting.',
+    },
+  ],
+  short: [
+    {
+      text: 'State two differences between plant and animal cells.',
+      modelAnswer: 'Plant cells have a cell wall and chloroplasts; animal cells have neither. Plant cells usually have one large vacuole.',
+      markingScheme: ['Cell wall present only in plant cells', 'Chloroplasts present only in plant cells'],
+    },
+    {
+      text: 'Why are lysosomes called the suicide bags of the cell?',
+      modelAnswer: 'They contain digestive enzymes that can break down the cell itself if the lysosome bursts.',
+      markingScheme: ['Contain digestive enzymes', 'Bursting releases enzymes that digest the cell'],
+    },
+    {
+      text: 'What is osmosis? Give one example.',
+      modelAnswer: 'Osmosis is the movement of water through a selectively permeable membrane from a dilute to a concentrated solution, e.g. raisins swelling in water.',
+      markingScheme: ['Correct definition of osmosis', 'Mentions selectively permeable membrane', 'Valid example'],
+    },
+    {
+      text: 'Write the balanced chemical equation for photosynthesis and name the organelle where it takes place.',
+      modelAnswer: '$$\\ce{6CO2 + 6H2O -> C6H12O6 + 6O2}$$ It takes place in the chloroplast.',
+      markingScheme: ['Correct reactants and products', 'Equation balanced', 'Names the chloroplast'],
+    },
+  ],
+  long: [
+    {
+      text: 'Describe the structure and functions of the nucleus with a labelled diagram.',
+      modelAnswer: 'The nucleus is bounded by a double nuclear membrane with pores. It contains chromatin and a nucleolus. It controls cell activities and carries hereditary information.',
+      markingScheme: ['Double membrane with nuclear pores', 'Chromatin / chromosomes', 'Nucleolus', 'Controls cell activities', 'Role in inheritance', 'Labelled diagram'],
+      // Points at the upper half of the first page; dropped when no pages were uploaded
+      diagram: { imageIndex: 0, region: { x: 0.1, y: 0.1, width: 0.8, height: 0.4 } },
+    },
+    {
+      text: 'Explain how the cell membrane, cytoplasm and organelles work together to keep a cell alive.',
+      modelAnswer: 'The membrane regulates exchange with the surroundings, the cytoplasm is the site of many reactions, and organelles divide the work: mitochondria release energy, ribosomes make proteins and the nucleus directs activity.',
+      markingScheme: ['Role of the cell membrane', 'Role of the cytoplasm', 'Mitochondria and energy', 'Ribosomes and proteins', 'Nucleus coordinates activity'],
+    },
+  ],
+  caseStudy: [
+    {
+      text: 'Riya placed a few raisins in a bowl of water overnight. The next morning the raisins had swollen. She then placed the swollen raisins in a strong sugar solution and they shrank again.',
+      subQuestions: [
+        { text: 'Name the process that made the raisins swell.', marks: 1, modelAnswer: 'Osmosis (endosmosis).' },
+        { text: 'Why did the raisins shrink in the sugar solution?', marks: 1, modelAnswer: 'Water moved out of the raisins into the more concentrated solution.' },
+        { text: 'What property of the cell membrane makes this possible?', marks: 2, modelAnswer: 'It is selectively permeable, letting water through but not the sugar.' },
+      ],
+    },
+    {
+      text: 'A student observed onion peel and human cheek cells under a microscope. The onion cells were regular and box-like while the cheek cells were irregular and flat.',
+      subQuestions: [
+        { text: 'Which structure gives onion cells their regular shape?', marks: 1, modelAnswer: 'The cell wall.' },
+        { text: 'Name one organelle seen in both kinds of cell.', marks: 1, modelAnswer: 'The nucleus.' },
+        { text: 'Why are no chloroplasts seen in the onion peel cells?', marks: 2, modelAnswer: 'The onion bulb grows underground, away from light, so its cells do not photosynthesise.' },
+      ],
+    },
+  ],
+};
+
+// Spreads a case study's marks over its sub-questions so they always add up to the requested total
+function withSubQuestionMarks(fixture: FixtureQuestion, marks: number): FixtureQuestion {
+  if (!fixture.subQuestions) {
+    return fixture;
+  }
+  const count = fixture.subQuestions.length;
+  const subQuestions = fixture.subQuestions.map((sub, index) => ({
+    ...sub,
+    marks: Math.floor(marks / count) + (index < marks % count ? 1 : 0),
+  }));
+  return { ...fixture, subQuestions };
+}
+
+// Fixture translations are the original text marked with the language, enough to lay out a bilingual paper offline
+function withMockTranslation(fixture: FixtureQuestion, language: Language | null): FixtureQuestion {
+  if (!language) {
+    return fixture;
+  }
+  const translate = (text: string) => `[${language.nativeName}] ${text}`;
+  return {
+    ...fixture,
+    translation: {
+      text: translate(fixture.text),
+      ...(fixture.options ? { options: fixture.options.map(translate) } : {}),
+      ...(fixture.reason ? { reason: translate(fixture.reason) } : {}),
+      ...(fixture.matchPairs ? { matchPairs: fixture.matchPairs.map((pair) => ({ left: translate(pair.left), right: translate(pair.right) })) } : {}),
+      ...(fixture.subQuestions ? { subQuestions: fixture.subQuestions.map((sub) => translate(sub.text)) } : {}),
+    },
+  };
+}
+
+// Fixtures use the app's Question shape, but the model is asked for a flat diagram object
+function toResponseQuestion(fixture: FixtureQuestion) {
+  const { diagram, ...rest } = fixture;
+  return diagram ? { ...rest, diagram: { imageIndex: diagram.imageIndex, ...diagram.region } } : rest;
+}
+
+function buildMockAnalysis(imageCount: number) {
+  return {
+    summary: MOCK_ANALYSIS_SUMMARY,
+    pages: Array.from({ length: imageCount }, (_, imageIndex) => ({ imageIndex, text: MOCK_PAGE_TEXT })),
+  };
+}
+
+function getMockSource(type: QuestionType) {
+  const excerpt = MOCK_SOURCE_EXCERPTS[type];
+  return excerpt ? { source: { imageIndexes: [0], excerpt } } : {};
+}
+
+function buildMockExam(settings: ExamSettings) {
+  return {
+    sections: QUESTION_TYPES.filter((type) => getRequestedCount(settings, type) > 0).map((type) => {
+      const pool = FIXTURE_QUESTIONS[type];
+      // Hand out Bloom's levels in order so the fixture meets the requested mix exactly
+      const targets = getSectionBloomTargets(settings, type);
+      const bloomLevels = BLOOM_LEVELS.flatMap((level) => Array.from({ length: targets[level] }, () => level));
+      const chapters = settings.blueprintEnabled
+        ? settings.blueprint.flatMap((unit) => Array.from({ length: unit.counts[type] || 0 }, () => unit.chapter))
+        : [];
+      return {
+        type,
+        questions: Array.from({ length: getRequestedCount(settings, type) }, (_, index) => {
+          const fixture = toResponseQuestion(
+            withMockTranslation(withSubQuestionMarks(pool[index % pool.length], getMarksPerQuestion(settings, type)), getSecondLanguage(settings)),
+          );
+          // Repeat fixtures stay distinguishable when more questions are requested than the pool holds
+          const round = Math.floor(index / pool.length);
+          return {
+            ...fixture,
+            text: round === 0 ? fixture.text : `${fixture.text} (variant ${round + 1})`,
+            bloomLevel: bloomLevels[index] || 'understand',
+            difficulty: settings.difficulty,
+            ...(chapters[index] ? { chapter: chapters[index] } : {}),
+            ...getMockSource(type),
+          };
+        }),
+      };
+    }),
+  };
+}
+
+// Picks the next fixture after the one being replaced so regeneration visibly changes the question
+function buildMockReplacement(question: Question, settings: ExamSettings) {
+  const pool = FIXTURE_QUESTIONS[question.type];
+  const currentIndex = pool.findIndex((fixture) => question.text.startsWith(fixture.text));
+  return {
+    ...toResponseQuestion(withMockTranslation(withSubQuestionMarks(pool[(currentIndex + 1) % pool.length], question.marks), getSecondLanguage(settings))),
+    bloomLevel: question.bloomLevel || 'understand',
+    difficulty: question.difficulty || 'medium',
+    ...getMockSource(question.type),
+  };
+}
+
+// Gets every third choice question wrong and gives written answers a little over half marks,
+// so the grading review has both right and wrong answers to show
+function buildMockGrading(exam: GeneratedExam) {
+  return {
+    answers: exam.sections.flatMap((section) =>
+      section.questions.map((question, index) => {
+        if (!AUTO_SCORED_TYPES.includes(question.type)) {
+          return {
+            questionId: question.id,
+            studentAnswer: question.modelAnswer || question.correctAnswer || 'Mock answer.',
+            marks: Math.round(question.marks * 0.6 * 2) / 2,
+            justification: 'Mock marking: covers the main point of the marking scheme but misses some detail.',
+          };
+        }
+        const wrongAnswer = question.type === 'trueFalse' ? (question.correctAnswer === 'True' ? 'False' : 'True') : question.correctAnswer === 'A' ? 'B' : 'A';
+        return { questionId: question.id, studentAnswer: index % 3 === 2 ? wrongAnswer : question.correctAnswer || '' };
+      }),
+    ),
+  };
+}
+
+function buildMockResponse(request: GenerationRequest) {
+  switch (request.task.kind) {
+    case 'analysis':
+      return buildMockAnalysis(request.task.imageCount);
+    case 'exam':
+      return buildMockExam(request.task.settings);
+    case 'question':
+      return buildMockReplacement(request.task.question, request.task.settings);
+    case 'translation':
+      return withMockTranslation(request.task.question, getSecondLanguage(request.task.settings)).translation;
+    case 'grading':
+      return buildMockGrading(request.task.exam);
+  }
+}
+
+// Streamed responses arrive in small delayed chunks so progress and cancelling can be tried offline
+const STREAM_CHUNK_SIZE = 120;
+const STREAM_CHUNK_DELAY_MS = 40;
+
+export function createMockProvider(): LlmProvider {
+  return {
+    id: 'mock',
+    async generate(request: GenerationRequest): Promise<string> {
+      throwIfAborted(request.signal);
+      const text = JSON.stringify(buildMockResponse(request));
+      if (!request.onText) {
+        return text;
+      }
+      for (let end = STREAM_CHUNK_SIZE; end < text.length + STREAM_CHUNK_SIZE; end += STREAM_CHUNK_SIZE) {
+        await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+        throwIfAborted(request.signal);
+        request.onText(text.slice(0, end));
+      }
+      return text;
+    },
+  };
+}
@@ -0,0 +1,152 @@
+import { GenerationRequest, LlmProvider, ProviderConfig } from './types';
+import { createAbortError } from './abort';
+import {
+  EmptyResponseError,
+  MalformedResponseError,
+  NetworkError,
+  ProviderError,
+  SafetyBlockError,
+  TruncatedOutputError,
+  errorFromStatus,
+  parseRetryAfter,
+} from './errors';
+
+interface CompletionResult {
+  text: string;
+  finishReason?: string;
+}
+
+// Both the whole response and each streamed chunk are JSON
+function parseResponseJson(data: string): any {
+  try {
+    return JSON.parse(data);
+  } catch {
+    throw new MalformedResponseError();
+  }
+}
+
+// Reads a server-sent events body of chat completion chunks, reporting the text as it grows
+async function readStream(response: Response, onText: (textSoFar: string) => void): Promise<CompletionResult> {
+  if (!response.body) {
+    throw new MalformedResponseError('The model server did not return a response body.');
+  }
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let finishReason: string | undefined;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) {
+      break;
+    }
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || ''; // Keep a partial line for the next read
+    for (const line of lines) {
+      const data = line.trim().replace(/^data:\s*/, '');
+      if (!line.trim().startsWith('data:') || data === '[DONE]') {
+        continue;
+      }
+      const choice = parseResponseJson(data).choices?.[0];
+      finishReason = choice?.finish_reason || finishReason;
+      if (choice?.delta?.content) {
+        text += choice.delta.content;
+        onText(text);
+      }
+    }
+  }
+  return { text, finishReason };
+}
+
+// Works with any server exposing the OpenAI chat completions API, including Ollama's /v1 endpoint
+export function createOpenAiCompatibleProvider(config: ProviderConfig): LlmProvider {
+  return {
+    id: config.providerId,
+    async generate(request: GenerationRequest): Promise<string> {
+      if (!config.baseUrl) {
+        throw new ProviderError('request', 'No base URL is configured for the OpenAI-compatible provider. Set it in the model provider settings.', false);
+      }
+
+      const images = request.images || [];
+      // Plain string content is the most widely supported form when there are no images
+      const content = images.length === 0
+        ? request.prompt
+        : [
+            { type: 'text', text: request.prompt },
+            ...images.map((image) => ({
+              type: 'image_url',
+              image_url: { url: `data:${image.mimeType};base64,${image.data}` },
+            })),
+          ];
+
+      let response: Response;
+      try {
+        response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+          },
+          body: JSON.stringify({
+            model: request.modelRole === 'vision' ? config.visionModel : config.textModel,
+            messages: [{ role: 'user', content }],
+            max_tokens: request.maxOutputTokens,
+            stream: Boolean(request.onText),
+            temperature: request.temperature,
+            top_p: request.topP,
+            ...(request.responseSchema
+              ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: request.responseSchema } } }
+              : {}),
+          }),
+          signal: request.signal,
+        });
+      } catch (error: any) {
+        if (request.signal?.aborted) {
+          throw createAbortError();
+        }
+        console.error('Error calling the OpenAI-compatible endpoint:', error);
+        throw new NetworkError(`Could not reach ${config.baseUrl}. Check your connection, or that the server is running and allows browser requests.`);
+      }
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '');
+        console.error(`The model server returned ${response.status}:`, detail);
+        throw (
+          errorFromStatus(response.status, parseRetryAfter(response.headers.get('Retry-After'))) ||
+          new ProviderError('request', `The model server returned ${response.status}${detail ? `: ${detail}` : ''}`, false)
+        );
+      }
+
+      let result: CompletionResult;
+      try {
+        if (request.onText) {
+          result = await readStream(response, request.onText);
+        } else {
+          const choice = parseResponseJson(await response.text()).choices?.[0];
+          result = { text: choice?.message?.content || '', finishReason: choice?.finish_reason };
+        }
+      } catch (error) {
+        if (request.signal?.aborted) {
+          throw createAbortError();
+        }
+        if (error instanceof ProviderError) {
+          throw error;
+        }
+        console.error('Error reading the model server response:', error);
+        throw new NetworkError(`The connection to ${config.baseUrl} was interrupted. Try again.`);
+      }
+
+      if (result.finishReason === 'content_filter') {
+        throw new SafetyBlockError();
+      }
+      if (result.finishReason === 'length') {
+        throw new TruncatedOutputError(result.text);
+      }
+      if (!result.text.trim()) {
+        throw new EmptyResponseError();
+      }
+      return result.text;
+    },
+  };
+}
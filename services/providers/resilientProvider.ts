@@ -0,0 +1,106 @@
+import { GenerationRequest, LlmProvider } from './types';
+import { createAbortError } from './abort';
+import { ProviderError, RateLimitError, TruncatedOutputError } from './errors';
+
+// Transient failures (rate limits, dropped connections, overloaded servers) are retried this many times
+const MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// How many follow-up requests may extend a response cut off at maxOutputTokens
+const MAX_CONTINUATIONS = 2;
+
+// A continuation that starts by repeating this much of the end of the text (but no more than the
+// maximum) is treated as a restatement; shorter matches are likely genuine, e.g. a closing quote
+const MIN_CONTINUATION_OVERLAP = 20;
+const MAX_CONTINUATION_OVERLAP = 200;
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(createAbortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(createAbortError());
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Exponential backoff with jitter, so parallel requests do not retry in lockstep
+function getRetryDelay(error: ProviderError, retry: number): number {
+  const backoff = Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** retry) * (0.5 + Math.random() / 2);
+  return error instanceof RateLimitError && error.retryAfterMs ? Math.max(error.retryAfterMs, backoff) : backoff;
+}
+
+async function generateWithRetries(provider: LlmProvider, request: GenerationRequest): Promise<string> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await provider.generate(request);
+    } catch (error) {
+      if (!(error instanceof ProviderError) || !error.retryable || retry >= MAX_RETRIES) {
+        throw error;
+      }
+      const delay = getRetryDelay(error, retry);
+      console.warn(`${error.name} from ${provider.id}; retrying in ${Math.round(delay / 1000)}s (retry ${retry + 1} of ${MAX_RETRIES}).`);
+      await wait(delay, request.signal);
+    }
+  }
+}
+
+// Models sometimes restate the last few words before carrying on; drop the repeated part
+function appendContinuation(text: string, continuation: string): string {
+  const maxOverlap = Math.min(MAX_CONTINUATION_OVERLAP, text.length, continuation.length);
+  for (let overlap = maxOverlap; overlap >= MIN_CONTINUATION_OVERLAP; overlap--) {
+    if (text.endsWith(continuation.slice(0, overlap))) {
+      return text + continuation.slice(overlap);
+    }
+  }
+  return text + continuation;
+}
+
+// A schema would make the model start a fresh JSON document, so the continuation is free text
+function createContinuationRequest(request: GenerationRequest, textSoFar: string): GenerationRequest {
+  return {
+    ...request,
+    responseSchema: undefined,
+    prompt: `${request.prompt}
+
+    Your previous response was cut off at the output limit. This is what you wrote so far:
+    ${textSoFar}
+
+    Continue from exactly where it stopped. Do not repeat anything already written and add no commentary; your output is appended to it directly.`,
+    onText: request.onText && ((continuationSoFar: string) => request.onText?.(appendContinuation(textSoFar, continuationSoFar))),
+  };
+}
+
+// Wraps a provider with retries for transient failures and continuation of truncated output
+export function createResilientProvider(provider: LlmProvider): LlmProvider {
+  return {
+    id: provider.id,
+    async generate(request: GenerationRequest): Promise<string> {
+      let text = '';
+      for (let continuation = 0; ; continuation++) {
+        const currentRequest = continuation === 0 ? request : createContinuationRequest(request, text);
+        try {
+          return appendContinuation(text, await generateWithRetries(provider, currentRequest));
+        } catch (error) {
+          if (!(error instanceof TruncatedOutputError)) {
+            throw error;
+          }
+          text = appendContinuation(text, error.partialText);
+          if (continuation >= MAX_CONTINUATIONS) {
+            throw new TruncatedOutputError(text);
+          }
+          console.warn(`Response from ${provider.id} was cut off at the output limit; asking it to continue.`);
+        }
+      }
+    },
+  };
+}
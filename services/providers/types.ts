@@ -0,0 +1,46 @@
+import { ExamSettings, GeneratedExam, Question } from '../../types';
+
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface ProviderConfig {
+  providerId: ProviderId;
+  baseUrl: string; // OpenAI-compatible endpoints only
+  apiKey: string; // Falls back to the build-time key for Gemini when empty
+  rememberApiKey: boolean; // Keep the key on this device; otherwise it is forgotten when the tab closes
+  visionModel: string; // Used for image analysis
+  textModel: string; // Used for question generation
+}
+
+export interface ImageInput {
+  mimeType: string;
+  data: string; // base64 without the data: prefix
+}
+
+// Describes what is being generated. Real providers only need the prompt and schema;
+// the mock provider uses it to return fixtures that match the request.
+export type GenerationTask =
+  | { kind: 'analysis'; imageCount: number }
+  | { kind: 'exam'; settings: ExamSettings }
+  | { kind: 'question'; question: Question; settings: ExamSettings }
+  | { kind: 'translation'; question: Question; settings: ExamSettings }
+  | { kind: 'grading'; exam: GeneratedExam };
+
+export interface GenerationRequest {
+  task: GenerationTask;
+  prompt: string;
+  images?: ImageInput[];
+  modelRole: 'vision' | 'text';
+  responseSchema?: object; // When set, the response must be JSON matching this schema
+  maxOutputTokens: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  signal?: AbortSignal; // Cancels the request
+  onText?: (textSoFar: string) => void; // When set, the response is streamed and reported as it arrives
+}
+
+export interface LlmProvider {
+  id: ProviderId;
+  // Resolves with the raw response text
+  generate(request: GenerationRequest): Promise<string>;
+}
@@ -0,0 +1,334 @@
+import { ExamSettings, GeneratedExam, Question, QuestionType } from '../types';
+import { OPTION_LABELS, isTranslationComplete } from './examSchema';
+import { QUESTION_TYPES, SECTION_TITLES, getMarksPerQuestion, getRequestedCount } from './questionTypes';
+import { NEAR_DUPLICATE_THRESHOLD, getTextSimilarity } from './questionBank';
+import { Language, getLanguage, getSecondLanguage } from './languages';
+import { addQuestionOfType, createQuestionId, deleteQuestion, updateQuestion } from './examEditing';
+import { regenerateQuestion, translateQuestion } from './examGenerator';
+import { LlmProvider } from './providers';
+
+// Checks run on the paper as displayed. Generation already rejects short sections and malformed
+// options, but a paper can drift from its settings through edits, bank picks or changed settings.
+
+export type QualityCheckId = 'counts' | 'mcqOptions' | 'duplicates' | 'language' | 'classLevel';
+
+// What fixes an issue: a new version of the question, a new translation of it, a question added to a short
+// section, or an extra one taken out
+export type QualityFix =
+  | { kind: 'regenerate'; questionId: string }
+  | { kind: 'translate'; questionId: string }
+  | { kind: 'add'; type: QuestionType }
+  | { kind: 'remove'; questionId: string };
+
+export interface QualityIssue {
+  message: string;
+  questionId?: string; // The question the issue is about, when there is one
+  fix: QualityFix;
+}
+
+export interface QualityCheck {
+  id: QualityCheckId;
+  label: string;
+  status: 'passed' | 'failed' | 'skipped';
+  note?: string; // Why the check was skipped
+  issues: QualityIssue[];
+}
+
+// Share of a text's letters that must be in the expected script. Below 1 because formulas,
+// units and names are often written in Latin letters whatever the paper's language.
+const SCRIPT_SHARE_THRESHOLD = 0.6;
+
+// Texts with fewer letters than this say too little about their script or reading level
+const MIN_SCRIPT_LETTERS = 12;
+const MIN_READING_WORDS = 12;
+
+// How many school years above the class the reading level may be before it is flagged
+const READING_GRADE_MARGIN = 4;
+
+function getQuestions(exam: GeneratedExam): Question[] {
+  return exam.sections.flatMap((section) => section.questions);
+}
+
+function regenerate(question: Question, message: string): QualityIssue {
+  return { message, questionId: question.id, fix: { kind: 'regenerate', questionId: question.id } };
+}
+
+// Rewrites only the translation, keeping the teacher's edits to the original
+function translate(question: Question, message: string): QualityIssue {
+  return { message, questionId: question.id, fix: { kind: 'translate', questionId: question.id } };
+}
+
+function checkCounts(exam: GeneratedExam, settings: ExamSettings): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  QUESTION_TYPES.forEach((type) => {
+    const requested = getRequestedCount(settings, type);
+    const questions = exam.sections.filter((section) => section.type === type).flatMap((section) => section.questions);
+    for (let index = questions.length; index < requested; index++) {
+      issues.push({ message: `${SECTION_TITLES[type]}: question ${index + 1} of the ${requested} requested is missing.`, fix: { kind: 'add', type } });
+    }
+    questions.slice(requested).forEach((question) => {
+      issues.push({
+        message: requested > 0 ? `${SECTION_TITLES[type]}: more than the ${requested} requested.` : `${SECTION_TITLES[type]} were not requested.`,
+        questionId: question.id,
+        fix: { kind: 'remove', questionId: question.id },
+      });
+    });
+  });
+  return issues;
+}
+
+function checkMcqOptions(exam: GeneratedExam): QualityIssue[] {
+  return getQuestions(exam)
+    .filter((question) => question.type === 'mcq')
+    .flatMap((question) => {
+      const options = (question.options || []).map((option) => option.trim());
+      if (options.length !== OPTION_LABELS.length) {
+        return [regenerate(question, `Has ${options.length} options instead of ${OPTION_LABELS.length}.`)];
+      }
+      if (options.some((option) => !option)) {
+        return [regenerate(question, 'Has an empty option.')];
+      }
+      if (new Set(options.map((option) => option.toLowerCase())).size !== options.length) {
+        return [regenerate(question, 'Has the same option twice.')];
+      }
+      if (!question.correctAnswer || !OPTION_LABELS.includes(question.correctAnswer)) {
+        return [regenerate(question, `Does not give its correct answer as one of ${OPTION_LABELS.join(', ')}.`)];
+      }
+      return [];
+    });
+}
+
+// Match questions often share an instruction, so their pairs are compared too
+function getComparableText(question: Question): string {
+  return [question.text, question.reason || '', ...(question.matchPairs || []).map((pair) => `${pair.left} ${pair.right}`)].join(' ');
+}
+
+// The later question of each repeated pair is flagged, so the first one stays
+function checkDuplicates(exam: GeneratedExam): QualityIssue[] {
+  const questions = getQuestions(exam);
+  const issues: QualityIssue[] = [];
+  questions.forEach((question, index) => {
+    const earlier = questions
+      .slice(0, index)
+      .map((other) => ({ other, similarity: getTextSimilarity(getComparableText(question), getComparableText(other)) }))
+      .find(({ similarity }) => similarity >= NEAR_DUPLICATE_THRESHOLD);
+    if (earlier) {
+      const match = earlier.similarity === 1 ? 'Repeats' : `Is ${Math.round(earlier.similarity * 100)}% similar to`;
+      issues.push(regenerate(question, `${match} “${earlier.other.text}”.`));
+    }
+  });
+  return issues;
+}
+
+// Formulas and tables are left out; they are written the same way in every language
+function getProse(texts: (string | undefined)[]): string {
+  return texts
+    .filter((text): text is string => Boolean(text))
+    .join('\n')
+    .replace(/\$\$[\s\S]*?\$\$|\$[^$]*\$/g, ' ')
+    .replace(/^\s*\|.*$/gm, ' ');
+}
+
+// Share of the text's letters written in the language's script, or null when there are too few to tell
+function getScriptShare(text: string, language: Language): number | null {
+  const letters = text.match(/\p{L}/gu) || [];
+  if (letters.length < MIN_SCRIPT_LETTERS) {
+    return null;
+  }
+  const script = new RegExp(`\\p{Script=${language.script}}`, 'u');
+  return letters.filter((letter) => script.test(letter)).length / letters.length;
+}
+
+function isInScript(text: string, language: Language): boolean {
+  const share = getScriptShare(text, language);
+  return share === null || share >= SCRIPT_SHARE_THRESHOLD;
+}
+
+function getQuestionProse(question: Question): string {
+  return getProse([
+    question.text,
+    question.reason,
+    ...(question.type === 'mcq' ? question.options || [] : []),
+    ...(question.matchPairs || []).flatMap((pair) => [pair.left, pair.right]),
+    ...(question.subQuestions || []).map((sub) => sub.text),
+  ]);
+}
+
+// Languages sharing a script (English, French and Spanish) cannot be told apart this way
+function checkLanguage(exam: GeneratedExam, settings: ExamSettings): QualityIssue[] {
+  const language = getLanguage(settings.language);
+  const secondLanguage = getSecondLanguage(settings);
+  return getQuestions(exam).flatMap((question) => {
+    if (!isInScript(getQuestionProse(question), language)) {
+      return [regenerate(question, `Not written in ${language.name}.`)];
+    }
+    if (!secondLanguage) {
+      return [];
+    }
+    const { translation } = question;
+    if (!translation) {
+      return [translate(question, `Has no ${secondLanguage.name} translation.`)];
+    }
+    if (!isTranslationComplete(question)) {
+      return [translate(question, `The ${secondLanguage.name} translation is missing parts of the question.`)];
+    }
+    const translated = getProse([
+      translation.text,
+      translation.reason,
+      ...(translation.options || []),
+      ...(translation.matchPairs || []).flatMap((pair) => [pair.left, pair.right]),
+      ...(translation.subQuestions || []),
+    ]);
+    return isInScript(translated, secondLanguage) ? [] : [translate(question, `The translation is not in ${secondLanguage.name}.`)];
+  });
+}
+
+// The school year in a class name such as "Grade 9" or "Class 10", or null when it has none
+function getClassGrade(className: string): number | null {
+  const match = className.match(/\d+/);
+  return match ? parseInt(match[0], 10) : null;
+}
+
+// Vowel groups, less a silent final "e"; close enough for a readability estimate
+function countSyllables(word: string): number {
+  const letters = word.toLowerCase().replace(/[^a-z]/g, '');
+  if (letters.length <= 3) {
+    return 1;
+  }
+  const trimmed = letters.replace(/(?:[^laeiouy]es|ed|[^laeiouy]e)$/, '').replace(/^y/, '');
+  return Math.max(1, (trimmed.match(/[aeiouy]{1,2}/g) || []).length);
+}
+
+// Flesch–Kincaid grade level: the school year a reader needs to follow the text, or null for very short texts
+function getReadingGrade(text: string): number | null {
+  const words: string[] = text.match(/[A-Za-z]+(?:['’-][A-Za-z]+)*/g) || [];
+  if (words.length < MIN_READING_WORDS) {
+    return null;
+  }
+  // Options and matching items are one per line without a full stop; each still reads as a sentence
+  const sentences = Math.max(1, text.split(/[.!?]+(?=\s|$)|\n/).filter((sentence) => /[A-Za-z]/.test(sentence)).length);
+  const syllables = words.reduce((total, word) => total + countSyllables(word), 0);
+  return 0.39 * (words.length / sentences) + 11.8 * (syllables / words.length) - 15.59;
+}
+
+function checkClassLevel(exam: GeneratedExam, grade: number): QualityIssue[] {
+  return getQuestions(exam).flatMap((question) => {
+    const readingGrade = getReadingGrade(getQuestionProse(question));
+    if (readingGrade === null || readingGrade <= grade + READING_GRADE_MARGIN) {
+      return [];
+    }
+    return [regenerate(question, `Reads at about year ${Math.round(readingGrade)}, well above year ${grade}.`)];
+  });
+}
+
+function toCheck(id: QualityCheckId, label: string, issues: QualityIssue[]): QualityCheck {
+  return { id, label, status: issues.length > 0 ? 'failed' : 'passed', issues };
+}
+
+export function runQualityChecks(exam: GeneratedExam, settings: ExamSettings): QualityCheck[] {
+  const language = getLanguage(settings.language);
+  const secondLanguage = getSecondLanguage(settings);
+  const grade = getClassGrade(settings.className);
+  const classLabel = `Reading level suits ${settings.className || 'the class'}`;
+
+  let classLevel: QualityCheck;
+  if (language.name !== 'English') {
+    classLevel = { id: 'classLevel', label: classLabel, status: 'skipped', note: 'Only English papers can be checked.', issues: [] };
+  } else if (grade === null) {
+    classLevel = { id: 'classLevel', label: classLabel, status: 'skipped', note: 'The class has no year number to compare with.', issues: [] };
+  } else {
+    classLevel = toCheck('classLevel', classLabel, checkClassLevel(exam, grade));
+  }
+
+  return [
+    toCheck('counts', 'Question counts match the settings', checkCounts(exam, settings)),
+    toCheck('mcqOptions', 'Each MCQ has four distinct options and one correct answer', checkMcqOptions(exam)),
+    toCheck('duplicates', 'No question is repeated', checkDuplicates(exam)),
+    toCheck('language', `Written in ${language.name}${secondLanguage ? ` with ${secondLanguage.name} translations` : ''}`, checkLanguage(exam, settings)),
+    classLevel,
+  ];
+}
+
+function findQuestion(exam: GeneratedExam, questionId: string): { sectionId: string; question: Question } | null {
+  for (const section of exam.sections) {
+    const question = section.questions.find((candidate) => candidate.id === questionId);
+    if (question) {
+      return { sectionId: section.id, question };
+    }
+  }
+  return null;
+}
+
+// Writes the question a fix needs, or null when the fix only takes one out
+export async function writeFixQuestion(
+  exam: GeneratedExam,
+  fix: QualityFix,
+  settings: ExamSettings,
+  provider: LlmProvider,
+): Promise<Question | null> {
+  switch (fix.kind) {
+    case 'regenerate': {
+      const found = findQuestion(exam, fix.questionId);
+      return found ? regenerateQuestion(found.question, exam, settings, provider) : null;
+    }
+    case 'translate': {
+      const found = findQuestion(exam, fix.questionId);
+      return found ? translateQuestion(found.question, settings, provider) : null;
+    }
+    case 'add': {
+      const blank: Question = {
+        id: createQuestionId(exam, fix.type),
+        type: fix.type,
+        text: '',
+        marks: getMarksPerQuestion(settings, fix.type),
+        difficulty: settings.difficulty,
+      };
+      return regenerateQuestion(blank, exam, settings, provider);
+    }
+    case 'remove':
+      return null;
+  }
+}
+
+// Applies a fix to the latest paper, which may have been edited while the question was being written
+export function applyQualityFix(exam: GeneratedExam, fix: QualityFix, written: Question | null): GeneratedExam {
+  if (fix.kind === 'add') {
+    return written ? addQuestionOfType(exam, written) : exam;
+  }
+  const found = findQuestion(exam, fix.questionId);
+  if (!found) {
+    return exam;
+  }
+  if (fix.kind === 'remove') {
+    // A section left empty was not requested at all, so its heading goes too
+    const result = deleteQuestion(exam, found.sectionId, fix.questionId);
+    return { ...result, sections: result.sections.filter((section) => section.id !== found.sectionId || section.questions.length > 0) };
+  }
+  if (fix.kind === 'translate') {
+    return written ? updateQuestion(exam, found.sectionId, { ...found.question, translation: written.translation }) : exam;
+  }
+  return written ? updateQuestion(exam, found.sectionId, written) : exam;
+}
+
+// One fix per question when several checks flag it, taking a question out rather than rewriting it and
+// rewriting it rather than only translating it, as a rewritten question comes with its translation.
+// Additions are kept as they are, one for each missing question.
+export function mergeQualityFixes(fixes: QualityFix[]): QualityFix[] {
+  const removed = new Set(fixes.flatMap((fix) => (fix.kind === 'remove' ? [fix.questionId] : [])));
+  const rewritten = new Set(fixes.flatMap((fix) => (fix.kind === 'regenerate' ? [fix.questionId] : [])));
+  const seen = new Set<string>();
+  return fixes.filter((fix) => {
+    if (fix.kind === 'add') {
+      return true;
+    }
+    if (
+      (fix.kind === 'regenerate' && removed.has(fix.questionId)) ||
+      (fix.kind === 'translate' && (removed.has(fix.questionId) || rewritten.has(fix.questionId))) ||
+      seen.has(fix.questionId)
+    ) {
+      return false;
+    }
+    seen.add(fix.questionId);
+    return true;
+  });
+}
@@ -0,0 +1,141 @@
+import { BankQuestion, ExamSettings, GeneratedExam, Question, QuestionType } from '../types';
+import { QUESTION_BANK_STORE, deleteRecord, getAllRecords, putRecord, putRecords } from './db';
+
+// Word-set overlap at or above this is treated as a near-duplicate
+export const NEAR_DUPLICATE_THRESHOLD = 0.7;
+
+export interface DuplicateMatch {
+  entry: BankQuestion;
+  similarity: number; // 0-1, where 1 means the normalized text is identical
+}
+
+function normalizeText(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').replace(/\s+/g, ' ').trim();
+}
+
+// Very short words ("a", "of", "is") say little about what a question asks
+function toWordSet(text: string): Set<string> {
+  return new Set(normalizeText(text).split(' ').filter((word) => word.length > 2));
+}
+
+// Jaccard similarity of the two questions' word sets
+export function getTextSimilarity(a: string, b: string): number {
+  if (normalizeText(a) === normalizeText(b)) {
+    return 1;
+  }
+  const wordsA = toWordSet(a);
+  const wordsB = toWordSet(b);
+  if (wordsA.size === 0 || wordsB.size === 0) {
+    return 0;
+  }
+  let shared = 0;
+  wordsA.forEach((word) => {
+    if (wordsB.has(word)) {
+      shared++;
+    }
+  });
+  return shared / (wordsA.size + wordsB.size - shared);
+}
+
+function getQuestionTags(question: Question): string[] {
+  return [question.bloomLevel, question.difficulty, question.chapter].filter((tag): tag is string => Boolean(tag));
+}
+
+function sameClass(a: string, b: string): boolean {
+  return a.trim().toLowerCase() === b.trim().toLowerCase();
+}
+
+export async function listBankQuestions(): Promise<BankQuestion[]> {
+  const entries = await getAllRecords<BankQuestion>(QUESTION_BANK_STORE);
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+export function createBankEntry(question: Question, settings: ExamSettings, examId: string | null): BankQuestion {
+  return {
+    id: crypto.randomUUID(),
+    question,
+    topic: settings.topic,
+    className: settings.className,
+    board: settings.board,
+    tags: getQuestionTags(question),
+    usedInExamIds: examId ? [examId] : [],
+    createdAt: Date.now(),
+  };
+}
+
+// Stores every question of a freshly generated paper
+export function addExamToBank(exam: GeneratedExam, settings: ExamSettings, examId: string | null): Promise<void> {
+  const entries = exam.sections.flatMap((section) =>
+    section.questions.map((question) => createBankEntry(question, settings, examId)),
+  );
+  return putRecords(QUESTION_BANK_STORE, entries);
+}
+
+export function addQuestionToBank(question: Question, settings: ExamSettings, examId: string | null): Promise<void> {
+  return putRecord(QUESTION_BANK_STORE, createBankEntry(question, settings, examId));
+}
+
+export function markBankQuestionsUsed(entries: BankQuestion[], examId: string): Promise<void> {
+  return putRecords(
+    QUESTION_BANK_STORE,
+    entries
+      .filter((entry) => !entry.usedInExamIds.includes(examId))
+      .map((entry) => ({ ...entry, usedInExamIds: [...entry.usedInExamIds, examId] })),
+  );
+}
+
+export function deleteBankQuestion(id: string): Promise<void> {
+  return deleteRecord(QUESTION_BANK_STORE, id);
+}
+
+export interface BankFilter {
+  query: string;
+  type: QuestionType | '';
+  className: string;
+}
+
+export function filterBankQuestions(entries: BankQuestion[], filter: BankFilter): BankQuestion[] {
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  return entries.filter((entry) => {
+    if (filter.type && entry.question.type !== filter.type) {
+      return false;
+    }
+    if (filter.className.trim() && !sameClass(entry.className, filter.className)) {
+      return false;
+    }
+    const haystack = [entry.question.text, entry.topic, entry.board, ...entry.tags].join(' ').toLowerCase();
+    return terms.every((term) => haystack.includes(term));
+  });
+}
+
+// Flags questions on the paper that repeat a bank question already used for the same class in another paper.
+// Entries already used in this paper are its own questions or ones picked from the bank on purpose, so they never warn.
+export function findDuplicateQuestions(
+  exam: GeneratedExam,
+  entries: BankQuestion[],
+  className: string,
+  currentExamId: string | null,
+): Map<string, DuplicateMatch> {
+  const candidates = entries.filter(
+    (entry) =>
+      sameClass(entry.className, className) &&
+      !(currentExamId && entry.usedInExamIds.includes(currentExamId)) &&
+      entry.usedInExamIds.some((id) => id !== currentExamId),
+  );
+  const matches = new Map<string, DuplicateMatch>();
+  exam.sections.forEach((section) => {
+    section.questions.forEach((question) => {
+      let best: DuplicateMatch | null = null;
+      candidates.forEach((entry) => {
+        const similarity = getTextSimilarity(question.text, entry.question.text);
+        if (similarity >= NEAR_DUPLICATE_THRESHOLD && (!best || similarity > best.similarity)) {
+          best = { entry, similarity };
+        }
+      });
+      if (best) {
+        matches.set(question.id, best);
+      }
+    });
+  });
+  return matches;
+}
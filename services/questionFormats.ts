@@ -0,0 +1,70 @@
+import { MatchPair, Question } from '../types';
+import { OPTION_LABELS } from './examSchema';
+import { Language, getLetter, getOptionLabel } from './languages';
+
+// Presentation helpers for the question types whose printed form differs from their stored form.
+
+const ROMAN_NUMERALS = ['i', 'ii', 'iii', 'iv', 'v', 'vi', 'vii', 'viii', 'ix', 'x', 'xi', 'xii'];
+
+// "(i)", "(ii)"... for Column A of a match question
+export function getMatchLeftLabel(index: number): string {
+  return `(${ROMAN_NUMERALS[index] || index + 1})`;
+}
+
+// "(a)", "(b)"... for Column B of a match question and for case-study sub-questions, in the paper's script
+export function getLetterLabel(index: number, language?: Language): string {
+  return `(${getLetter(index, language)})`;
+}
+
+// The label an option is printed with, e.g. "B" or "ख" for the stored answer "B"
+export function getOptionLabelFor(answer: string, language?: Language): string {
+  const index = OPTION_LABELS.indexOf(answer);
+  return index >= 0 ? getOptionLabel(index, language) : answer;
+}
+
+// Column B in printed order: alphabetical, so the stored pairing is never given away.
+// If that happens to match the pairing, the column is rotated by one instead.
+export function getMatchColumnB(pairs: MatchPair[]): string[] {
+  const rights = pairs.map((pair) => pair.right);
+  const sorted = [...rights].sort((a, b) => a.localeCompare(b));
+  if (sorted.length > 1 && sorted.every((right, index) => right === rights[index])) {
+    return [...rights.slice(1), rights[0]];
+  }
+  return sorted;
+}
+
+// A translated Column B, in the same printed order as the original's
+export function getTranslatedColumnB(pairs: MatchPair[], translatedPairs: MatchPair[]): string[] {
+  return getMatchColumnB(pairs).map((right) => translatedPairs[pairs.findIndex((pair) => pair.right === right)]?.right ?? '');
+}
+
+// "(i) – (c), (ii) – (a)..." answer for a match question
+export function formatMatchAnswer(pairs: MatchPair[], language?: Language): string {
+  const columnB = getMatchColumnB(pairs);
+  return pairs
+    .map((pair, index) => `${getMatchLeftLabel(index)} – ${getLetterLabel(columnB.indexOf(pair.right), language)}`)
+    .join(', ');
+}
+
+// One-line answer for objective question types; null for types answered in writing
+export function formatCorrectAnswer(question: Question, language?: Language): string | null {
+  switch (question.type) {
+    case 'mcq':
+    case 'assertionReason': {
+      if (!question.options || !question.correctAnswer) {
+        return null;
+      }
+      const correctOption = question.options[OPTION_LABELS.indexOf(question.correctAnswer)];
+      return `${getOptionLabelFor(question.correctAnswer, language)}) ${correctOption}`;
+    }
+    case 'trueFalse':
+    case 'fillBlank':
+      return question.correctAnswer || null;
+    case 'match':
+      return question.matchPairs ? formatMatchAnswer(question.matchPairs, language) : null;
+    case 'short':
+    case 'long':
+    case 'caseStudy':
+      return null;
+  }
+}
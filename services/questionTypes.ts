@@ -0,0 +1,81 @@
+import { ExamSettings, QuestionType } from '../types';
+
+// Order in which sections appear on the paper
+export const QUESTION_TYPES: QuestionType[] = ['mcq', 'trueFalse', 'fillBlank', 'match', 'assertionReason', 'short', 'long', 'caseStudy'];
+
+export const SECTION_TITLES: Record<QuestionType, string> = {
+  mcq: 'Multiple Choice Questions (MCQs)',
+  trueFalse: 'True or False',
+  fillBlank: 'Fill in the Blanks',
+  match: 'Match the Columns',
+  assertionReason: 'Assertion and Reason',
+  short: 'Short Answer Questions',
+  long: 'Long Answer Questions',
+  caseStudy: 'Case-Based Questions',
+};
+
+// Singular names used in prompts and editor controls
+export const QUESTION_TYPE_LABELS: Record<QuestionType, string> = {
+  mcq: 'multiple choice question',
+  trueFalse: 'true/false statement',
+  fillBlank: 'fill-in-the-blank question',
+  match: 'match-the-columns question',
+  assertionReason: 'assertion–reason question',
+  short: 'short answer question',
+  long: 'long answer question',
+  caseStudy: 'case study',
+};
+
+// Types whose answer is a single choice, scored by comparing it with the answer key
+export const AUTO_SCORED_TYPES: QuestionType[] = ['mcq', 'trueFalse', 'assertionReason'];
+
+type CountSetting =
+  | 'mcqCount'
+  | 'trueFalseCount'
+  | 'fillBlankCount'
+  | 'matchCount'
+  | 'assertionReasonCount'
+  | 'shortCount'
+  | 'longCount'
+  | 'caseStudyCount';
+
+type MarksSetting =
+  | 'mcqMarks'
+  | 'trueFalseMarks'
+  | 'fillBlankMarks'
+  | 'matchMarks'
+  | 'assertionReasonMarks'
+  | 'shortMarks'
+  | 'longMarks'
+  | 'caseStudyMarks';
+
+// Settings field holding each type's question count, also used as the form input name
+export const COUNT_SETTINGS: Record<QuestionType, CountSetting> = {
+  mcq: 'mcqCount',
+  trueFalse: 'trueFalseCount',
+  fillBlank: 'fillBlankCount',
+  match: 'matchCount',
+  assertionReason: 'assertionReasonCount',
+  short: 'shortCount',
+  long: 'longCount',
+  caseStudy: 'caseStudyCount',
+};
+
+export const MARKS_SETTINGS: Record<QuestionType, MarksSetting> = {
+  mcq: 'mcqMarks',
+  trueFalse: 'trueFalseMarks',
+  fillBlank: 'fillBlankMarks',
+  match: 'matchMarks',
+  assertionReason: 'assertionReasonMarks',
+  short: 'shortMarks',
+  long: 'longMarks',
+  caseStudy: 'caseStudyMarks',
+};
+
+export function getRequestedCount(settings: ExamSettings, type: QuestionType): number {
+  return settings[COUNT_SETTINGS[type]] || 0;
+}
+
+export function getMarksPerQuestion(settings: ExamSettings, type: QuestionType): number {
+  return settings[MARKS_SETTINGS[type]] || 0;
+}
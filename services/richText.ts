@@ -0,0 +1,227 @@
+// Lightweight markup used inside question and answer text:
+//   $...$ inline LaTeX, $$...$$ displayed LaTeX, $\ce{...}$ chemistry (mhchem),
+//   **bold**, and Markdown pipe tables on their own lines.
+
+export type RichSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'bold'; text: string }
+  | { kind: 'math'; tex: string; display: boolean };
+
+export interface RichTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export type RichBlock = { kind: 'paragraph'; segments: RichSegment[] } | ({ kind: 'table' } & RichTable);
+
+// Inline math must not start or end with a space and must not be followed by a digit, so "$5 and $10" stays text
+const INLINE_PATTERN = /\$\$([\s\S]+?)\$\$|\$(?!\s)([^$\n]*?[^\s$\\])\$(?!\d)|\*\*([^*\n]+)\*\*/g;
+
+const TABLE_SEPARATOR = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function isTableLine(line: string): boolean {
+  return line.trim().startsWith('|');
+}
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map((cell) => cell.trim());
+}
+
+function parseTable(lines: string[]): RichTable | null {
+  if (lines.length < 2 || !TABLE_SEPARATOR.test(lines[1].trim())) {
+    return null;
+  }
+  return { headers: splitTableRow(lines[0]), rows: lines.slice(2).map(splitTableRow) };
+}
+
+export function parseInline(text: string): RichSegment[] {
+  const segments: RichSegment[] = [];
+  let lastIndex = 0;
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      segments.push({ kind: 'text', text: text.slice(lastIndex, index) });
+    }
+    if (match[1] !== undefined) {
+      segments.push({ kind: 'math', tex: match[1].trim(), display: true });
+    } else if (match[2] !== undefined) {
+      segments.push({ kind: 'math', tex: match[2], display: false });
+    } else {
+      segments.push({ kind: 'bold', text: match[3] });
+    }
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < text.length) {
+    segments.push({ kind: 'text', text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+// Splits text into paragraphs and tables; lines that only look like a table stay as text
+export function parseRichText(text: string): RichBlock[] {
+  const blocks: RichBlock[] = [];
+  const paragraphLines: string[] = [];
+  const flushParagraph = () => {
+    if (paragraphLines.length > 0) {
+      blocks.push({ kind: 'paragraph', segments: parseInline(paragraphLines.join('\n')) });
+      paragraphLines.length = 0;
+    }
+  };
+
+  const lines = text.split('\n');
+  for (let index = 0; index < lines.length; index++) {
+    if (!isTableLine(lines[index])) {
+      paragraphLines.push(lines[index]);
+      continue;
+    }
+    let end = index;
+    while (end < lines.length && isTableLine(lines[end])) {
+      end++;
+    }
+    const tableLines = lines.slice(index, end);
+    const table = parseTable(tableLines);
+    if (table) {
+      flushParagraph();
+      blocks.push({ kind: 'table', ...table });
+    } else {
+      paragraphLines.push(...tableLines);
+    }
+    index = end - 1;
+  }
+  flushParagraph();
+  return blocks;
+}
+
+// Removes tables from the text so exporters can lay them out as real tables
+export function extractTables(text: string): { text: string; tables: RichTable[] } {
+  const tables: RichTable[] = [];
+  const remaining: string[] = [];
+  parseRichText(text).forEach((block) => {
+    if (block.kind === 'table') {
+      tables.push({ headers: block.headers, rows: block.rows });
+    } else {
+      remaining.push(segmentsToSource(block.segments));
+    }
+  });
+  return { text: remaining.join('\n').trim(), tables };
+}
+
+function segmentsToSource(segments: RichSegment[]): string {
+  return segments
+    .map((segment) => {
+      switch (segment.kind) {
+        case 'text':
+          return segment.text;
+        case 'bold':
+          return `**${segment.text}**`;
+        case 'math':
+          return segment.display ? `$$${segment.tex}$$` : `$${segment.tex}$`;
+      }
+    })
+    .join('');
+}
+
+// 'unicode' uses sub/superscript characters and symbols (DOCX); 'ascii' keeps to what the
+// standard PDF fonts can draw, e.g. H2O and x^3
+export type PlainTextStyle = 'unicode' | 'ascii';
+
+const SUBSCRIPTS: Record<string, string> = {
+  '0': '₀', '1': '₁', '2': '₂', '3': '₃', '4': '₄', '5': '₅', '6': '₆', '7': '₇', '8': '₈', '9': '₉',
+  '+': '₊', '-': '₋', '=': '₌', '(': '₍', ')': '₎',
+};
+
+const SUPERSCRIPTS: Record<string, string> = {
+  '0': '⁰', '1': '¹', '2': '²', '3': '³', '4': '⁴', '5': '⁵', '6': '⁶', '7': '⁷', '8': '⁸', '9': '⁹',
+  '+': '⁺', '-': '⁻', '=': '⁼', '(': '⁽', ')': '⁾', n: 'ⁿ',
+};
+
+// Characters the standard PDF fonts (WinAnsi) can draw as superscripts
+const ASCII_SUPERSCRIPTS: Record<string, string> = { '1': '¹', '2': '²', '3': '³' };
+
+const SYMBOLS: [string, string, string][] = [
+  // [LaTeX command, unicode, ascii]
+  ['\\times', '×', '×'],
+  ['\\div', '÷', '÷'],
+  ['\\pm', '±', '±'],
+  ['\\cdot', '·', '·'],
+  ['\\circ', '°', '°'],
+  ['\\degree', '°', '°'],
+  ['\\leq', '≤', '<='],
+  ['\\le', '≤', '<='],
+  ['\\geq', '≥', '>='],
+  ['\\ge', '≥', '>='],
+  ['\\neq', '≠', '!='],
+  ['\\approx', '≈', '~'],
+  ['\\rightarrow', '→', '->'],
+  ['\\to', '→', '->'],
+  ['\\leftarrow', '←', '<-'],
+  ['\\rightleftharpoons', '⇌', '<=>'],
+  ['\\infty', '∞', 'infinity'],
+  ['\\alpha', 'α', 'alpha'],
+  ['\\beta', 'β', 'beta'],
+  ['\\gamma', 'γ', 'gamma'],
+  ['\\delta', 'δ', 'delta'],
+  ['\\Delta', 'Δ', 'Delta'],
+  ['\\theta', 'θ', 'theta'],
+  ['\\lambda', 'λ', 'lambda'],
+  ['\\mu', 'μ', 'µ'],
+  ['\\pi', 'π', 'pi'],
+  ['\\sigma', 'σ', 'sigma'],
+  ['\\omega', 'ω', 'omega'],
+  ['\\Omega', 'Ω', 'Ohm'],
+];
+
+function mapScript(text: string, map: Record<string, string>): string | null {
+  const chars = [...text];
+  return chars.every((char) => map[char]) ? chars.map((char) => map[char]).join('') : null;
+}
+
+function superscript(text: string, style: PlainTextStyle): string {
+  return mapScript(text, style === 'unicode' ? SUPERSCRIPTS : ASCII_SUPERSCRIPTS) ?? `^${text.length > 1 ? `(${text})` : text}`;
+}
+
+function subscript(text: string, style: PlainTextStyle): string {
+  return style === 'unicode' ? mapScript(text, SUBSCRIPTS) ?? `_${text}` : text;
+}
+
+// mhchem notation: digits after an element or bracket are counts, ^ marks charges
+function chemistryToPlainText(formula: string, style: PlainTextStyle): string {
+  return formula
+    .replace(/<=>/g, style === 'unicode' ? '⇌' : '<=>')
+    .replace(/->/g, style === 'unicode' ? '→' : '->')
+    .replace(/\^\{?([0-9]*[+-])\}?/g, (_, charge: string) => superscript(charge, style))
+    .replace(/([A-Za-z)\]])(\d+)/g, (_, before: string, count: string) => `${before}${subscript(count, style)}`);
+}
+
+function texToPlainText(tex: string, style: PlainTextStyle): string {
+  let result = tex.replace(/\\ce\{((?:[^{}]|\{[^{}]*\})*)\}/g, (_, formula: string) => chemistryToPlainText(formula, style));
+  result = result
+    .replace(/\\frac\{([^{}]*)\}\{([^{}]*)\}/g, '($1)/($2)')
+    .replace(/\\sqrt\{([^{}]*)\}/g, style === 'unicode' ? '√($1)' : 'sqrt($1)')
+    .replace(/\\(?:text|mathrm|mathbf)\{([^{}]*)\}/g, '$1')
+    .replace(/\\(?:left|right)/g, '')
+    .replace(/\^\{?\\circ\}?/g, '°');
+  // Longer commands first so \leq is not read as \le followed by "q"
+  [...SYMBOLS].sort((a, b) => b[0].length - a[0].length).forEach(([command, unicode, ascii]) => {
+    result = result.split(command).join(style === 'unicode' ? unicode : ascii);
+  });
+  result = result
+    .replace(/\^\{([^{}]*)\}|\^(\S)/g, (_, group: string | undefined, single: string | undefined) => superscript(group ?? single ?? '', style))
+    .replace(/_\{([^{}]*)\}|_(\S)/g, (_, group: string | undefined, single: string | undefined) => subscript(group ?? single ?? '', style))
+    .replace(/\\[,;!: ]/g, ' ')
+    .replace(/[{}]/g, '');
+  return result;
+}
+
+// Flattens markup to readable text for formats that cannot typeset LaTeX
+export function toPlainText(text: string, style: PlainTextStyle): string {
+  return parseRichText(text)
+    .map((block) =>
+      block.kind === 'table'
+        ? [block.headers, ...block.rows].map((row) => row.join(' | ')).join('\n')
+        : block.segments
+            .map((segment) => (segment.kind === 'math' ? texToPlainText(segment.tex, style) : segment.text))
+            .join(''),
+    )
+    .join('\n');
+}
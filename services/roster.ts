@@ -0,0 +1,79 @@
+import { ExamSection, GeneratedExam, PaperVariant, RosterStudent } from '../types';
+import { parseCsv, stripByteOrderMark, toCsv } from './csv';
+
+export const ROSTER_CSV_COLUMNS = ['rollNumber', 'name', 'setCode'];
+
+// One student's printed copy: the set they sit and the paper for that set
+export interface StudentPaper {
+  student: RosterStudent;
+  variant: PaperVariant;
+}
+
+export function createRosterStudent(name = '', rollNumber = ''): RosterStudent {
+  return { id: crypto.randomUUID(), name, rollNumber };
+}
+
+export function createRosterCsvTemplate(): string {
+  return toCsv([ROSTER_CSV_COLUMNS, ['1', 'Asha Verma', ''], ['2', 'Rahul Nair', '']]);
+}
+
+// Reads a roster CSV with a rollNumber,name[,setCode] header; the columns may come in any order
+export function parseRosterCsv(text: string): { students: RosterStudent[]; errors: string[] } {
+  const [header, ...records] = parseCsv(stripByteOrderMark(text));
+  if (!header) {
+    return { students: [], errors: ['The roster file is empty.'] };
+  }
+  const columns = header.map((name) => name.trim());
+  const nameIndex = columns.indexOf('name');
+  const rollIndex = columns.indexOf('rollNumber');
+  const setIndex = columns.indexOf('setCode');
+  if (nameIndex < 0 || rollIndex < 0) {
+    return { students: [], errors: [`The roster needs a header row with the columns ${ROSTER_CSV_COLUMNS.join(', ')}.`] };
+  }
+
+  const errors: string[] = [];
+  const students: RosterStudent[] = [];
+  records.forEach((cells, recordIndex) => {
+    const line = recordIndex + 2; // 1-based, after the header
+    const student = createRosterStudent((cells[nameIndex] || '').trim(), (cells[rollIndex] || '').trim());
+    if (!student.name) {
+      errors.push(`Line ${line}: the student's name is missing.`);
+      return;
+    }
+    const setCode = setIndex >= 0 ? (cells[setIndex] || '').trim().toUpperCase() : '';
+    students.push(setCode ? { ...student, setCode } : student);
+  });
+  return { students, errors };
+}
+
+// Roll numbers identify answer sheets, so repeats would mix up two students' papers
+export function validateRoster(roster: RosterStudent[], setCodes: string[]): string[] {
+  const warnings: string[] = [];
+  const seen = new Set<string>();
+  for (const student of roster) {
+    if (student.rollNumber && seen.has(student.rollNumber)) {
+      warnings.push(`Roll number ${student.rollNumber} is used more than once.`);
+    }
+    seen.add(student.rollNumber);
+    if (student.setCode && !setCodes.includes(student.setCode)) {
+      warnings.push(`${student.name} is assigned Set ${student.setCode}, which is not being printed; they will get a set in turn instead.`);
+    }
+  }
+  return warnings;
+}
+
+// Students keep the set they were given; everyone else takes the sets in turn down the roster,
+// so neighbouring roll numbers sit different sets
+export function assignStudentPapers(roster: RosterStudent[], variants: PaperVariant[]): StudentPaper[] {
+  return roster.map((student, index) => ({
+    student,
+    variant: variants.find((variant) => variant.setCode === student.setCode) ?? variants[index % variants.length],
+  }));
+}
+
+// Sections answered by filling a bubble: questions with lettered options
+export function getBubbleSections(exam: GeneratedExam): { section: ExamSection; sectionIndex: number }[] {
+  return exam.sections
+    .map((section, sectionIndex) => ({ section, sectionIndex }))
+    .filter(({ section }) => section.questions.some((question) => question.options?.length));
+}
@@ -0,0 +1,220 @@
+import {
+  BloomMix,
+  BlueprintUnit,
+  ExamSettings,
+  ExamTemplate,
+  HeaderField,
+  PaperLayout,
+  PaperLogo,
+  QuestionType,
+  SectionNaming,
+  TemplateSettings,
+} from '../types';
+import { TEMPLATES_STORE, deleteRecord, getAllRecords, putRecord } from './db';
+import { SECTION_NAMING_LABELS } from './marks';
+import { BLOOM_LEVELS, DEFAULT_BLOOM_MIX, DIFFICULTIES } from './bloom';
+import { createBlueprintUnit } from './blueprint';
+import { QUESTION_TYPES } from './questionTypes';
+import { findLanguage } from './languages';
+
+// Marks a JSON file as an exam template, so other JSON files are not imported by mistake
+const TEMPLATE_FORMAT = 'smartexam-template';
+const TEMPLATE_VERSION = 1;
+
+// The paper as it was printed before templates existed
+export const DEFAULT_PAPER_LAYOUT: PaperLayout = {
+  schoolName: '',
+  title: 'Smart Exam Creator',
+  headerFields: [],
+  generalInstructions: [],
+  sectionNaming: 'sectionLetters',
+  footerText: 'Generated by SmartExam AI',
+};
+
+const SECTION_NAMINGS = Object.keys(SECTION_NAMING_LABELS) as SectionNaming[];
+
+export function createHeaderField(label = '', value = ''): HeaderField {
+  return { id: crypto.randomUUID(), label, value };
+}
+
+// Instructions are edited one per line, so blank lines can be left behind
+export function getGeneralInstructions(layout: PaperLayout): string[] {
+  return layout.generalInstructions.map((instruction) => instruction.trim()).filter(Boolean);
+}
+
+// Drops what belongs to a single paper: its topic, the student and class list, and the shuffle seed
+export function toTemplateSettings(settings: ExamSettings): TemplateSettings {
+  const { topic, studentName, roster, variantSeed, ...templateSettings } = settings;
+  return templateSettings;
+}
+
+// The template's settings replace the form's, keeping the topic and class list already entered
+export function applyTemplate(settings: ExamSettings, template: ExamTemplate): ExamSettings {
+  return { ...settings, ...template.settings, layout: { ...DEFAULT_PAPER_LAYOUT, ...template.settings.layout } };
+}
+
+export async function listTemplates(): Promise<ExamTemplate[]> {
+  const templates = await getAllRecords<ExamTemplate>(TEMPLATES_STORE);
+  return templates.sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export async function saveTemplate(name: string, settings: ExamSettings, existing?: ExamTemplate): Promise<ExamTemplate> {
+  const now = Date.now();
+  const template: ExamTemplate = {
+    id: existing?.id ?? crypto.randomUUID(),
+    name: name.trim() || 'Untitled template',
+    settings: toTemplateSettings(settings),
+    createdAt: existing?.createdAt ?? now,
+    updatedAt: now,
+  };
+  await putRecord(TEMPLATES_STORE, template);
+  return template;
+}
+
+export function deleteTemplate(id: string): Promise<void> {
+  return deleteRecord(TEMPLATES_STORE, id);
+}
+
+export function createTemplateJson(template: ExamTemplate): string {
+  return JSON.stringify({ format: TEMPLATE_FORMAT, version: TEMPLATE_VERSION, name: template.name, settings: template.settings }, null, 2);
+}
+
+function isString(value: unknown): value is string {
+  return typeof value === 'string';
+}
+
+function parseLogo(raw: any): PaperLogo | undefined {
+  if (!raw || !isString(raw.dataUrl) || !raw.dataUrl.startsWith('data:image/jpeg;base64,')) {
+    return undefined;
+  }
+  const { width, height } = raw;
+  return typeof width === 'number' && width > 0 && typeof height === 'number' && height > 0 ? { dataUrl: raw.dataUrl, width, height } : undefined;
+}
+
+function parseLayout(raw: any): PaperLayout {
+  if (!raw || typeof raw !== 'object') {
+    return DEFAULT_PAPER_LAYOUT;
+  }
+  const logo = parseLogo(raw.logo);
+  return {
+    schoolName: isString(raw.schoolName) ? raw.schoolName : DEFAULT_PAPER_LAYOUT.schoolName,
+    ...(logo ? { logo } : {}),
+    title: isString(raw.title) ? raw.title : DEFAULT_PAPER_LAYOUT.title,
+    headerFields: Array.isArray(raw.headerFields)
+      ? raw.headerFields.filter((field: any) => field && isString(field.label) && field.label.trim()).map((field: any) => createHeaderField(field.label, isString(field.value) ? field.value : ''))
+      : [],
+    generalInstructions: Array.isArray(raw.generalInstructions) ? raw.generalInstructions.filter(isString) : [],
+    sectionNaming: SECTION_NAMINGS.includes(raw.sectionNaming) ? raw.sectionNaming : DEFAULT_PAPER_LAYOUT.sectionNaming,
+    footerText: isString(raw.footerText) ? raw.footerText : DEFAULT_PAPER_LAYOUT.footerText,
+  };
+}
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+}
+
+// Levels that are not counts keep their defaults, the way older saves are filled in when opened
+function parseBloomMix(raw: any): Record<QuestionType, BloomMix> {
+  return Object.fromEntries(
+    QUESTION_TYPES.map((type) => {
+      const levels = raw && typeof raw[type] === 'object' ? raw[type] : {};
+      const mix = { ...DEFAULT_BLOOM_MIX[type] };
+      BLOOM_LEVELS.forEach((level) => {
+        if (isCount(levels[level])) {
+          mix[level] = levels[level];
+        }
+      });
+      return [type, mix];
+    }),
+  ) as Record<QuestionType, BloomMix>;
+}
+
+// Rows that are not objects are dropped; missing counts are filled in as for a new unit
+function parseBlueprint(raw: unknown[], errors: string[]): BlueprintUnit[] {
+  const units = raw.filter((unit): unit is Record<string, any> => Boolean(unit) && typeof unit === 'object' && !Array.isArray(unit));
+  if (units.length < raw.length) {
+    errors.push(`Ignored ${raw.length - units.length} blueprint row(s) that could not be read.`);
+  }
+  return units.map((unit) => {
+    const base = createBlueprintUnit(isString(unit.chapter) ? unit.chapter : '');
+    const counts = { ...base.counts };
+    QUESTION_TYPES.forEach((type) => {
+      if (isCount(unit.counts?.[type])) {
+        counts[type] = Math.floor(unit.counts[type]);
+      }
+    });
+    return { ...base, weightage: isCount(unit.weightage) ? unit.weightage : base.weightage, counts };
+  });
+}
+
+// Same kind of JSON value: arrays, objects and primitives are told apart
+function isSameKind(value: unknown, expected: unknown): boolean {
+  return Array.isArray(value) === Array.isArray(expected) && typeof value === typeof expected && value !== null;
+}
+
+// Reads a template exported from this or another copy of the app. Settings the file does not
+// have, or has with the wrong type, keep their values from the base settings.
+export function parseTemplateJson(text: string, baseSettings: ExamSettings): { template: ExamTemplate | null; errors: string[] } {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    return { template: null, errors: ['The file is not valid JSON.'] };
+  }
+  if (!parsed || parsed.format !== TEMPLATE_FORMAT || !parsed.settings || typeof parsed.settings !== 'object') {
+    return { template: null, errors: ['The file is not an exam template.'] };
+  }
+  if (typeof parsed.version !== 'number' || parsed.version > TEMPLATE_VERSION) {
+    return { template: null, errors: ['The template was saved by a newer version of the app.'] };
+  }
+
+  const base = toTemplateSettings(baseSettings);
+  const errors: string[] = [];
+  const settings = { ...base };
+  (Object.keys(base) as (keyof TemplateSettings)[]).forEach((key) => {
+    const value = parsed.settings[key];
+    if (value === undefined || key === 'layout' || key === 'bloomMix' || key === 'blueprint') {
+      return;
+    }
+    if (isSameKind(value, base[key])) {
+      (settings as Record<string, unknown>)[key] = value;
+    } else {
+      errors.push(`Ignored "${key}", which has the wrong type.`);
+    }
+  });
+  if (!DIFFICULTIES.includes(settings.difficulty)) {
+    errors.push(`Ignored the difficulty "${settings.difficulty}".`);
+    settings.difficulty = base.difficulty;
+  }
+  if (!findLanguage(settings.language)) {
+    errors.push(`Ignored the unknown language "${settings.language}".`);
+    settings.language = base.language;
+  }
+  if (settings.secondLanguage && !findLanguage(settings.secondLanguage)) {
+    errors.push(`Ignored the unknown second language "${settings.secondLanguage}".`);
+    settings.secondLanguage = base.secondLanguage;
+  }
+  if (isSameKind(parsed.settings.bloomMix, base.bloomMix)) {
+    settings.bloomMix = parseBloomMix(parsed.settings.bloomMix);
+  } else if (parsed.settings.bloomMix !== undefined) {
+    errors.push('Ignored "bloomMix", which has the wrong type.');
+  }
+  if (Array.isArray(parsed.settings.blueprint)) {
+    settings.blueprint = parseBlueprint(parsed.settings.blueprint, errors);
+  } else if (parsed.settings.blueprint !== undefined) {
+    errors.push('Ignored "blueprint", which has the wrong type.');
+  }
+  settings.layout = parseLayout(parsed.settings.layout);
+
+  const now = Date.now();
+  return {
+    template: {
+      id: crypto.randomUUID(),
+      name: isString(parsed.name) && parsed.name.trim() ? parsed.name.trim() : 'Imported template',
+      settings,
+      createdAt: now,
+      updatedAt: now,
+    },
+    errors,
+  };
+}
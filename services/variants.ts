@@ -0,0 +1,106 @@
+import { ExamSection, GeneratedExam, PaperVariant, Question } from '../types';
+import { OPTION_LABELS } from './examSchema';
+
+// Turns the seed text into a 32-bit integer (FNV-1a) for the PRNG
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// mulberry32: small, fast and fully deterministic for a given seed
+function createRandom(seed: string): () => number {
+  let state = hashSeed(seed);
+  return () => {
+    state = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+// Assertion–reason choices keep their standard order, so only MCQs are shuffled
+function shuffleOptions(question: Question, random: () => number): Question {
+  const { options, correctAnswer, translation } = question;
+  if (question.type !== 'mcq' || !options || !correctAnswer) {
+    return question;
+  }
+  // Positions are shuffled rather than the options, so a translation's options move with them
+  const order = shuffle(options.map((_, index) => index), random);
+  const shuffled: Question = {
+    ...question,
+    options: order.map((index) => options[index]),
+    correctAnswer: OPTION_LABELS[order.indexOf(OPTION_LABELS.indexOf(correctAnswer))],
+  };
+  const translatedOptions = translation?.options;
+  return translation && translatedOptions
+    ? { ...shuffled, translation: { ...translation, options: order.map((index) => translatedOptions[index]) } }
+    : shuffled;
+}
+
+function shuffleSection(section: ExamSection, random: () => number): ExamSection {
+  return {
+    ...section,
+    questions: shuffle(section.questions, random).map((question) => shuffleOptions(question, random)),
+  };
+}
+
+export const MAX_VARIANTS = 26;
+
+export function getSetCode(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+// At least one set and no more than there are set letters, whatever the form holds
+function clampVariantCount(count: number): number {
+  return Math.max(1, Math.min(MAX_VARIANTS, Math.floor(count) || 1));
+}
+
+// Codes of the sets printed for the requested count, e.g. ['A', 'B', 'C']
+export function getSetCodes(count: number): string[] {
+  return Array.from({ length: clampVariantCount(count) }, (_, index) => getSetCode(index));
+}
+
+export function createRandomSeed(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+// Builds the requested number of sets from one generated exam. Question IDs are kept,
+// so every set's answers map back to the original question. Set A is always the unshuffled
+// paper and each other set is shuffled from its own code, so adding sets never changes one already printed.
+export function createPaperVariants(exam: GeneratedExam, count: number, seed: string): PaperVariant[] {
+  return getSetCodes(count).map((setCode, index) => {
+    if (index === 0) {
+      return { setCode, seed, exam };
+    }
+    const random = createRandom(`${seed}:${setCode}`);
+    return {
+      setCode,
+      seed,
+      exam: { ...exam, sections: exam.sections.map((section) => shuffleSection(section, random)) },
+    };
+  });
+}
+
+// 1-based position of a question in the original (unshuffled) paper's section
+export function getOriginalQuestionNumber(original: GeneratedExam, questionId: string): number | null {
+  for (const section of original.sections) {
+    const index = section.questions.findIndex((question) => question.id === questionId);
+    if (index >= 0) {
+      return index + 1;
+    }
+  }
+  return null;
+}
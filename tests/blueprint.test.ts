@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { BlueprintUnit, ExamSection } from '../types';
+import { applyBlueprintCounts, buildAllocationRows, createBlueprintUnit, validateBlueprint, validateBlueprintCoverage } from '../services/blueprint';
+import { createQuestion, createSettings } from './fixtures';
+
+function unit(chapter: string, weightage: number, counts: Partial<BlueprintUnit['counts']>): BlueprintUnit {
+  const created = createBlueprintUnit(chapter);
+  return { ...created, weightage, counts: { ...created.counts, ...counts } };
+}
+
+// Cells: 1 MCQ and 1 short question (4 marks); Tissues: 1 MCQ (1 mark)
+const blueprintSettings = createSettings({
+  mcqCount: 0,
+  shortCount: 0,
+  blueprintEnabled: true,
+  blueprint: [unit('Cells', 4, { mcq: 1, short: 1 }), unit('Tissues', 1, { mcq: 1 })],
+});
+
+describe('applyBlueprintCounts', () => {
+  it('takes the section counts from the units in blueprint mode', () => {
+    expect(applyBlueprintCounts(blueprintSettings)).toMatchObject({ mcqCount: 2, shortCount: 1, longCount: 0 });
+  });
+
+  it('leaves typed-in counts alone otherwise', () => {
+    const settings = { ...blueprintSettings, blueprintEnabled: false };
+    expect(applyBlueprintCounts(settings)).toBe(settings);
+  });
+});
+
+describe('validateBlueprint', () => {
+  it('accepts units whose questions add up to their weightage and the total marks', () => {
+    expect(validateBlueprint(blueprintSettings)).toEqual([]);
+  });
+
+  it('reports missing and repeated chapter names and weightages that do not add up', () => {
+    const settings = { ...blueprintSettings, blueprint: [unit('Cells', 3, { mcq: 1, short: 1 }), unit(' cells ', 1, { mcq: 1 }), unit('', 0, {})] };
+    expect(validateBlueprint(settings)).toEqual([
+      'Every blueprint unit needs a chapter name.',
+      'Blueprint chapter names must be unique.',
+      '"Cells" has a weightage of 3 marks but its questions add up to 4.',
+      'Blueprint weightages add up to 4 marks but Total Marks is 5.',
+    ]);
+  });
+
+  it('needs at least one unit', () => {
+    expect(validateBlueprint({ ...blueprintSettings, blueprint: [] })).toEqual(['Add at least one unit to the blueprint.']);
+  });
+});
+
+describe('blueprint coverage', () => {
+  const sections: ExamSection[] = [
+    {
+      id: 'section-mcq',
+      type: 'mcq',
+      title: 'MCQ',
+      questions: [createQuestion('mcq-1', 'mcq', { chapter: 'cells' }), createQuestion('mcq-2', 'mcq', { chapter: 'Tissues' })],
+    },
+    { id: 'section-short', type: 'short', title: 'Short', questions: [createQuestion('short-1', 'short', { chapter: 'Cells', marks: 3 })] },
+  ];
+
+  it('matches chapters without regard to case and accepts the requested counts', () => {
+    expect(validateBlueprintCoverage(sections, blueprintSettings)).toEqual([]);
+  });
+
+  it('reports untagged questions and counts that differ from the blueprint', () => {
+    const untagged = [{ ...sections[0], questions: [createQuestion('mcq-1'), sections[0].questions[1]] }];
+    expect(validateBlueprintCoverage(untagged, blueprintSettings)).toEqual([
+      'Multiple Choice Questions (MCQs) question mcq-1 must set "chapter" to one of the blueprint chapters.',
+    ]);
+    expect(validateBlueprintCoverage([sections[0]], blueprintSettings)).toEqual(['Chapter "Cells" needs 1 "short" questions but has 0.']);
+  });
+
+  it('tabulates achieved questions and marks per chapter, with a row for questions outside the blueprint', () => {
+    const extra = [...sections, { id: 'section-long', type: 'long' as const, title: 'Long', questions: [createQuestion('long-1', 'long', { marks: 5 })] }];
+    const rows = buildAllocationRows(extra, blueprintSettings);
+    expect(rows.map(({ chapter, marks, weightage }) => ({ chapter, marks, weightage }))).toEqual([
+      { chapter: 'Cells', marks: 4, weightage: 4 },
+      { chapter: 'Tissues', marks: 1, weightage: 1 },
+      { chapter: 'Not in blueprint', marks: 5, weightage: null },
+    ]);
+    expect(rows[0].counts).toMatchObject({ mcq: 1, short: 1 });
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, stripByteOrderMark, toCsv } from '../services/csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, newlines and doubled quotes', () => {
+    expect(parseCsv('name,note\r\n"Verma, Asha","said ""hi""\nthen left"\n')).toEqual([
+      ['name', 'note'],
+      ['Verma, Asha', 'said "hi"\nthen left'],
+    ]);
+  });
+
+  it('skips blank lines and keeps a last line without a newline', () => {
+    expect(parseCsv('a,b\n\n , \n1,2')).toEqual([
+      ['a', 'b'],
+      ['1', '2'],
+    ]);
+  });
+
+  it('keeps empty cells in place', () => {
+    expect(parseCsv('1,,3')).toEqual([['1', '', '3']]);
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the fields that need it and reads back unchanged', () => {
+    const rows = [
+      ['rollNumber', 'name', 'marks'],
+      ['1', 'Verma, Asha', 4.5],
+      ['2', 'Rahul "Ray" Nair', 'line one\nline two'],
+    ];
+    const csv = toCsv(rows);
+    expect(csv.split('\n')[1]).toBe('1,"Verma, Asha",4.5');
+    expect(parseCsv(csv)).toEqual(rows.map((row) => row.map(String)));
+  });
+});
+
+describe('stripByteOrderMark', () => {
+  it('removes a leading byte order mark only', () => {
+    expect(stripByteOrderMark('\uFEFFname')).toBe('name');
+    expect(stripByteOrderMark('name\uFEFF')).toBe('name\uFEFF');
+  });
+});
@@ -0,0 +1,158 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedExam } from '../types';
+import {
+  isTranslationComplete,
+  parseAndValidateExam,
+  parseAndValidateGrading,
+  parseAndValidateQuestion,
+  parseAndValidateTranslation,
+  parsePartialExam,
+} from '../services/examSchema';
+import { createQuestion, createSettings } from './fixtures';
+
+function rawMcq(text: string, overrides: Record<string, unknown> = {}) {
+  const options = ['A) Nucleus', 'B) Ribosome', 'C) Vacuole', 'D) Wall'];
+  return { text, options, correctAnswer: 'b', bloomLevel: 'remember', difficulty: 'easy', ...overrides };
+}
+
+const rawShort = {
+  text: 'Why is the mitochondrion called the powerhouse of the cell?',
+  modelAnswer: 'It releases energy from food by respiration.',
+  markingScheme: ['Releases energy', 'By respiration'],
+  bloomLevel: 'understand',
+  difficulty: 'medium',
+};
+
+function rawExam(mcqs: unknown[], shorts: unknown[] = [rawShort]) {
+  return JSON.stringify({ sections: [{ type: 'mcq', questions: mcqs }, { type: 'short', questions: shorts }] });
+}
+
+describe('parseAndValidateExam', () => {
+  it('builds the requested sections with ids, marks and normalised MCQ answers', () => {
+    const { value, errors } = parseAndValidateExam(rawExam([rawMcq('First?'), rawMcq('Second?')]), createSettings());
+    expect(errors).toEqual([]);
+    expect(value?.sections.map((section) => section.type)).toEqual(['mcq', 'short']);
+    const [first] = value!.sections[0].questions;
+    expect(first).toMatchObject({ id: 'mcq-1', marks: 1, correctAnswer: 'B', options: ['Nucleus', 'Ribosome', 'Vacuole', 'Wall'] });
+    expect(value!.sections[1].questions[0]).toMatchObject({ id: 'short-1', marks: 3 });
+  });
+
+  it('accepts JSON wrapped in code fences and trims extra questions', () => {
+    const fenced = '```json\n' + rawExam([rawMcq('One?'), rawMcq('Two?'), rawMcq('Three?')]) + '\n```';
+    const { value, errors } = parseAndValidateExam(fenced, createSettings());
+    expect(errors).toEqual([]);
+    expect(value?.sections[0].questions).toHaveLength(2);
+  });
+
+  it('reads a correct answer given as the option text', () => {
+    const { value } = parseAndValidateExam(rawExam([rawMcq('One?', { correctAnswer: 'vacuole' }), rawMcq('Two?')]), createSettings());
+    expect(value?.sections[0].questions[0].correctAnswer).toBe('C');
+  });
+
+  it('reports missing sections, short sections and malformed questions', () => {
+    expect(parseAndValidateExam('not json', createSettings()).errors).toEqual(['The response is not valid JSON.']);
+    expect(parseAndValidateExam(rawExam([rawMcq('One?')]), createSettings()).errors).toEqual([
+      'The "mcq" section has 1 questions but 2 were requested.',
+    ]);
+    expect(parseAndValidateExam(JSON.stringify({ sections: [{ type: 'short', questions: [rawShort] }] }), createSettings()).errors).toEqual([
+      'Missing the "mcq" section.',
+    ]);
+    const { value, errors } = parseAndValidateExam(rawExam([rawMcq('One?', { options: ['A', 'B', 'C'] }), rawMcq('Two?')]), createSettings());
+    expect(value).toBeNull();
+    expect(errors).toEqual(['Multiple Choice Questions (MCQs) question mcq-1 must have exactly 4 options.']);
+  });
+
+  it('requires a translation of every part on a bilingual paper', () => {
+    const settings = createSettings({ mcqCount: 1, shortCount: 0, totalMarks: 1, secondLanguage: 'Hindi' });
+    const missing = parseAndValidateExam(JSON.stringify({ sections: [{ type: 'mcq', questions: [rawMcq('One?')] }] }), settings);
+    expect(missing.errors).toEqual(['Multiple Choice Questions (MCQs) question mcq-1 is missing its "translation".']);
+    const translated = rawMcq('One?', { translation: { text: 'एक?', options: ['क', 'ख', 'ग', 'घ'] } });
+    const { value } = parseAndValidateExam(JSON.stringify({ sections: [{ type: 'mcq', questions: [translated] }] }), settings);
+    expect(value?.sections[0].questions[0].translation).toEqual({ text: 'एक?', options: ['क', 'ख', 'ग', 'घ'] });
+  });
+});
+
+describe('parseAndValidateQuestion', () => {
+  it('validates a regenerated question under the id and marks it replaces', () => {
+    const { value, errors } = parseAndValidateQuestion(JSON.stringify(rawShort), 'short', 'short-4', 3, false);
+    expect(errors).toEqual([]);
+    expect(value).toMatchObject({ id: 'short-4', type: 'short', marks: 3 });
+  });
+
+  it('rejects a written answer without a marking scheme', () => {
+    const { value, errors } = parseAndValidateQuestion(JSON.stringify({ ...rawShort, markingScheme: [] }), 'short', 'short-1', 3, false);
+    expect(value).toBeNull();
+    expect(errors).toEqual(['Short Answer Questions question short-1 is missing its marking scheme.']);
+  });
+});
+
+describe('translations of edited questions', () => {
+  const match = createQuestion('match-1', 'match', {
+    matchPairs: [
+      { left: 'Root', right: 'Absorbs water' },
+      { left: 'Leaf', right: 'Makes food' },
+    ],
+  });
+
+  it('attaches a translation that covers every part of the question', () => {
+    const translation = { text: 'मिलान करें', matchPairs: [{ left: 'जड़', right: 'पानी सोखती है' }, { left: 'पत्ती', right: 'भोजन बनाती है' }] };
+    const { value, errors } = parseAndValidateTranslation(JSON.stringify(translation), match);
+    expect(errors).toEqual([]);
+    expect(value).toEqual({ ...match, translation });
+    expect(isTranslationComplete(value!)).toBe(true);
+  });
+
+  it('rejects a translation that leaves parts out', () => {
+    const { value, errors } = parseAndValidateTranslation(JSON.stringify({ text: 'मिलान करें', matchPairs: [{ left: 'जड़', right: 'पानी' }] }), match);
+    expect(value).toBeNull();
+    expect(errors).toEqual(['Match the Columns question match-1 must translate all 2 "matchPairs", in the same order.']);
+  });
+
+  it('finds translations left behind by a part added in the editor', () => {
+    const translated = { ...match, translation: { text: 'मिलान करें', matchPairs: [{ left: 'जड़', right: 'पानी' }, { left: 'पत्ती', right: 'भोजन' }] } };
+    expect(isTranslationComplete({ ...translated, matchPairs: [...match.matchPairs!, { left: 'Stem', right: 'Carries water' }] })).toBe(false);
+    expect(isTranslationComplete(match)).toBe(false);
+  });
+});
+
+describe('parsePartialExam', () => {
+  it('keeps the sections that have arrived in full and names the one being written', () => {
+    const streamed = `{"sections": [{"type": "mcq", "questions": ${JSON.stringify([rawMcq('One?'), rawMcq('Two?')])}}, {"type": "short", "questions": [{"text": "Why`;
+    const { exam, writingType } = parsePartialExam(streamed, createSettings());
+    expect(exam.sections.map((section) => section.type)).toEqual(['mcq']);
+    expect(exam.sections[0].questions).toHaveLength(2);
+    expect(writingType).toBe('short');
+  });
+});
+
+describe('parseAndValidateGrading', () => {
+  const exam: GeneratedExam = {
+    sections: [
+      { id: 's1', type: 'mcq', title: 'MCQ', questions: [createQuestion('mcq-1')] },
+      { id: 's2', type: 'short', title: 'Short', questions: [createQuestion('short-1', 'short', { marks: 3 })] },
+    ],
+  };
+
+  it('normalises choice answers and rounds written marks to half marks', () => {
+    const raw = JSON.stringify({
+      answers: [
+        { questionId: 'mcq-1', studentAnswer: '(b)' },
+        { questionId: 'short-1', studentAnswer: 'Energy', marks: 1.3, justification: 'One point made' },
+      ],
+    });
+    const { value, errors } = parseAndValidateGrading(raw, exam);
+    expect(errors).toEqual([]);
+    expect(value).toEqual([
+      { questionId: 'mcq-1', studentAnswer: 'B', marks: null, justification: '' },
+      { questionId: 'short-1', studentAnswer: 'Energy', marks: 1.5, justification: 'One point made' },
+    ]);
+  });
+
+  it('reports unread questions and marks out of range', () => {
+    const raw = JSON.stringify({ answers: [{ questionId: 'short-1', studentAnswer: 'x', marks: 4, justification: 'Too many' }] });
+    expect(parseAndValidateGrading(raw, exam).errors).toEqual([
+      'Missing the answer to question "mcq-1"; use an empty "studentAnswer" if it was left blank.',
+      'Question "short-1" must have "marks" between 0 and 3.',
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+import { ExamSettings, Question, QuestionType } from '../types';
+import { DEFAULT_BLOOM_MIX } from '../services/bloom';
+import { DEFAULT_PAPER_LAYOUT } from '../services/templates';
+
+// A one-language paper with two MCQs and one short question, 5 marks in all
+export function createSettings(overrides: Partial<ExamSettings> = {}): ExamSettings {
+  return {
+    topic: 'Cell Structure',
+    className: 'Grade 9',
+    board: 'CBSE',
+    studentName: '',
+    language: 'English',
+    secondLanguage: '',
+    totalMarks: 5,
+    duration: 30,
+    mcqCount: 2,
+    trueFalseCount: 0,
+    fillBlankCount: 0,
+    matchCount: 0,
+    assertionReasonCount: 0,
+    shortCount: 1,
+    longCount: 0,
+    caseStudyCount: 0,
+    mcqMarks: 1,
+    trueFalseMarks: 1,
+    fillBlankMarks: 1,
+    matchMarks: 4,
+    assertionReasonMarks: 1,
+    shortMarks: 3,
+    longMarks: 5,
+    caseStudyMarks: 4,
+    variantCount: 1,
+    variantSeed: 'seed',
+    difficulty: 'medium',
+    bloomMix: DEFAULT_BLOOM_MIX,
+    blueprintEnabled: false,
+    blueprint: [],
+    roster: [],
+    omrSheet: false,
+    layout: DEFAULT_PAPER_LAYOUT,
+    ...overrides,
+  };
+}
+
+export function createQuestion(id: string, type: QuestionType = 'mcq', overrides: Partial<Question> = {}): Question {
+  const base: Question = { id, type, text: `Question ${id}`, marks: 1, bloomLevel: 'remember', difficulty: 'easy' };
+  if (type === 'mcq') {
+    return { ...base, options: [`${id} one`, `${id} two`, `${id} three`, `${id} four`], correctAnswer: 'B', ...overrides };
+  }
+  return { ...base, modelAnswer: `Answer to ${id}`, markingScheme: ['One point'], ...overrides };
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedExam, GradedSheet, QuestionGrade } from '../types';
+import { createScoresCsv, getSheetTotal } from '../services/grading';
+import { createQuestion } from './fixtures';
+
+function grade(questionId: string, suggestedMarks: number, overrideMarks?: number): QuestionGrade {
+  return { questionId, studentAnswer: '', suggestedMarks, justification: '', autoScored: false, ...(overrideMarks === undefined ? {} : { overrideMarks }) };
+}
+
+const exam: GeneratedExam = {
+  sections: [
+    { id: 'section-mcq', type: 'mcq', title: 'MCQ', questions: [createQuestion('mcq-1')] },
+    { id: 'section-short', type: 'short', title: 'Short', questions: [createQuestion('short-1', 'short', { marks: 3 })] },
+  ],
+};
+
+// Graded before "short-2" was deleted from the paper
+const sheet: GradedSheet = {
+  id: 'sheet',
+  examId: 'exam',
+  studentName: 'Asha',
+  rollNumber: '1',
+  setCode: 'A',
+  grades: [grade('mcq-1', 1), grade('short-1', 2, 2.5), grade('short-2', 3)],
+  createdAt: 0,
+  updatedAt: 0,
+};
+
+describe('getSheetTotal', () => {
+  it('adds the awarded marks of the questions still on the paper', () => {
+    expect(getSheetTotal(sheet, exam)).toBe(3.5);
+  });
+});
+
+describe('createScoresCsv', () => {
+  it('totals only the questions that have a column', () => {
+    expect(createScoresCsv([sheet], exam, 'sectionLetters').split('\n')).toEqual([
+      'rollNumber,name,set,Section A Q1,Section B Q1,total,outOf,percentage',
+      '1,Asha,A,1,2.5,3.5,4,87.5',
+    ]);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { formatSectionMarks, getAllocatedMarks, getExamMarks, getSectionLabel, validateMarksAllocation } from '../services/marks';
+import { createQuestion, createSettings } from './fixtures';
+
+describe('validateMarksAllocation', () => {
+  it('accepts counts that add up to the total marks', () => {
+    expect(getAllocatedMarks(createSettings())).toBe(5);
+    expect(validateMarksAllocation(createSettings())).toBeNull();
+  });
+
+  it('describes the breakdown when the counts do not reconcile', () => {
+    expect(validateMarksAllocation(createSettings({ totalMarks: 10 }))).toBe('Questions add up to 5 marks (2 × 1 + 1 × 3) but Total Marks is 10.');
+  });
+
+  it('treats a paper with no questions as 0 marks', () => {
+    expect(validateMarksAllocation(createSettings({ mcqCount: 0, shortCount: 0 }))).toBe('Questions add up to 0 marks (0) but Total Marks is 5.');
+  });
+});
+
+describe('section and paper marks', () => {
+  const section = { id: 's1', type: 'mcq' as const, title: 'MCQ', questions: [createQuestion('a'), createQuestion('b')] };
+
+  it('adds up the marks of every question', () => {
+    const written = { id: 's2', type: 'short' as const, title: 'Short', questions: [createQuestion('c', 'short', { marks: 3 })] };
+    expect(getExamMarks({ sections: [section, written] })).toBe(5);
+  });
+
+  it('shows the per-question marks only when every question carries the same marks', () => {
+    expect(formatSectionMarks(section)).toBe('2 × 1 = 2 marks');
+    const mixed = { ...section, questions: [createQuestion('a'), createQuestion('b', 'mcq', { marks: 2 })] };
+    expect(formatSectionMarks(mixed)).toBe('3 marks');
+  });
+});
+
+describe('getSectionLabel', () => {
+  it('names the third section in each style', () => {
+    expect(getSectionLabel(2)).toBe('Section C');
+    expect(getSectionLabel(2, 'sectionNumerals')).toBe('Section III');
+    expect(getSectionLabel(2, 'sectionNumbers')).toBe('Section 3');
+    expect(getSectionLabel(2, 'partLetters')).toBe('Part C');
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedExam, OnlineAttempt } from '../types';
+import { getLanguage } from '../services/languages';
+import { createResponsesCsv, createResponsesJson, formatTimeLeft, getAnswerKey, getQuestionAnswer, parseResponsesFile } from '../services/onlineTest';
+import { createQuestion } from './fixtures';
+
+const english = getLanguage('English');
+
+const match = createQuestion('match-1', 'match', {
+  marks: 3,
+  matchPairs: [
+    { left: 'Root', right: 'Absorbs water' },
+    { left: 'Leaf', right: 'Makes food' },
+    { left: 'Stem', right: 'Carries water' },
+  ],
+});
+const caseStudy = createQuestion('case-1', 'caseStudy', {
+  marks: 2,
+  subQuestions: [
+    { text: 'Name the gas.', marks: 1, modelAnswer: 'Oxygen' },
+    { text: 'Name the process.', marks: 1, modelAnswer: 'Photosynthesis' },
+  ],
+});
+
+const exam: GeneratedExam = {
+  sections: [
+    { id: 'section-mcq', type: 'mcq', title: 'MCQs', questions: [createQuestion('mcq-1'), createQuestion('mcq-2')] },
+    { id: 'section-short', type: 'short', title: 'Short answers', questions: [createQuestion('short-1', 'short', { marks: 3 })] },
+  ],
+};
+
+const attempt: OnlineAttempt = {
+  examId: 'exam-1',
+  studentName: 'Verma, Asha',
+  rollNumber: '7',
+  setCode: 'B',
+  answers: { 'mcq-1': 'B', 'mcq-2': 'C', 'short-1': ' Cells divide to grow. ' },
+  durationMinutes: 30,
+  startedAt: Date.UTC(2026, 2, 2, 9, 0),
+  submittedAt: Date.UTC(2026, 2, 2, 9, 25),
+};
+
+describe('getQuestionAnswer', () => {
+  it('joins match rows, marking the ones left blank', () => {
+    const answers = { [getAnswerKey('match-1', 0)]: '2', [getAnswerKey('match-1', 2)]: '0' };
+    expect(getQuestionAnswer(match, answers, english)).toBe('(i) – (c), (ii) – ?, (iii) – (a)');
+    expect(getQuestionAnswer(match, {}, english)).toBe('');
+  });
+
+  it('puts each answered part on its own line under its label', () => {
+    const answers = { [getAnswerKey('case-1', 1)]: ' Photosynthesis ' };
+    expect(getQuestionAnswer(caseStudy, answers, english)).toBe('(b) Photosynthesis');
+    expect(getQuestionAnswer(caseStudy, { ...answers, [getAnswerKey('case-1', 0)]: 'Oxygen' }, english)).toBe('(a) Oxygen\n(b) Photosynthesis');
+  });
+});
+
+describe('formatTimeLeft', () => {
+  it('shows minutes and seconds, with hours only when needed', () => {
+    expect(formatTimeLeft(725_000)).toBe('12:05');
+    expect(formatTimeLeft(3_725_000)).toBe('1:02:05');
+    expect(formatTimeLeft(-5_000)).toBe('0:00');
+  });
+});
+
+describe('responses files', () => {
+  it('reads back an exported JSON file', () => {
+    const { imported, errors } = parseResponsesFile(createResponsesJson(exam, attempt, english));
+    expect(errors).toEqual([]);
+    expect(imported).toEqual({
+      examId: 'exam-1',
+      owner: { studentName: 'Verma, Asha', rollNumber: '7', setCode: 'B' },
+      responses: { 'mcq-1': 'B', 'mcq-2': 'C', 'short-1': 'Cells divide to grow.' },
+    });
+  });
+
+  it('scores choice answers in the CSV and reads it back without a paper id', () => {
+    const csv = createResponsesCsv(exam, attempt, english, 'sectionLetters');
+    expect(csv.split('\n')[1]).toBe('7,"Verma, Asha",B,Section A Q1,mcq-1,B,1,1');
+    const { imported, errors } = parseResponsesFile(`\uFEFF${csv}`);
+    expect(errors).toEqual([]);
+    expect(imported?.examId).toBeNull();
+    expect(imported?.owner).toEqual({ studentName: 'Verma, Asha', rollNumber: '7', setCode: 'B' });
+    expect(imported?.responses['short-1']).toBe('Cells divide to grow.');
+  });
+
+  it('refuses other files and files from a newer version', () => {
+    expect(parseResponsesFile('{"format": "smartexam-template", "settings": {}}').errors).toEqual(['The file does not hold online test responses.']);
+    expect(parseResponsesFile('{"format": "smartexam-responses", "version": 2, "responses": {}}').errors).toEqual([
+      'The responses were saved by a newer version of the app.',
+    ]);
+    expect(parseResponsesFile('name,score\nAsha,4').errors).toEqual([
+      'The responses need a header row with the columns rollNumber, name, setCode, question, questionId, answer, marks, outOf.',
+    ]);
+  });
+});
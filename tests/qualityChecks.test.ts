@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedExam, Question } from '../types';
+import { QualityCheck, QualityFix, applyQualityFix, mergeQualityFixes, runQualityChecks } from '../services/qualityChecks';
+import { createQuestion, createSettings } from './fixtures';
+
+const mcq1 = createQuestion('mcq-1', 'mcq', {
+  text: 'Which organelle releases energy from food?',
+  options: ['Nucleus', 'Mitochondrion', 'Ribosome', 'Vacuole'],
+});
+const mcq2 = createQuestion('mcq-2', 'mcq', {
+  text: 'What surrounds a plant cell outside its membrane?',
+  options: ['Cell wall', 'Cytoplasm', 'Chloroplast', 'Nucleolus'],
+});
+const short1 = createQuestion('short-1', 'short', { text: 'Describe how osmosis moves water into root hair cells.', marks: 3 });
+
+function createExam(mcqs: Question[], shorts: Question[] = [short1]): GeneratedExam {
+  return {
+    sections: [
+      { id: 'section-mcq', type: 'mcq', title: 'MCQs', questions: mcqs },
+      { id: 'section-short', type: 'short', title: 'Short answers', questions: shorts },
+    ],
+  };
+}
+
+function getCheck(checks: QualityCheck[], id: QualityCheck['id']): QualityCheck {
+  return checks.find((check) => check.id === id)!;
+}
+
+describe('runQualityChecks', () => {
+  it('passes a paper that matches its settings', () => {
+    const checks = runQualityChecks(createExam([mcq1, mcq2]), createSettings());
+    expect(checks.map(({ id, status }) => ({ id, status }))).toEqual([
+      { id: 'counts', status: 'passed' },
+      { id: 'mcqOptions', status: 'passed' },
+      { id: 'duplicates', status: 'passed' },
+      { id: 'language', status: 'passed' },
+      { id: 'classLevel', status: 'passed' },
+    ]);
+  });
+
+  it('adds missing questions and takes out ones that were not requested', () => {
+    const checks = runQualityChecks(createExam([mcq1], [short1, { ...short1, id: 'short-2', text: 'Explain why cells divide.' }]), createSettings());
+    expect(getCheck(checks, 'counts').issues).toEqual([
+      { message: 'Multiple Choice Questions (MCQs): question 2 of the 2 requested is missing.', fix: { kind: 'add', type: 'mcq' } },
+      { message: 'Short Answer Questions: more than the 1 requested.', questionId: 'short-2', fix: { kind: 'remove', questionId: 'short-2' } },
+    ]);
+  });
+
+  it('rewrites MCQs with repeated options and repeated questions', () => {
+    const repeatedOption = { ...mcq2, options: ['Cell wall', 'cell wall', 'Chloroplast', 'Nucleolus'] };
+    const checks = runQualityChecks(createExam([mcq1, repeatedOption], [{ ...short1, text: mcq1.text }]), createSettings());
+    expect(getCheck(checks, 'mcqOptions').issues).toEqual([
+      { message: 'Has the same option twice.', questionId: 'mcq-2', fix: { kind: 'regenerate', questionId: 'mcq-2' } },
+    ]);
+    expect(getCheck(checks, 'duplicates').issues).toEqual([
+      { message: `Repeats “${mcq1.text}”.`, questionId: 'short-1', fix: { kind: 'regenerate', questionId: 'short-1' } },
+    ]);
+  });
+
+  it('translates questions whose translation is missing, incomplete or in the wrong script', () => {
+    const settings = createSettings({ secondLanguage: 'Hindi' });
+    const hindiOptions = ['केन्द्रक', 'माइटोकॉन्ड्रिया', 'राइबोसोम', 'रिक्तिका'];
+    const translated = { ...mcq1, translation: { text: 'कौन सा कोशिकांग भोजन से ऊर्जा मुक्त करता है?', options: hindiOptions } };
+    const incomplete = { ...mcq2, translation: { text: 'पादप कोशिका की झिल्ली के बाहर क्या होता है?', options: hindiOptions.slice(0, 3) } };
+    const untranslated = { ...short1, translation: { text: short1.text } };
+
+    const checks = runQualityChecks(createExam([translated, incomplete], [untranslated]), settings);
+    expect(getCheck(checks, 'language').label).toBe('Written in English with Hindi translations');
+    expect(getCheck(checks, 'language').issues.map(({ message, fix }) => ({ message, fix }))).toEqual([
+      { message: 'The Hindi translation is missing parts of the question.', fix: { kind: 'translate', questionId: 'mcq-2' } },
+      { message: 'The translation is not in Hindi.', fix: { kind: 'translate', questionId: 'short-1' } },
+    ]);
+
+    const withoutTranslation = runQualityChecks(createExam([translated, mcq2], [untranslated]), settings);
+    expect(getCheck(withoutTranslation, 'language').issues[0]).toMatchObject({ message: 'Has no Hindi translation.', questionId: 'mcq-2' });
+  });
+
+  it('flags questions that read far above the class', () => {
+    const dense = {
+      ...short1,
+      text: 'Characterise the thermodynamic considerations underlying intracellular compartmentalisation, elaborating physiological consequences regarding metabolic specialisation.',
+    };
+    const checks = runQualityChecks(createExam([mcq1, mcq2], [dense]), createSettings({ className: 'Grade 6' }));
+    expect(getCheck(checks, 'classLevel').issues).toMatchObject([{ questionId: 'short-1', fix: { kind: 'regenerate' } }]);
+  });
+
+  it('skips the reading level without an English paper or a year number', () => {
+    expect(getCheck(runQualityChecks(createExam([mcq1, mcq2]), createSettings({ className: 'Juniors' })), 'classLevel')).toMatchObject({
+      status: 'skipped',
+      note: 'The class has no year number to compare with.',
+    });
+    expect(getCheck(runQualityChecks(createExam([mcq1, mcq2]), createSettings({ language: 'Hindi' })), 'classLevel').note).toBe(
+      'Only English papers can be checked.',
+    );
+  });
+});
+
+describe('mergeQualityFixes', () => {
+  it('keeps one fix per question, preferring to take it out, then to rewrite it', () => {
+    const fixes: QualityFix[] = [
+      { kind: 'add', type: 'mcq' },
+      { kind: 'regenerate', questionId: 'mcq-1' },
+      { kind: 'remove', questionId: 'mcq-1' },
+      { kind: 'translate', questionId: 'mcq-2' },
+      { kind: 'regenerate', questionId: 'mcq-2' },
+      { kind: 'translate', questionId: 'short-1' },
+      { kind: 'add', type: 'mcq' },
+    ];
+    expect(mergeQualityFixes(fixes)).toEqual([
+      { kind: 'add', type: 'mcq' },
+      { kind: 'remove', questionId: 'mcq-1' },
+      { kind: 'regenerate', questionId: 'mcq-2' },
+      { kind: 'translate', questionId: 'short-1' },
+      { kind: 'add', type: 'mcq' },
+    ]);
+  });
+});
+
+describe('applyQualityFix', () => {
+  it('drops a section the removal leaves empty', () => {
+    const exam = createExam([mcq1, mcq2]);
+    const fixed = applyQualityFix(exam, { kind: 'remove', questionId: 'short-1' }, null);
+    expect(fixed.sections.map((section) => section.id)).toEqual(['section-mcq']);
+  });
+
+  it('adds a written question under a fresh id', () => {
+    const fixed = applyQualityFix(createExam([mcq1, mcq2]), { kind: 'add', type: 'mcq' }, { ...mcq1, id: 'draft' });
+    expect(fixed.sections[0].questions.map((question) => question.id)).toEqual(['mcq-1', 'mcq-2', 'mcq-3']);
+  });
+
+  it('takes only the translation, keeping edits made while it was written', () => {
+    const edited = createExam([{ ...mcq1, text: 'Which organelle is the powerhouse of the cell?' }, mcq2]);
+    const translation = { text: 'अनुवाद', options: ['क', 'ख', 'ग', 'घ'] };
+    const fixed = applyQualityFix(edited, { kind: 'translate', questionId: 'mcq-1' }, { ...mcq1, translation });
+    expect(fixed.sections[0].questions[0]).toEqual({ ...edited.sections[0].questions[0], translation });
+  });
+
+  it('leaves the paper alone when the question has since been deleted', () => {
+    const exam = createExam([mcq2]);
+    expect(applyQualityFix(exam, { kind: 'regenerate', questionId: 'mcq-1' }, mcq1)).toBe(exam);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { PaperVariant } from '../types';
+import { assignStudentPapers, parseRosterCsv, validateRoster } from '../services/roster';
+
+describe('parseRosterCsv', () => {
+  it('reads the columns in any order and upper-cases set codes', () => {
+    const { students, errors } = parseRosterCsv('\uFEFFsetCode,name,rollNumber\nb,Asha Verma,1\n,Rahul Nair,2\n');
+    expect(errors).toEqual([]);
+    expect(students.map(({ name, rollNumber, setCode }) => ({ name, rollNumber, setCode }))).toEqual([
+      { name: 'Asha Verma', rollNumber: '1', setCode: 'B' },
+      { name: 'Rahul Nair', rollNumber: '2', setCode: undefined },
+    ]);
+  });
+
+  it('reports a missing header and rows without a name', () => {
+    expect(parseRosterCsv('first,last\nA,B').errors).toEqual(['The roster needs a header row with the columns rollNumber, name, setCode.']);
+    expect(parseRosterCsv('rollNumber,name\n1,\n2,Rahul').errors).toEqual(["Line 2: the student's name is missing."]);
+  });
+});
+
+describe('roster sets', () => {
+  const variants = ['A', 'B'].map((setCode): PaperVariant => ({ setCode, seed: 'seed', exam: { sections: [] } }));
+  const roster = [
+    { id: '1', name: 'Asha', rollNumber: '1' },
+    { id: '2', name: 'Rahul', rollNumber: '2' },
+    { id: '3', name: 'Meera', rollNumber: '3', setCode: 'A' },
+    { id: '4', name: 'Kabir', rollNumber: '3', setCode: 'D' },
+  ];
+
+  it('keeps assigned sets and hands out the rest in turn', () => {
+    expect(assignStudentPapers(roster, variants).map(({ variant }) => variant.setCode)).toEqual(['A', 'B', 'A', 'B']);
+  });
+
+  it('warns about repeated roll numbers and sets that are not printed', () => {
+    expect(validateRoster(roster, ['A', 'B'])).toEqual([
+      'Roll number 3 is used more than once.',
+      'Kabir is assigned Set D, which is not being printed; they will get a set in turn instead.',
+    ]);
+  });
+});
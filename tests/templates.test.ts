@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_BLOOM_MIX } from '../services/bloom';
+import { DEFAULT_PAPER_LAYOUT, createTemplateJson, parseTemplateJson, toTemplateSettings } from '../services/templates';
+import { createSettings } from './fixtures';
+
+function templateJson(settings: Record<string, unknown>, extra: Record<string, unknown> = {}): string {
+  return JSON.stringify({ format: 'smartexam-template', version: 1, name: 'Term paper', settings, ...extra });
+}
+
+const base = createSettings();
+
+describe('parseTemplateJson', () => {
+  it('reads back an exported template', () => {
+    const settings = createSettings({ totalMarks: 40, secondLanguage: 'Hindi', layout: { ...DEFAULT_PAPER_LAYOUT, sectionNaming: 'partLetters' } });
+    const json = createTemplateJson({ id: 'saved', name: 'Term paper', settings: toTemplateSettings(settings), createdAt: 0, updatedAt: 0 });
+    const { template, errors } = parseTemplateJson(json, base);
+    expect(errors).toEqual([]);
+    expect(template?.name).toBe('Term paper');
+    expect(template?.settings).toEqual(toTemplateSettings(settings));
+  });
+
+  it('refuses files that are not templates or come from a newer version', () => {
+    expect(parseTemplateJson('{', base).errors).toEqual(['The file is not valid JSON.']);
+    expect(parseTemplateJson(JSON.stringify({ settings: {} }), base).errors).toEqual(['The file is not an exam template.']);
+    expect(parseTemplateJson(templateJson({}, { version: 2 }), base).errors).toEqual(['The template was saved by a newer version of the app.']);
+  });
+
+  it('keeps the base value of settings with the wrong type or an unknown value', () => {
+    const { template, errors } = parseTemplateJson(templateJson({ totalMarks: '40', difficulty: 'brutal', language: 'Klingon', duration: 90 }), base);
+    expect(errors).toEqual(['Ignored "totalMarks", which has the wrong type.', 'Ignored the difficulty "brutal".', 'Ignored the unknown language "Klingon".']);
+    expect(template?.settings).toMatchObject({ totalMarks: 5, difficulty: 'medium', language: 'English', duration: 90 });
+  });
+
+  it('fills in Bloom levels the file leaves out', () => {
+    const { template } = parseTemplateJson(templateJson({ bloomMix: { mcq: { remember: 3, apply: 'many' } } }), base);
+    expect(template?.settings.bloomMix.mcq).toEqual({ ...DEFAULT_BLOOM_MIX.mcq, remember: 3 });
+    expect(template?.settings.bloomMix.short).toEqual(DEFAULT_BLOOM_MIX.short);
+  });
+
+  it('fills in blueprint rows and drops the ones that cannot be read', () => {
+    const { template, errors } = parseTemplateJson(templateJson({ blueprint: [{ chapter: 'Cells', weightage: 4, counts: { mcq: 1.5 } }, 'Tissues'] }), base);
+    expect(errors).toEqual(['Ignored 1 blueprint row(s) that could not be read.']);
+    expect(template?.settings.blueprint).toHaveLength(1);
+    expect(template?.settings.blueprint[0]).toMatchObject({ chapter: 'Cells', weightage: 4, counts: { mcq: 1, short: 0 } });
+  });
+
+  it('reads the layout field by field and keeps the defaults for the rest', () => {
+    const layout = { title: 'Half-Yearly Examination', sectionNaming: 'romanNumerals', headerFields: [{ label: 'Subject', value: 'Science' }, { label: ' ' }] };
+    const { template } = parseTemplateJson(templateJson({ layout }), base);
+    expect(template?.settings.layout).toMatchObject({ ...DEFAULT_PAPER_LAYOUT, title: 'Half-Yearly Examination', headerFields: [{ label: 'Subject', value: 'Science' }] });
+  });
+});
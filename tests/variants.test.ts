@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { GeneratedExam } from '../types';
+import { MAX_VARIANTS, createPaperVariants, getOriginalQuestionNumber, getSetCodes } from '../services/variants';
+import { createQuestion } from './fixtures';
+
+const exam: GeneratedExam = {
+  sections: [
+    {
+      id: 'section-mcq',
+      type: 'mcq',
+      title: 'MCQ',
+      questions: Array.from({ length: 6 }, (_, index) =>
+        createQuestion(`mcq-${index + 1}`, 'mcq', { translation: { text: `t${index + 1}`, options: ['t-a', 't-b', 't-c', 't-d'] } }),
+      ),
+    },
+    { id: 'section-short', type: 'short', title: 'Short', questions: [createQuestion('short-1', 'short'), createQuestion('short-2', 'short')] },
+  ],
+};
+
+function questionIds(paper: GeneratedExam): string[][] {
+  return paper.sections.map((section) => section.questions.map((question) => question.id));
+}
+
+describe('getSetCodes', () => {
+  it('prints at least one set and no more than there are letters', () => {
+    expect(getSetCodes(3)).toEqual(['A', 'B', 'C']);
+    expect(getSetCodes(0)).toEqual(['A']);
+    expect(getSetCodes(Number.NaN)).toEqual(['A']);
+    expect(getSetCodes(100)).toHaveLength(MAX_VARIANTS);
+  });
+});
+
+describe('createPaperVariants', () => {
+  it('keeps Set A as the generated paper', () => {
+    const [setA] = createPaperVariants(exam, 3, 'seed');
+    expect(setA.setCode).toBe('A');
+    expect(setA.exam).toBe(exam);
+  });
+
+  it('gives the same sets for the same seed and different sets for another seed', () => {
+    const first = createPaperVariants(exam, 4, 'seed');
+    expect(createPaperVariants(exam, 4, 'seed')).toEqual(first);
+    expect(createPaperVariants(exam, 4, 'other').map((variant) => questionIds(variant.exam))).not.toEqual(
+      first.map((variant) => questionIds(variant.exam)),
+    );
+  });
+
+  it('leaves sets already printed unchanged when more sets are added', () => {
+    const three = createPaperVariants(exam, 3, 'seed');
+    expect(createPaperVariants(exam, 5, 'seed').slice(0, 3)).toEqual(three);
+  });
+
+  it('shuffles within sections and keeps each correct answer and translation with its option', () => {
+    createPaperVariants(exam, 5, 'seed').forEach(({ exam: paper }) => {
+      expect(paper.sections.map((section) => section.type)).toEqual(['mcq', 'short']);
+      expect(questionIds(paper).map((ids) => [...ids].sort())).toEqual(questionIds(exam));
+      paper.sections[0].questions.forEach((question) => {
+        const answerIndex = ['A', 'B', 'C', 'D'].indexOf(question.correctAnswer!);
+        expect(question.options![answerIndex]).toBe(`${question.id} two`);
+        expect(question.translation!.options![answerIndex]).toBe('t-b');
+      });
+    });
+  });
+});
+
+describe('getOriginalQuestionNumber', () => {
+  it('finds the position of a question in the unshuffled paper', () => {
+    expect(getOriginalQuestionNumber(exam, 'mcq-4')).toBe(4);
+    expect(getOriginalQuestionNumber(exam, 'short-2')).toBe(2);
+    expect(getOriginalQuestionNumber(exam, 'missing')).toBeNull();
+  });
+});
@@ -1,25 +1,274 @@
 
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type BloomLevel = 'remember' | 'understand' | 'apply' | 'analyze' | 'evaluate' | 'create';
+
+// Target share of each Bloom's level in a section, as percentages adding up to 100
+export type BloomMix = Record<BloomLevel, number>;
+
+// One chapter/unit row of a board-style blueprint
+export interface BlueprintUnit {
+  id: string;
+  chapter: string;
+  weightage: number; // marks this unit should carry
+  counts: Record<QuestionType, number>; // questions of each type drawn from this unit
+}
+
 export interface ExamSettings {
   topic: string;
   className: string;
   board: string;
   studentName: string;
-  language: string;
+  language: string; // name from the language list, e.g. "Hindi"
+  secondLanguage: string; // bilingual papers repeat each question in this language; empty for one language
   totalMarks: number;
   duration: number; // in minutes
   mcqCount: number;
+  trueFalseCount: number;
+  fillBlankCount: number;
+  matchCount: number;
+  assertionReasonCount: number;
   shortCount: number;
   longCount: number;
+  caseStudyCount: number;
+  mcqMarks: number; // marks per MCQ
+  trueFalseMarks: number; // marks per true/false statement
+  fillBlankMarks: number; // marks per fill-in-the-blank
+  matchMarks: number; // marks per match-the-columns set
+  assertionReasonMarks: number; // marks per assertion–reason question
+  shortMarks: number; // marks per short question
+  longMarks: number; // marks per long question
+  caseStudyMarks: number; // marks per case study, shared among its sub-questions
+  variantCount: number; // number of shuffled sets (A, B, C...) to produce
+  variantSeed: string; // seed that makes the shuffled sets reproducible
+  difficulty: Difficulty; // overall level of the paper
+  bloomMix: Record<QuestionType, BloomMix>; // target Bloom's distribution per section
+  blueprintEnabled: boolean; // when true, question counts come from the blueprint
+  blueprint: BlueprintUnit[];
+  roster: RosterStudent[]; // class list for personalised papers; empty prints one generic paper
+  omrSheet: boolean; // print a bubble answer sheet for the objective questions
+  layout: PaperLayout; // school branding, header, instructions and footer of the printed paper
+}
+
+// How sections are headed: Section A, Section I, Section 1 or Part A
+export type SectionNaming = 'sectionLetters' | 'sectionNumerals' | 'sectionNumbers' | 'partLetters';
+
+// An extra line in the paper header, e.g. "Date" or "Invigilator's Signature"
+export interface HeaderField {
+  id: string;
+  label: string;
+  value: string; // Printed as a blank line to write on when empty
+}
+
+// A school logo, downscaled to a JPEG so it can be stored with every paper and exported
+export interface PaperLogo {
+  dataUrl: string;
+  width: number;
+  height: number;
+}
+
+// Everything on a paper besides its questions
+export interface PaperLayout {
+  schoolName: string;
+  logo?: PaperLogo;
+  title: string; // e.g. "Half-Yearly Examination 2026"
+  headerFields: HeaderField[]; // Printed after the standard topic, class and marks lines
+  generalInstructions: string[]; // Numbered above the first section
+  sectionNaming: SectionNaming;
+  footerText: string;
+}
+
+// Settings kept in a template; the topic, roster and student vary from paper to paper
+export type TemplateSettings = Omit<ExamSettings, 'topic' | 'studentName' | 'roster' | 'variantSeed'>;
+
+// A department's saved layout and default settings, shared between teachers as JSON
+export interface ExamTemplate {
+  id: string;
+  name: string;
+  settings: TemplateSettings;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// A student on the class roster, who gets their own copy of the paper
+export interface RosterStudent {
+  id: string;
+  name: string;
+  rollNumber: string;
+  setCode?: string; // Set the student sits; assigned in turn when left empty
+}
+
+export type QuestionType =
+  | 'mcq'
+  | 'trueFalse'
+  | 'fillBlank'
+  | 'match'
+  | 'assertionReason'
+  | 'short'
+  | 'long'
+  | 'caseStudy';
+
+// One row of a match-the-columns question, stored in its correct pairing
+export interface MatchPair {
+  left: string;
+  right: string;
+}
+
+// A part (a), (b)... of a case study or a multi-part written question
+export interface SubQuestion {
+  text: string;
+  marks: number;
+  modelAnswer: string;
+}
+
+// Part of a source page, as fractions (0-1) of the page's width and height
+export interface CropRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Where on the uploaded pages a question comes from
+export interface QuestionSource {
+  imageIndexes: number[]; // positions of the cited pages in the upload
+  excerpt: string; // text from those pages that supports the question
+}
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+// An uploaded image or PDF page with the clean-up to apply before it is sent for generation
+export interface SourcePage {
+  id: string;
+  name: string;
+  original: Blob; // as uploaded, or rendered from the PDF
+  included: boolean;
+  rotation: PageRotation;
+  deskew: number; // fine rotation in degrees, applied after rotation
+  contrast: number; // 1 leaves the page unchanged
+  crop: CropRegion; // fractions of the rotated page
+}
+
+// A figure cut out of an uploaded page for a diagram-based question
+export interface DiagramCrop {
+  imageIndex: number; // position of the source page in the upload
+  region: CropRegion;
+  dataUrl?: string; // JPEG of the region; missing until it has been cut from the page
+  width?: number; // pixel size of dataUrl
+  height?: number;
+}
+
+// A question in the paper's second language, printed beneath the original. Answers, model
+// answers and marking schemes stay in the first language.
+export interface QuestionTranslation {
+  text: string;
+  options?: string[];
+  reason?: string;
+  matchPairs?: MatchPair[]; // In the same order as the original pairs
+  subQuestions?: string[]; // Texts of the parts, in order
 }
 
 export interface Question {
-  type: 'mcq' | 'short' | 'long';
+  id: string;
+  type: QuestionType;
   text: string;
-  options?: string[]; // For MCQs
-  correctAnswer?: string; // For MCQs
+  marks: number;
+  options?: string[]; // For MCQs and assertion–reason, always four entries without the A)/B) labels
+  correctAnswer?: string; // Option letter (A-D) for MCQs and assertion–reason, "True"/"False", or the missing word(s) of a blank
+  modelAnswer?: string; // Expected answer for short/long questions, explanation for objective ones
+  markingScheme?: string[]; // Point-wise rubric for short/long questions
+  reason?: string; // Assertion–reason: the Reason statement; `text` holds the Assertion
+  matchPairs?: MatchPair[]; // Match the columns: correct pairs; column B is printed reordered
+  subQuestions?: SubQuestion[]; // Case study questions on the passage in `text`, or the parts of a short/long question
+  diagram?: DiagramCrop; // Figure the question refers to
+  source?: QuestionSource; // Grounding in the uploaded pages
+  bloomLevel?: BloomLevel;
+  difficulty?: Difficulty;
+  chapter?: string; // Blueprint unit the question was drawn from
+  translation?: QuestionTranslation; // Bilingual papers only
+}
+
+export interface ExamSection {
+  id: string;
+  type: QuestionType;
+  title: string;
+  instructions?: string;
+  questions: Question[];
 }
 
 export interface GeneratedExam {
-  htmlContent: string;
+  sections: ExamSection[];
+  sourceSummary?: string; // Analysis of the uploaded pages, reused when regenerating single questions
+  sourcePages?: string[]; // Text of each uploaded page or part of the source text, by imageIndex; empty when written from the topic alone
+}
+
+// What a paper is written from: uploaded pages, plain text (pasted or read from a document), or just the topic
+export type ExamSource =
+  | { kind: 'images'; images: File[] }
+  | { kind: 'text'; text: string }
+  | { kind: 'topic' };
+
+// One shuffled set of a generated exam, e.g. Set B
+export interface PaperVariant {
+  setCode: string;
+  seed: string;
+  exam: GeneratedExam;
+}
+
+// A generated exam persisted in the local library
+export interface SavedExam {
+  id: string;
+  title: string;
+  settings: ExamSettings;
+  exam: GeneratedExam;
+  thumbnails: string[]; // small data URLs of the source images
+  createdAt: number; // epoch milliseconds
+  updatedAt: number;
+}
+
+// Marks for one question on a student's answer sheet
+export interface QuestionGrade {
+  questionId: string;
+  studentAnswer: string; // As read from the sheet; empty when left unanswered
+  suggestedMarks: number; // Scored against the key for objective questions, suggested from the rubric otherwise
+  justification: string;
+  autoScored: boolean;
+  overrideMarks?: number; // Set by the teacher; replaces the suggestion
+}
+
+// A student's answer sheet graded against a saved exam
+export interface GradedSheet {
+  id: string;
+  examId: string;
+  studentName: string;
+  rollNumber: string;
+  setCode: string; // Set the student sat, which decides the question order and option letters
+  grades: QuestionGrade[];
+  createdAt: number; // epoch milliseconds
+  updatedAt: number;
+}
+
+// A student's sitting of the online test, autosaved in the browser until it is submitted
+export interface OnlineAttempt {
+  examId: string;
+  setCode: string; // Set the student sits, which decides the question order and option letters
+  studentName: string;
+  rollNumber: string;
+  answers: Record<string, string>; // By question id, or "<question id>/<index>" for a part or a match row
+  durationMinutes: number; // Fixed when the test starts, so later settings changes do not move the deadline
+  startedAt: number; // epoch milliseconds
+  submittedAt?: number;
+  timedOut?: boolean; // Submitted automatically when the time ran out
+}
+
+// A question kept in the reusable bank, with the context it was written for
+export interface BankQuestion {
+  id: string;
+  question: Question;
+  topic: string;
+  className: string;
+  board: string;
+  tags: string[]; // Bloom's level, difficulty and chapter, for browsing
+  usedInExamIds: string[]; // library exams the question has appeared in
+  createdAt: number; // epoch milliseconds
 }
-    
\ No newline at end of file